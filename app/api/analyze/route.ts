@@ -1,76 +1,173 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { AnalyzeRequestSchema, type AnalysisResult, type ScrapedContent } from '../../lib/types';
-import { performContentAnalysis } from '../../lib/analyzer';
+import {
+  AnalyzeRequestSchema,
+  AnalysisError,
+  RateLimitError,
+  StructuredOutputError,
+  type AnalysisResult,
+  type CompetitorDiscovery,
+  type QuerySearch,
+  type ScrapedContent,
+} from '../../lib/types';
+import { buildQuerySet, performContentAnalysis, toAnalysisQuery } from '../../lib/analyzer';
 import { scrapeContent, scrapeMultipleUrls } from '../../lib/scraper';
-import { generateKeywordsWithGemini } from '../../lib/gemini';
-import { discoverCompetitorsWithSerpAPI } from '../../lib/serpapi';
+import { getEmbeddingProvider } from '../../lib/embeddings';
+import { getRerankerProvider } from '../../lib/rerank';
+import { getLLMProvider } from '../../lib/llm';
+import { resolvePromptSet } from '../../lib/prompts';
+import { resolveTaxonomy } from '../../lib/taxonomies';
+import { extractSerpQueries, searchSerpAPI, type SerpSearchResult } from '../../lib/serpapi';
+import { getSelectedCompetitors, rankCompetitorCandidates, searchQueries, selectSearchQueries } from '../../lib/discovery';
+import { resolveDomainFilters } from '../../lib/sources';
+import { createUsageLedger, meterLLMProvider } from '../../lib/usage';
+
+const DEFAULT_RANK_QUERIES = 20; // Queries searched when tracking rankings
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
     const validatedData = AnalyzeRequestSchema.parse(body);
+    // Resolved up front so an unknown taxonomy fails before any paid call
+    const taxonomy = resolveTaxonomy(validatedData.taxonomy);
 
     const startTime = Date.now();
+    const llm = getLLMProvider(validatedData.options?.llm);
+    const prompts = resolvePromptSet(validatedData.project?.prompts);
+    const usage = createUsageLedger();
     const analysisId = `analysis_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 
     // Step 1: Scrape target content
     console.log('Scraping target content...');
-    const targetContent = await scrapeContent(validatedData.targetUrl);
+    const targetContent = await scrapeContent(validatedData.targetUrl, usage.track('scraping'));
 
-    // Step 2: Generate keywords using Gemini if not provided
-    let queries = validatedData.queries;
-    if (queries.length === 0 && validatedData.options?.generateQueries) {
-      console.log('Generating keywords with Gemini...');
+    // Step 2: Expand the seed topic into a query fan-out when fewer than 10
+    // queries were provided. This is the only expansion: the fan-out is
+    // harvested, searched for rankings and analyzed from here on.
+    const analysisOptions = {
+      seedQuery: validatedData.seedQuery,
+      fanOutTypes: validatedData.options?.fanOutTypes,
+      queriesPerFanOutType: validatedData.options?.queriesPerFanOutType,
+      llm,
+      prompts,
+      usage,
+    };
+    let queries = await buildQuerySet(validatedData.queries.map(toAnalysisQuery), targetContent, {
+      ...analysisOptions,
+      generateQueries: validatedData.options?.generateQueries,
+    });
+
+    // Step 3: Search the seed topic and harvest People Also Ask, related
+    // searches and AI overview queries
+    const seed = validatedData.seedQuery || targetContent.title;
+    const serpConfigured = !!process.env.SERPAPI_KEY;
+    let competitorUrls = validatedData.competitorUrls;
+    const discoverCompetitors = competitorUrls.length === 0 && !!validatedData.options?.includeTopResults;
+    const harvestSerpQueries = validatedData.options?.harvestSerpQueries ?? false;
+    let serp: SerpSearchResult | undefined;
+    if (serpConfigured && (discoverCompetitors || harvestSerpQueries)) {
+      console.log('Searching with SerpAPI...');
       try {
-        const generatedKeywords = await generateKeywordsWithGemini(targetContent.content);
-        queries = generatedKeywords;
+        // Discovery needs this search anyway; on its own it is the cost of harvesting
+        serp = await searchSerpAPI(seed, 10, usage.track(discoverCompetitors ? 'discovery' : 'serp-features'), {
+          loadAIOverview: harvestSerpQueries,
+          aiOverviewUsage: usage.track('serp-features'),
+        });
       } catch (error) {
-        console.warn('Gemini keyword generation failed, using fallback:', error);
-        // Fallback to basic keyword extraction
-        queries = extractBasicKeywords(targetContent.content);
+        console.warn('SerpAPI search failed:', error);
+        // Continue without SERP features
       }
     }
 
-    // Step 3: Discover competitors if not provided
-    let competitorUrls = validatedData.competitorUrls;
-    if (competitorUrls.length === 0 && validatedData.options?.includeTopResults) {
+    if (serp && harvestSerpQueries) {
+      queries = [...queries, ...extractSerpQueries(serp.features)];
+    }
+
+    // Every Google search of the analysis, reused for rank tracking
+    let serpSearches: QuerySearch[] = serp ? [{ query: seed, results: serp.organicResults }] : [];
+
+    // Step 4: Discover competitors across the top queries if not provided
+    let competitorDiscovery: CompetitorDiscovery | undefined;
+    if (discoverCompetitors && !serpConfigured) {
+      console.warn('SerpAPI key not configured, skipping competitor discovery');
+    } else if (discoverCompetitors) {
       console.log('Discovering competitors with SerpAPI...');
-      try {
-        const discoveredCompetitors = await discoverCompetitorsWithSerpAPI(
-          targetContent.title,
-          validatedData.options?.resultCount || 5
-        );
-        competitorUrls = discoveredCompetitors;
-      } catch (error) {
-        console.warn('SerpAPI competitor discovery failed:', error);
-        // Continue with empty competitor list
-      }
+      serpSearches = await searchQueries(
+        selectSearchQueries(seed, queries, validatedData.options?.discoveryQueries),
+        serpSearches,
+        undefined,
+        usage.track('discovery')
+      );
+      competitorDiscovery = rankCompetitorCandidates(
+        serpSearches,
+        validatedData.options?.resultCount || 5,
+        validatedData.targetUrl,
+        resolveDomainFilters(validatedData.project, validatedData.options?.domainFilters)
+      );
+      competitorUrls = getSelectedCompetitors(competitorDiscovery);
+    }
+
+    // Step 5: Search the remaining top queries to track rankings
+    if (serpConfigured && validatedData.options?.trackRankings) {
+      console.log('Tracking rankings with SerpAPI...');
+      serpSearches = await searchQueries(
+        selectSearchQueries(undefined, queries, validatedData.options?.rankQueries ?? DEFAULT_RANK_QUERIES),
+        serpSearches,
+        undefined,
+        usage.track('rankings')
+      );
     }
 
-    // Step 4: Scrape competitor content
+    // Step 6: Scrape competitor content
     let competitorContents: ScrapedContent[] = [];
     if (competitorUrls.length > 0) {
       console.log('Scraping competitor content...');
-      const scrapedResults = await scrapeMultipleUrls(competitorUrls);
+      const scrapedResults = await scrapeMultipleUrls(competitorUrls, 3, usage.track('scraping'));
       competitorContents = scrapedResults.filter((result): result is ScrapedContent => result !== null);
     }
 
-    // Step 5: Perform AI analysis
+    // Step 7: Perform AI analysis
     console.log('Performing AI analysis...');
     const analysisResult = await performContentAnalysis(
       targetContent,
       competitorContents,
-      queries
+      queries,
+      getEmbeddingProvider(
+        validatedData.options?.embeddingProvider,
+        validatedData.options?.embeddingModel
+      ),
+      {
+        ...analysisOptions,
+        generateQueries: false,
+        pooling: validatedData.options?.pooling,
+        topK: validatedData.options?.topK,
+        taxonomy,
+        categoryMode: validatedData.options?.categoryMode,
+        normalization: validatedData.options?.normalization,
+        threshold: validatedData.options?.threshold,
+        scoring: validatedData.options?.scoring,
+        hybridWeights: validatedData.options?.hybridWeights,
+        reranker: validatedData.options?.rerank
+          ? getRerankerProvider(validatedData.options.rerankProvider, validatedData.options.rerankModel)
+          : undefined,
+        generateBriefs: validatedData.options?.generateBriefs,
+        analyzeEntities: validatedData.options?.analyzeEntities ?? false,
+        simulateCitations: validatedData.options?.simulateCitations,
+        citationQueries: validatedData.options?.citationQueries,
+        intentClassifier: validatedData.options?.intentClassifier,
+        serpSearches,
+      }
     );
 
-    // Step 6: Prepare final result
+    // Step 8: Prepare final result
     const finalResult: AnalysisResult = {
       ...analysisResult,
       analysisId,
       targetUrl: validatedData.targetUrl,
-      queries,
+      projectId: validatedData.project?.id,
       timestamp: new Date().toISOString(),
       processingTime: Date.now() - startTime,
+      serpFeatures: serp?.features,
+      competitorDiscovery,
     };
 
     return NextResponse.json({
@@ -81,6 +178,31 @@ export async function POST(request: NextRequest) {
 
   } catch (error) {
     console.error('Analysis error:', error);
+
+    if (error instanceof RateLimitError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: error.message,
+          timestamp: new Date().toISOString(),
+        },
+        { status: 429, headers: { 'Retry-After': String(error.retryAfter) } }
+      );
+    }
+
+    // The model never produced valid output; report it rather than analyze placeholder queries
+    if (error instanceof StructuredOutputError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: error.message,
+          task: error.task,
+          issues: error.issues,
+          timestamp: new Date().toISOString(),
+        },
+        { status: 502 }
+      );
+    }
     
     if (error instanceof Error) {
       return NextResponse.json(
@@ -89,7 +211,7 @@ export async function POST(request: NextRequest) {
           error: error.message,
           timestamp: new Date().toISOString(),
         },
-        { status: 500 }
+        { status: error instanceof AnalysisError ? error.statusCode : 500 }
       );
     }
 
@@ -104,20 +226,3 @@ export async function POST(request: NextRequest) {
   }
 }
 
-// Fallback keyword extraction function
-function extractBasicKeywords(content: string): string[] {
-  const words = content.toLowerCase()
-    .replace(/[^\w\s]/g, '')
-    .split(/\s+/)
-    .filter(word => word.length > 3);
-
-  const wordFreq: Record<string, number> = {};
-  words.forEach(word => {
-    wordFreq[word] = (wordFreq[word] || 0) + 1;
-  });
-
-  return Object.entries(wordFreq)
-    .sort(([, a], [, b]) => b - a)
-    .slice(0, 20)
-    .map(([word]) => word);
-} 
\ No newline at end of file
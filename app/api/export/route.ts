@@ -1,9 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { type AnalysisResult } from '../../lib/types';
+import { type AnalysisResult, type CoverageMatrix, type ExportFormat } from '../../lib/types';
+import { formatBriefAsMarkdown } from '../../lib/briefs';
 
 interface ExportRequest {
   analysisData: AnalysisResult;
-  format: 'csv' | 'json';
+  format: ExportFormat;
   options: {
     includeRawData: boolean;
     includeMetadata: boolean;
@@ -31,6 +32,21 @@ export async function POST(request: NextRequest) {
       content = csvData;
       filename = `analysis-${analysisData.analysisId}.csv`;
       contentType = 'text/csv';
+    } else if (format === 'matrix') {
+      // Analyses saved before the coverage matrix was added have none
+      if (!analysisData.coverageMatrix) {
+        return NextResponse.json(
+          { error: 'This analysis has no coverage matrix. Run it again to export one.' },
+          { status: 400 }
+        );
+      }
+      content = convertMatrixToCSV(analysisData, analysisData.coverageMatrix);
+      filename = `analysis-${analysisData.analysisId}-matrix.csv`;
+      contentType = 'text/csv';
+    } else if (format === 'briefs') {
+      content = convertBriefsToMarkdown(analysisData);
+      filename = `analysis-${analysisData.analysisId}-briefs.md`;
+      contentType = 'text/markdown';
     } else if (format === 'json') {
       const jsonData = convertToJSON(analysisData, options);
       content = JSON.stringify(jsonData, null, 2);
@@ -133,6 +149,59 @@ function convertToCSV(analysisData: AnalysisResult, options: ExportRequest['opti
   ).join('\n');
 }
 
+function convertMatrixToCSV(analysisData: AnalysisResult, matrix: CoverageMatrix): string {
+  const { urls, rows: matrixRows } = matrix;
+  const uncovered = new Set(analysisData.uncoveredQueries);
+  const notSearched = analysisData.rankTracking ? 'Not searched' : '';
+
+  const headers = [
+    'Query',
+    'Category',
+    'Fan-Out Type',
+    'Intent',
+    'Source',
+    'Weight',
+    'Covered By All Competitors Only',
+    ...urls.flatMap(url => [`${url} Similarity`, `${url} Matched`, `${url} Google Position`, `${url} Best Passage`]),
+  ];
+
+  const rows: string[][] = [headers];
+
+  for (const row of matrixRows) {
+    rows.push([
+      row.query,
+      row.category,
+      row.fanOutType || '',
+      row.intent || '',
+      row.source || '',
+      (row.weight ?? 1).toString(),
+      uncovered.has(row.query) ? 'Yes' : 'No',
+      ...row.cells.flatMap(cell => [
+        Math.round(cell.similarity * 100).toString(),
+        cell.matched ? 'Yes' : 'No',
+        cell.serpRank ? (cell.serpRank.position ?? `>${cell.serpRank.depth}`).toString() : notSearched,
+        cell.passage || '',
+      ]),
+    ]);
+  }
+
+  return rows.map(row =>
+    row.map(cell => `"${cell.replace(/"/g, '""')}"`).join(',')
+  ).join('\n');
+}
+
+function convertBriefsToMarkdown(analysisData: AnalysisResult): string {
+  const briefs = analysisData.coverageGaps
+    .filter(gap => gap.brief)
+    .map(gap => formatBriefAsMarkdown(gap.brief!));
+
+  if (briefs.length === 0) {
+    return `# Content Briefs\n\nNo content briefs were generated for ${analysisData.targetUrl}. Enable "generateBriefs" when running the analysis.`;
+  }
+
+  return briefs.join('\n\n---\n\n');
+}
+
 function convertToJSON(analysisData: AnalysisResult, options: ExportRequest['options']): any {
   const exportData: any = {
     metadata: {
@@ -140,11 +209,18 @@ function convertToJSON(analysisData: AnalysisResult, options: ExportRequest['opt
       targetUrl: analysisData.targetUrl,
       timestamp: analysisData.timestamp,
       processingTime: analysisData.processingTime,
+      projectId: analysisData.projectId,
+      llm: analysisData.llm,
+      promptVersions: analysisData.promptVersions,
+      intentClassifier: analysisData.intentClassifier,
+      usage: analysisData.usage,
     },
     target: {
       url: analysisData.targetUrl,
       title: analysisData.targetTitle,
       overallScore: analysisData.targetScore,
+      unweightedScore: analysisData.targetUnweightedScore,
+      citationShare: analysisData.targetCitationShare,
       categoryScores: analysisData.radarData.map(data => ({
         category: data.category,
         score: data.targetScore,
@@ -155,6 +231,8 @@ function convertToJSON(analysisData: AnalysisResult, options: ExportRequest['opt
       url: competitor.url,
       title: competitor.title,
       overallScore: competitor.overallScore,
+      unweightedScore: competitor.unweightedScore,
+      citationShare: competitor.citationShare,
       categoryScores: competitor.categoryScores,
       topQueries: competitor.topQueries,
       recommendations: competitor.recommendations,
@@ -162,6 +240,13 @@ function convertToJSON(analysisData: AnalysisResult, options: ExportRequest['opt
     analysis: {
       queries: analysisData.queries,
       coverageGaps: analysisData.coverageGaps,
+      uncoveredQueries: analysisData.uncoveredQueries,
+      entityGaps: analysisData.entityAnalysis?.gaps || [],
+      citationShares: analysisData.citationAnalysis?.urls || [],
+      intentCoverage: analysisData.intentCoverage || [],
+      serpFeatures: analysisData.serpFeatures,
+      competitorDiscovery: analysisData.competitorDiscovery,
+      rankTracking: analysisData.rankTracking,
       recommendations: analysisData.recommendations,
       radarData: analysisData.radarData,
     },
@@ -172,6 +257,9 @@ function convertToJSON(analysisData: AnalysisResult, options: ExportRequest['opt
       queries: analysisData.queries,
       radarData: analysisData.radarData,
       coverageGaps: analysisData.coverageGaps,
+      coverageMatrix: analysisData.coverageMatrix,
+      entities: analysisData.entityAnalysis?.entities || [],
+      citationAnswers: analysisData.citationAnalysis?.queries || [],
     };
   }
 
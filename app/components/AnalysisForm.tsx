@@ -8,7 +8,11 @@ import { Textarea } from './ui/textarea';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { Badge } from './ui/badge';
 import { Progress } from './ui/progress';
-import { type AnalyzeRequest } from '../lib/types';
+import { type AnalyzeRequest, type EmbeddingProviderName, type LLMProviderName, type NormalizationMethod, type PoolingStrategy, type QueryInput, type ScoringMode, type SourceType } from '../lib/types';
+import { BUILT_IN_TAXONOMIES, DEFAULT_TAXONOMY_ID } from '../lib/taxonomies';
+import { useProjectStore } from '../lib/store';
+import { parseDomainList } from '../lib/sources';
+import { ProjectSettings } from './ProjectSettings';
 import { Globe, Plus, Zap, Target, Users, Search } from 'lucide-react';
 
 interface AnalysisFormProps {
@@ -17,14 +21,28 @@ interface AnalysisFormProps {
   disabled?: boolean;
 }
 
+/**
+ * Parse a query line, reading an optional trailing "| volume"
+ */
+function parseQueryLine(line: string): QueryInput {
+  const match = line.match(/^(.+?)\s*\|\s*(\d+)$/);
+  return match ? { query: match[1], volume: parseInt(match[2], 10) } : line;
+}
+
 export function AnalysisForm({ onSubmit, isLoading, disabled }: AnalysisFormProps) {
   const [targetUrl, setTargetUrl] = useState('');
   const [competitorUrls, setCompetitorUrls] = useState<string[]>(['']);
   const [customQueries, setCustomQueries] = useState('');
-  const [options, setOptions] = useState({
+  const [seedQuery, setSeedQuery] = useState('');
+  const [taxonomyId, setTaxonomyId] = useState(DEFAULT_TAXONOMY_ID);
+  const [denyDomains, setDenyDomains] = useState('');
+  const activeProject = useProjectStore(state => state.projects.find(p => p.id === state.activeProjectId));
+  const [options, setOptions] = useState<AnalyzeRequest['options']>({
     includeTopResults: true,
     resultCount: 5,
     generateQueries: true,
+    pooling: 'max',
+    topK: 3,
   });
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -39,18 +57,27 @@ export function AnalysisForm({ onSubmit, isLoading, disabled }: AnalysisFormProp
       .split('\n')
       .map(q => q.trim())
       .filter(q => q.length > 0)
-      .slice(0, 50);
+      .slice(0, 50)
+      .map(parseQueryLine);
 
     const competitorUrlsFiltered = competitorUrls
       .map(url => url.trim())
       .filter(url => url.length > 0)
       .slice(0, 5);
 
+    const deniedDomains = parseDomainList(denyDomains);
+    const domainFilters = deniedDomains.length > 0 || options.domainFilters?.sourceTypes
+      ? { ...options.domainFilters, denyDomains: deniedDomains.length > 0 ? deniedDomains : undefined }
+      : undefined;
+
     const data: AnalyzeRequest = {
       targetUrl: targetUrl.trim(),
+      seedQuery: seedQuery.trim() || undefined,
+      taxonomy: taxonomyId,
       competitorUrls: competitorUrlsFiltered,
       queries,
-      options,
+      project: activeProject,
+      options: { ...options, domainFilters },
     };
 
     await onSubmit(data);
@@ -78,10 +105,15 @@ export function AnalysisForm({ onSubmit, isLoading, disabled }: AnalysisFormProp
     setTargetUrl('');
     setCompetitorUrls(['']);
     setCustomQueries('');
+    setSeedQuery('');
+    setTaxonomyId(DEFAULT_TAXONOMY_ID);
+    setDenyDomains('');
     setOptions({
       includeTopResults: true,
       resultCount: 5,
       generateQueries: true,
+      pooling: 'max',
+      topK: 3,
     });
   };
 
@@ -164,6 +196,25 @@ export function AnalysisForm({ onSubmit, isLoading, disabled }: AnalysisFormProp
             </div>
           </div>
 
+          {/* Seed Topic */}
+          <div className="space-y-2">
+            <Label htmlFor="seedQuery" className="text-sm font-medium flex items-center">
+              <Search className="h-4 w-4 mr-1" />
+              Seed Topic (Optional)
+            </Label>
+            <Input
+              id="seedQuery"
+              placeholder="Defaults to the target page title"
+              value={seedQuery}
+              onChange={(e) => setSeedQuery(e.target.value)}
+              maxLength={200}
+              disabled={disabled}
+            />
+            <p className="text-xs text-gray-500">
+              Expanded into related, implicit, comparative, reformulated, entity and personalized sub-queries
+            </p>
+          </div>
+
           {/* Custom Queries */}
           <div className="space-y-2">
             <Label htmlFor="customQueries" className="text-sm font-medium">
@@ -178,7 +229,7 @@ export function AnalysisForm({ onSubmit, isLoading, disabled }: AnalysisFormProp
               disabled={disabled}
             />
             <div className="flex justify-between text-xs text-gray-500">
-              <span>One query per line</span>
+              <span>One query per line; add &quot;| 1200&quot; to weight a query by monthly search volume</span>
               <span>{queryCount}/50 queries</span>
             </div>
           </div>
@@ -207,9 +258,250 @@ export function AnalysisForm({ onSubmit, isLoading, disabled }: AnalysisFormProp
                 />
                 <span className="text-sm">Include detailed query matching results</span>
               </label>
+              <label className="flex items-center space-x-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  className="rounded border-gray-300"
+                  checked={options.rerank ?? false}
+                  onChange={(e) => setOptions({ ...options, rerank: e.target.checked })}
+                  disabled={disabled}
+                />
+                <span className="text-sm">Rerank top passages with a cross-encoder (Cohere if configured)</span>
+              </label>
+              <label className="flex items-center space-x-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  className="rounded border-gray-300"
+                  checked={options.generateBriefs ?? false}
+                  onChange={(e) => setOptions({ ...options, generateBriefs: e.target.checked })}
+                  disabled={disabled}
+                />
+                <span className="text-sm">Write a content brief for each coverage gap</span>
+              </label>
+              <label className="flex items-center space-x-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  className="rounded border-gray-300"
+                  checked={options.analyzeEntities ?? false}
+                  onChange={(e) => setOptions({ ...options, analyzeEntities: e.target.checked })}
+                  disabled={disabled}
+                />
+                <span className="text-sm">Compare entities with competitors</span>
+              </label>
+              <label className="flex items-center space-x-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  className="rounded border-gray-300"
+                  checked={options.simulateCitations ?? false}
+                  onChange={(e) => setOptions({ ...options, simulateCitations: e.target.checked })}
+                  disabled={disabled}
+                />
+                <span className="text-sm">Simulate AI answers and measure citation share</span>
+              </label>
+              <label className="flex items-center space-x-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  className="rounded border-gray-300"
+                  checked={options.intentClassifier === 'heuristic'}
+                  onChange={(e) => setOptions({ ...options, intentClassifier: e.target.checked ? 'heuristic' : undefined })}
+                  disabled={disabled}
+                />
+                <span className="text-sm">Label search intent with offline keyword rules instead of the LLM</span>
+              </label>
+              <label className="flex items-center space-x-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  className="rounded border-gray-300"
+                  checked={options.harvestSerpQueries ?? false}
+                  onChange={(e) => setOptions({ ...options, harvestSerpQueries: e.target.checked })}
+                  disabled={disabled}
+                />
+                <span className="text-sm">Add People Also Ask, related searches and AI overview queries from Google</span>
+              </label>
+              <label className="flex items-center space-x-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  className="rounded border-gray-300"
+                  checked={options.trackRankings ?? false}
+                  onChange={(e) => setOptions({ ...options, trackRankings: e.target.checked })}
+                  disabled={disabled}
+                />
+                <span className="text-sm">Track Google rankings for the top 20 queries (uses SerpAPI searches)</span>
+              </label>
+              <label className="flex items-center space-x-2">
+                <span className="text-sm">Categories:</span>
+                <select
+                  className="rounded-md border border-input bg-background px-2 py-1 text-sm"
+                  value={options.categoryMode === 'clusters' ? '' : taxonomyId}
+                  onChange={(e) => {
+                    if (e.target.value) {
+                      setTaxonomyId(e.target.value);
+                    }
+                    setOptions({ ...options, categoryMode: e.target.value ? 'taxonomy' : 'clusters' });
+                  }}
+                  disabled={disabled}
+                >
+                  <option value="">Discover topics automatically</option>
+                  {BUILT_IN_TAXONOMIES.map((taxonomy) => (
+                    <option key={taxonomy.id} value={taxonomy.id}>
+                      {taxonomy.name}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex items-center space-x-2">
+                <span className="text-sm">Passage scoring:</span>
+                <select
+                  className="rounded-md border border-input bg-background px-2 py-1 text-sm"
+                  value={options.pooling}
+                  onChange={(e) => setOptions({ ...options, pooling: e.target.value as PoolingStrategy })}
+                  disabled={disabled}
+                >
+                  <option value="max">Best passage</option>
+                  <option value="topk">Top-{options.topK} passages</option>
+                  <option value="mean">All passages (mean)</option>
+                </select>
+              </label>
+              <label className="flex items-center space-x-2">
+                <span className="text-sm">Embeddings:</span>
+                <select
+                  className="rounded-md border border-input bg-background px-2 py-1 text-sm"
+                  value={options.embeddingProvider ?? ''}
+                  onChange={(e) => setOptions({
+                    ...options,
+                    embeddingProvider: (e.target.value || undefined) as EmbeddingProviderName | undefined,
+                  })}
+                  disabled={disabled}
+                >
+                  <option value="">Server default</option>
+                  <option value="openai">OpenAI</option>
+                  <option value="gemini">Gemini</option>
+                  <option value="local">Local (offline)</option>
+                </select>
+              </label>
+              <label className="flex items-center space-x-2">
+                <span className="text-sm">Score calibration:</span>
+                <select
+                  className="rounded-md border border-input bg-background px-2 py-1 text-sm"
+                  value={options.normalization ?? 'zscore'}
+                  onChange={(e) => setOptions({ ...options, normalization: e.target.value as NormalizationMethod })}
+                  disabled={disabled}
+                >
+                  <option value="zscore">Z-score vs. baseline</option>
+                  <option value="percentile">Percentile vs. baseline</option>
+                  <option value="none">Raw cosine</option>
+                </select>
+              </label>
+              <label className="flex items-center space-x-2">
+                <span className="text-sm">Scoring:</span>
+                <select
+                  className="rounded-md border border-input bg-background px-2 py-1 text-sm"
+                  value={options.scoring ?? 'semantic'}
+                  onChange={(e) => setOptions({ ...options, scoring: e.target.value as ScoringMode })}
+                  disabled={disabled}
+                >
+                  <option value="semantic">Semantic</option>
+                  <option value="hybrid">Hybrid (BM25 + semantic)</option>
+                </select>
+              </label>
+              <label className="flex items-center space-x-2">
+                <span className="text-sm">Discover:</span>
+                <select
+                  className="rounded-md border border-input bg-background px-2 py-1 text-sm"
+                  value={options.domainFilters?.sourceTypes?.join(',') ?? ''}
+                  onChange={(e) => setOptions({
+                    ...options,
+                    domainFilters: {
+                      ...options.domainFilters,
+                      sourceTypes: e.target.value ? (e.target.value.split(',') as SourceType[]) : undefined,
+                    },
+                  })}
+                  disabled={disabled}
+                >
+                  <option value="">All source types</option>
+                  <option value="vendor">Vendor pages only</option>
+                  <option value="vendor,publisher">Vendors and publishers</option>
+                </select>
+              </label>
+              <label className="flex items-center space-x-2">
+                <span className="text-sm">Exclude domains:</span>
+                <Input
+                  className="h-8 w-64"
+                  placeholder="reddit.com, youtube.com"
+                  value={denyDomains}
+                  onChange={(e) => setDenyDomains(e.target.value)}
+                  disabled={disabled}
+                />
+              </label>
+              <label className="flex items-center space-x-2">
+                <span className="text-sm">LLM:</span>
+                <select
+                  className="rounded-md border border-input bg-background px-2 py-1 text-sm"
+                  value={options.llm?.provider ?? ''}
+                  onChange={(e) => setOptions({
+                    ...options,
+                    llm: { ...options.llm, provider: (e.target.value || undefined) as LLMProviderName | undefined },
+                  })}
+                  disabled={disabled}
+                >
+                  <option value="">Server default</option>
+                  <option value="openai">OpenAI</option>
+                  <option value="gemini">Gemini</option>
+                  <option value="openai-compatible">Local (OpenAI-compatible)</option>
+                </select>
+              </label>
+              <label className="flex items-center space-x-2">
+                <span className="text-sm">Model:</span>
+                <Input
+                  className="h-8 w-40"
+                  placeholder="Provider default"
+                  value={options.llm?.model ?? ''}
+                  onChange={(e) => setOptions({
+                    ...options,
+                    llm: { ...options.llm, model: e.target.value.trim() || undefined },
+                  })}
+                  disabled={disabled}
+                />
+              </label>
+              <label className="flex items-center space-x-2">
+                <span className="text-sm">Temperature:</span>
+                <Input
+                  type="number"
+                  className="h-8 w-20"
+                  min={0}
+                  max={2}
+                  step={0.1}
+                  placeholder="Auto"
+                  value={options.llm?.temperature ?? ''}
+                  onChange={(e) => setOptions({
+                    ...options,
+                    llm: { ...options.llm, temperature: e.target.value === '' ? undefined : parseFloat(e.target.value) },
+                  })}
+                  disabled={disabled}
+                />
+              </label>
+              <label className="flex items-center space-x-2">
+                <span className="text-sm">Max tokens:</span>
+                <Input
+                  type="number"
+                  className="h-8 w-24"
+                  min={1}
+                  max={16000}
+                  placeholder="Auto"
+                  value={options.llm?.maxTokens ?? ''}
+                  onChange={(e) => setOptions({
+                    ...options,
+                    llm: { ...options.llm, maxTokens: e.target.value === '' ? undefined : parseInt(e.target.value, 10) },
+                  })}
+                  disabled={disabled}
+                />
+              </label>
             </div>
           </div>
 
+          {/* Project */}
+          <ProjectSettings disabled={disabled} />
+
           {/* Form Actions */}
           <div className="flex justify-between pt-4 border-t">
             <Button
@@ -0,0 +1,97 @@
+'use client';
+
+import React from 'react';
+import { Badge } from './ui/badge';
+import { FileText, HelpCircle, Tag, ExternalLink } from 'lucide-react';
+import { type ContentBrief } from '@/app/lib/types';
+
+interface BriefPanelProps {
+  brief: ContentBrief;
+}
+
+export function BriefPanel({ brief }: BriefPanelProps) {
+  return (
+    <div className="mt-3 p-3 rounded-md bg-white/70 dark:bg-gray-900/40 space-y-3 text-gray-800 dark:text-gray-200">
+      <div className="flex items-start justify-between">
+        <h4 className="font-medium text-sm flex items-center">
+          <FileText className="h-4 w-4 mr-1" />
+          {brief.title}
+        </h4>
+        <Badge variant="outline" className="text-xs ml-2 shrink-0">
+          ~{brief.targetWordCount} words
+        </Badge>
+      </div>
+
+      {/* Outline */}
+      <div>
+        <p className="text-xs font-medium mb-1">Suggested outline</p>
+        <ul className="space-y-0.5">
+          {brief.outline.map((section, index) => (
+            <li
+              key={index}
+              className={`text-xs ${section.level === 3 ? 'ml-4 text-gray-600 dark:text-gray-400' : 'font-medium'}`}
+            >
+              <span className="text-gray-400 mr-1">H{section.level}</span>
+              {section.heading}
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      {/* Questions */}
+      {brief.questions.length > 0 && (
+        <div>
+          <p className="text-xs font-medium mb-1 flex items-center">
+            <HelpCircle className="h-3 w-3 mr-1" />
+            Questions to answer
+          </p>
+          <ul className="space-y-0.5">
+            {brief.questions.map((question, index) => (
+              <li key={index} className="text-xs text-gray-600 dark:text-gray-400">
+                • {question}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Entities */}
+      {brief.entities.length > 0 && (
+        <div>
+          <p className="text-xs font-medium mb-1 flex items-center">
+            <Tag className="h-3 w-3 mr-1" />
+            Entities to mention
+          </p>
+          <div className="flex flex-wrap gap-1">
+            {brief.entities.map((entity) => (
+              <Badge key={entity} variant="secondary" className="text-xs">
+                {entity}
+              </Badge>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* References */}
+      {brief.referenceUrls.length > 0 && (
+        <div>
+          <p className="text-xs font-medium mb-1">Reference competitors</p>
+          <div className="space-y-0.5">
+            {brief.referenceUrls.map((url) => (
+              <a
+                key={url}
+                href={url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="flex items-center text-xs text-blue-600 hover:text-blue-800 underline truncate"
+              >
+                <ExternalLink className="h-3 w-3 mr-1 shrink-0" />
+                {url}
+              </a>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+'use client';
+
+import React from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Badge } from './ui/badge';
+import { Progress } from './ui/progress';
+import { Quote } from 'lucide-react';
+import { type CitationAnalysis } from '@/app/lib/types';
+import { extractDomain } from '@/app/lib/utils';
+
+interface CitationSimulationProps {
+  citationAnalysis?: CitationAnalysis;
+  coverageScores: Record<string, number>; // Embedding coverage score per URL
+}
+
+export function CitationSimulation({ citationAnalysis, coverageScores }: CitationSimulationProps) {
+  if (!citationAnalysis) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <Quote className="h-5 w-5 mr-2" />
+            AI Answer Citations
+          </CardTitle>
+          <CardDescription>
+            Citation simulation was not run for this analysis, or every simulated answer failed.
+          </CardDescription>
+        </CardHeader>
+      </Card>
+    );
+  }
+
+  const { queries, urls, passagesPerQuery } = citationAnalysis;
+  const targetUrl = urls[0]?.url; // The target is always listed first
+
+  return (
+    <div className="space-y-6">
+      {/* Citation Share */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <Quote className="h-5 w-5 mr-2" />
+            Citation Share
+          </CardTitle>
+          <CardDescription>
+            For {queries.length} queries, the top {passagesPerQuery} passages across all pages were given to the
+            LLM, which wrote a grounded answer citing them. Share is each page&apos;s part of all citations;
+            prominence is higher when a page is cited first.
+          </CardDescription>
+        </CardHeader>
+
+        <CardContent>
+          <div className="space-y-3">
+            {urls.map((url) => (
+              <div key={url.url} className="space-y-1">
+                <div className="flex items-center justify-between text-sm">
+                  <div className="flex items-center space-x-2 min-w-0">
+                    <span className="font-medium truncate">{extractDomain(url.url)}</span>
+                    {url.url === targetUrl && (
+                      <Badge variant="secondary" className="text-xs">Your page</Badge>
+                    )}
+                  </div>
+                  <div className="shrink-0 ml-4 text-xs text-gray-600 dark:text-gray-400">
+                    {Math.round(url.share * 100)}% of citations · cited in {url.queriesCited}/{queries.length}
+                    {' '}· retrieved in {url.queriesRetrieved}/{queries.length} · prominence {url.prominence}
+                    {coverageScores[url.url] !== undefined && <> · coverage {coverageScores[url.url]}</>}
+                  </div>
+                </div>
+                <Progress value={url.share * 100} className="h-2" />
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Simulated Answers */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            💬 Simulated Answers
+          </CardTitle>
+          <CardDescription>
+            The answer written for each query, with the pages it cited in order
+          </CardDescription>
+        </CardHeader>
+
+        <CardContent>
+          <div className="space-y-4">
+            {queries.map((result) => (
+              <div key={result.query} className="p-3 bg-gray-50 dark:bg-gray-800 rounded-lg space-y-2">
+                <div className="font-medium text-sm text-gray-900 dark:text-gray-100">{result.query}</div>
+                <p className="text-sm text-gray-700 dark:text-gray-300">{result.answer}</p>
+                <div className="flex flex-wrap gap-2">
+                  {result.citations.length === 0 ? (
+                    <span className="text-xs text-gray-500">No sources cited</span>
+                  ) : (
+                    result.citations.map((citation) => (
+                      <Badge
+                        key={citation.url}
+                        variant={citation.url === targetUrl ? 'default' : 'outline'}
+                        className="text-xs"
+                      >
+                        {citation.position}. {extractDomain(citation.url)} ×{citation.count}
+                      </Badge>
+                    ))
+                  )}
+                </div>
+                <details className="text-xs text-gray-500">
+                  <summary className="cursor-pointer">Sources</summary>
+                  <ol className="list-decimal pl-5 mt-1 space-y-1">
+                    {result.sources.map((source, index) => (
+                      <li key={index}>
+                        <span className="font-medium">{extractDomain(source.url)}</span> ({source.similarity}):{' '}
+                        {source.passage.slice(0, 200)}
+                      </li>
+                    ))}
+                  </ol>
+                </details>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -12,20 +12,27 @@ import {
   Minus,
   Eye
 } from 'lucide-react';
+import { HeadToHead } from './HeadToHead';
 import { type CompetitorCardProps } from '@/app/lib/types';
 import { extractDomain } from '@/app/lib/utils';
+import { LEXICAL_MENTION_THRESHOLD } from '@/app/lib/lexical';
 
 export function CompetitorCard({ 
   competitor, 
   targetScore, 
-  onViewDetails 
+  onViewDetails,
+  showDetails = false,
 }: CompetitorCardProps) {
   const {
     url,
     title,
     overallScore,
+    unweightedScore,
     categoryScores,
     topQueries,
+    headToHead,
+    recommendations,
+    citationShare,
   } = competitor;
 
   const scoreDifference = overallScore - targetScore;
@@ -67,6 +74,16 @@ export function CompetitorCard({
             <div className={`text-2xl font-bold ${performanceColor} mb-1`}>
               {overallScore}
             </div>
+            {unweightedScore !== undefined && unweightedScore !== overallScore && (
+              <div className="text-xs text-gray-500 mb-1">
+                {unweightedScore} unweighted
+              </div>
+            )}
+            {citationShare !== undefined && (
+              <div className="text-xs text-gray-500 mb-1">
+                {Math.round(citationShare * 100)}% of citations
+              </div>
+            )}
             <Badge variant="secondary" className="text-xs">
               {performanceLevel}
             </Badge>
@@ -113,6 +130,11 @@ export function CompetitorCard({
                 </span>
                 <span className="font-medium">
                   {category.score}/100
+                  {category.unweightedScore !== undefined && category.unweightedScore !== category.score && (
+                    <span className="ml-1 text-xs font-normal text-gray-500">
+                      ({category.unweightedScore} unweighted)
+                    </span>
+                  )}
                 </span>
               </div>
               
@@ -157,6 +179,11 @@ export function CompetitorCard({
                   <span className="truncate text-gray-700 dark:text-gray-300">
                     {query.query}
                   </span>
+                  {query.lexicalScore !== undefined && (
+                    <span className="ml-2 shrink-0 text-gray-500">
+                      {query.lexicalScore >= LEXICAL_MENTION_THRESHOLD ? 'mentioned' : 'semantic only'}
+                    </span>
+                  )}
                   <Badge 
                     variant="secondary" 
                     className="ml-2 text-xs"
@@ -177,6 +204,13 @@ export function CompetitorCard({
           </div>
         )}
 
+        {/* Head-to-Head Details */}
+        {showDetails && headToHead && (
+          <div className="pt-2 border-t">
+            <HeadToHead headToHead={headToHead} recommendations={recommendations} />
+          </div>
+        )}
+
         {/* Actions */}
         {onViewDetails && (
           <div className="pt-2 border-t">
@@ -187,7 +221,7 @@ export function CompetitorCard({
               className="w-full"
             >
               <Eye className="h-4 w-4 mr-2" />
-              View Details
+              {showDetails ? 'Hide Details' : 'View Details'}
             </Button>
           </div>
         )}
@@ -0,0 +1,76 @@
+'use client';
+
+import React from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Badge } from './ui/badge';
+import { Crosshair } from 'lucide-react';
+import { type CompetitorCandidate, type CompetitorDiscovery } from '@/app/lib/types';
+import { truncateText } from '@/app/lib/utils';
+
+interface CompetitorDiscoveryCardProps {
+  discovery?: CompetitorDiscovery;
+}
+
+const FILTER_LABELS: Record<NonNullable<CompetitorCandidate['filtered']>, string> = {
+  denied: 'Denied domain',
+  'not-allowed': 'Not on allow list',
+  'source-type': 'Source type filtered',
+};
+
+export function CompetitorDiscoveryCard({ discovery }: CompetitorDiscoveryCardProps) {
+  if (!discovery || discovery.candidates.length === 0) {
+    return null;
+  }
+
+  const { queries, excludedDomain, filters, candidates } = discovery;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Crosshair className="h-5 w-5 mr-2 text-blue-600" />
+          Competitor Discovery
+        </CardTitle>
+        <CardDescription>
+          Pages ranked across {queries.length} Google {queries.length === 1 ? 'search' : 'searches'} by how often
+          and how high they appear
+          {excludedDomain && <> (excluding {excludedDomain})</>}
+          {filters?.sourceTypes && <>. Only {filters.sourceTypes.join(', ')} pages were eligible</>}
+        </CardDescription>
+      </CardHeader>
+
+      <CardContent>
+        <div className="space-y-3">
+          {candidates.map((candidate) => (
+            <div key={candidate.url} className="space-y-1">
+              <div className="flex items-center justify-between text-sm">
+                <div className="flex items-center space-x-2 min-w-0">
+                  <span className={`truncate ${candidate.selected ? 'font-medium' : 'text-gray-600 dark:text-gray-400'}`}>
+                    {truncateText(candidate.url.replace(/^https?:\/\//, ''), 60)}
+                  </span>
+                  <Badge variant="outline" className="text-xs capitalize">{candidate.sourceType}</Badge>
+                  {candidate.selected && (
+                    <Badge variant="secondary" className="text-xs">Analyzed</Badge>
+                  )}
+                  {candidate.filtered && (
+                    <Badge variant="secondary" className="text-xs bg-red-100 text-red-800">
+                      {FILTER_LABELS[candidate.filtered]}
+                    </Badge>
+                  )}
+                </div>
+                <span className="shrink-0 ml-4 text-xs text-gray-500">
+                  score {candidate.score} · domain {candidate.domainScore}
+                </span>
+              </div>
+              <div className="text-xs text-gray-500">
+                {candidate.appearances
+                  .map(appearance => `#${appearance.position} for "${appearance.query}"`)
+                  .join(' · ')}
+              </div>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
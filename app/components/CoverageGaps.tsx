@@ -1,6 +1,6 @@
 'use client';
 
-import React from 'react';
+import React, { useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
 import { Badge } from './ui/badge';
 import { Button } from './ui/button';
@@ -11,6 +11,7 @@ import {
   Target,
   TrendingUp
 } from 'lucide-react';
+import { BriefPanel } from './BriefPanel';
 import { type CoverageGap } from '@/app/lib/types';
 
 interface CoverageGapsProps {
@@ -18,6 +19,8 @@ interface CoverageGapsProps {
 }
 
 export function CoverageGaps({ gaps }: CoverageGapsProps) {
+  const [openBrief, setOpenBrief] = useState<string | null>(null);
+
   if (!gaps || gaps.length === 0) {
     return (
       <Card>
@@ -159,19 +162,27 @@ export function CoverageGaps({ gaps }: CoverageGapsProps) {
               )}
 
               {/* Action Button */}
-              <div className="flex justify-end pt-2 border-t border-current border-opacity-20">
+              <div className="flex items-center justify-end pt-2 border-t border-current border-opacity-20">
+                {!gap.brief && (
+                  <span className="text-xs text-gray-500 mr-2">
+                    Enable content briefs to get an outline for this gap
+                  </span>
+                )}
                 <Button
                   variant="outline"
                   size="sm"
                   className="text-xs"
-                  onClick={() => {
-                    // Could implement content planning feature
-                    console.log(`Plan content for ${gap.category}`);
-                  }}
+                  disabled={!gap.brief}
+                  onClick={() => setOpenBrief(openBrief === gap.category ? null : gap.category)}
                 >
-                  Plan Content
+                  {openBrief === gap.category ? 'Hide Brief' : 'Plan Content'}
                 </Button>
               </div>
+
+              {/* Content Brief */}
+              {gap.brief && openBrief === gap.category && (
+                <BriefPanel brief={gap.brief} />
+              )}
             </div>
           ))}
         </div>
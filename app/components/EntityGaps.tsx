@@ -0,0 +1,114 @@
+'use client';
+
+import React from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Badge } from './ui/badge';
+import { Tag } from 'lucide-react';
+import { type EntityAnalysis } from '@/app/lib/types';
+import { extractDomain } from '@/app/lib/utils';
+
+interface EntityGapsProps {
+  entityAnalysis?: EntityAnalysis;
+}
+
+export function EntityGaps({ entityAnalysis }: EntityGapsProps) {
+  if (!entityAnalysis) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <Tag className="h-5 w-5 mr-2" />
+            Entity Analysis
+          </CardTitle>
+          <CardDescription>
+            Entity analysis was not enabled for this analysis, or entity extraction failed. It needs at least one competitor.
+          </CardDescription>
+        </CardHeader>
+      </Card>
+    );
+  }
+
+  const { entities, gaps, analyzedUrls, partialUrls = [] } = entityAnalysis;
+  const targetUrl = analyzedUrls[0]; // The target is always analyzed first
+  const sharedEntities = entities.filter(entity => entity.urls.includes(targetUrl) && entity.urls.length > 1);
+
+  return (
+    <div className="space-y-6">
+      {/* Entity Gaps */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            🏷️ Entity Gaps
+          </CardTitle>
+          <CardDescription>
+            Entities most competitors mention that your content does not, ranked by how many competitors
+            mention them and how central they are. Entities from {analyzedUrls.length} pages were compared.
+            {partialUrls.length > 0 && (
+              <> Only part of the text was read for {partialUrls.length === 1 ? '1 page' : `${partialUrls.length} pages`} ({partialUrls.join(', ')}), so entities further down may be missing.</>
+            )}
+          </CardDescription>
+        </CardHeader>
+
+        <CardContent>
+          {gaps.length === 0 ? (
+            <p className="text-sm text-gray-500">
+              Your content mentions every entity that most competitors share.
+            </p>
+          ) : (
+            <div className="space-y-2">
+              {gaps.map((gap) => (
+                <div
+                  key={gap.entity}
+                  className="flex items-center justify-between p-3 bg-gray-50 dark:bg-gray-800 rounded-lg"
+                >
+                  <div className="space-y-1 min-w-0">
+                    <div className="flex items-center space-x-2">
+                      <span className="font-medium text-sm text-gray-900 dark:text-gray-100">
+                        {gap.entity}
+                      </span>
+                      <Badge variant="outline" className="text-xs">
+                        {gap.type}
+                      </Badge>
+                    </div>
+                    <p className="text-xs text-gray-500 truncate">
+                      {gap.competitorUrls.map(extractDomain).join(', ')}
+                    </p>
+                  </div>
+                  <div className="text-right shrink-0 ml-4 text-xs text-gray-600 dark:text-gray-400">
+                    <div>{Math.round(gap.competitorShare * 100)}% of competitors</div>
+                    <div>Relevance {gap.averageRelevance}/10</div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Shared Entities */}
+      {sharedEntities.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              ✅ Shared Entities
+            </CardTitle>
+            <CardDescription>
+              Entities your content already has in common with competitors
+            </CardDescription>
+          </CardHeader>
+
+          <CardContent>
+            <div className="flex flex-wrap gap-2">
+              {sharedEntities.map((entity) => (
+                <Badge key={entity.name} variant="secondary" className="text-xs">
+                  {entity.name}
+                  <span className="ml-1 text-gray-500">{entity.urls.length - 1}</span>
+                </Badge>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -9,20 +9,22 @@ import {
   FileSpreadsheet, 
   FileJson,
   ChevronDown,
+  ClipboardList,
+  Table,
   Loader2
 } from 'lucide-react';
-import { type AnalysisResult } from '@/app/lib/types';
+import { type AnalysisResult, type ExportFormat } from '@/app/lib/types';
 
 interface ExportButtonProps {
   analysisResult: AnalysisResult;
-  onExport?: (format: 'csv' | 'json' | 'txt') => void;
+  onExport?: (format: ExportFormat | 'txt') => void;
 }
 
 export function ExportButton({ analysisResult, onExport }: ExportButtonProps) {
   const [isExporting, setIsExporting] = useState(false);
   const [showDropdown, setShowDropdown] = useState(false);
 
-  const handleExport = async (format: 'csv' | 'json' | 'txt') => {
+  const handleExport = async (format: ExportFormat | 'txt') => {
     setIsExporting(true);
     setShowDropdown(false);
 
@@ -54,7 +56,7 @@ export function ExportButton({ analysisResult, onExport }: ExportButtonProps) {
         const contentDisposition = response.headers.get('Content-Disposition');
         const filename = contentDisposition
           ? contentDisposition.split('filename=')[1]?.replace(/"/g, '')
-          : `analysis-${Date.now()}.${format}`;
+          : `analysis-${Date.now()}.${format === 'matrix' ? 'csv' : format === 'briefs' ? 'md' : format}`;
 
         // Create download link
         const blob = await response.blob();
@@ -83,6 +85,20 @@ export function ExportButton({ analysisResult, onExport }: ExportButtonProps) {
       icon: FileSpreadsheet,
       color: 'text-green-600',
     },
+    {
+      format: 'matrix' as const,
+      label: 'Coverage Matrix',
+      description: 'Query × URL CSV',
+      icon: Table,
+      color: 'text-purple-600',
+    },
+    {
+      format: 'briefs' as const,
+      label: 'Content Briefs',
+      description: 'Markdown briefs per gap',
+      icon: ClipboardList,
+      color: 'text-orange-600',
+    },
     {
       format: 'json' as const,
       label: 'JSON',
@@ -0,0 +1,85 @@
+'use client';
+
+import React from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Badge } from './ui/badge';
+import { Progress } from './ui/progress';
+import { GitBranch } from 'lucide-react';
+import { type FanOutCoverage, type FanOutType } from '@/app/lib/types';
+
+interface FanOutBranchesProps {
+  branches: FanOutCoverage[];
+}
+
+const BRANCH_LABELS: Record<FanOutType, string> = {
+  related: 'Related',
+  implicit: 'Implicit',
+  comparative: 'Comparative',
+  reformulation: 'Reformulation',
+  entity_expansion: 'Entity Expansion',
+  personalized: 'Personalized',
+};
+
+export function FanOutBranches({ branches }: FanOutBranchesProps) {
+  if (!branches || branches.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <GitBranch className="h-5 w-5 mr-2 text-blue-600" />
+          Query Fan-Out Coverage
+        </CardTitle>
+        <CardDescription>
+          How well each branch of the AI search query fan-out is covered by your content
+        </CardDescription>
+      </CardHeader>
+
+      <CardContent>
+        <div className="space-y-4">
+          {branches.map((branch) => {
+            const diff = branch.targetScore - branch.competitorAvg;
+
+            return (
+              <div key={branch.type} className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center space-x-2">
+                    <span className="text-sm font-medium text-gray-900 dark:text-gray-100">
+                      {BRANCH_LABELS[branch.type]}
+                    </span>
+                    <Badge
+                      variant="secondary"
+                      className={`text-xs ${diff >= 0 ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}`}
+                    >
+                      {diff >= 0 ? '+' : ''}{diff}
+                    </Badge>
+                  </div>
+
+                  <div className="flex items-center space-x-2 text-sm">
+                    <span className="text-blue-600 font-medium">{branch.targetScore}</span>
+                    <span className="text-gray-400">vs</span>
+                    <span className="text-gray-600">{branch.competitorAvg}</span>
+                  </div>
+                </div>
+
+                <Progress value={branch.targetScore} className="h-2" />
+
+                <div className="flex justify-between text-xs text-gray-500">
+                  <span className="truncate mr-4">
+                    {branch.queries.slice(0, 3).join(' · ')}
+                    {branch.queries.length > 3 && ` +${branch.queries.length - 3} more`}
+                  </span>
+                  <span className="flex-shrink-0">
+                    {branch.matchedQueries}/{branch.totalQueries} matches
+                  </span>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
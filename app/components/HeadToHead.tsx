@@ -0,0 +1,91 @@
+'use client';
+
+import React from 'react';
+import { Badge } from './ui/badge';
+import { Lightbulb, Swords } from 'lucide-react';
+import { type HeadToHead as HeadToHeadData } from '@/app/lib/types';
+
+interface HeadToHeadProps {
+  headToHead: HeadToHeadData;
+  recommendations: string[];
+}
+
+export function HeadToHead({ headToHead, recommendations }: HeadToHeadProps) {
+  const { categoriesWon, queriesWon } = headToHead;
+
+  if (categoriesWon.length === 0 && queriesWon.length === 0) {
+    return (
+      <p className="text-sm text-gray-500">
+        This competitor does not beat your content in any category or on any query.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Categories They Win */}
+      {categoriesWon.length > 0 && (
+        <div className="space-y-2">
+          <h5 className="text-sm font-medium text-gray-900 dark:text-gray-100 flex items-center">
+            <Swords className="h-4 w-4 mr-1 text-red-600" />
+            Categories They Win
+          </h5>
+          {categoriesWon.map((category) => (
+            <div key={category.category} className="flex items-center justify-between text-sm">
+              <span className="text-gray-600 dark:text-gray-400">{category.category}</span>
+              <span className="flex items-center space-x-2">
+                <span className="text-gray-500">
+                  {category.competitorScore} vs {category.targetScore}
+                </span>
+                <Badge variant="secondary" className="text-xs bg-red-100 text-red-800">
+                  +{category.difference}
+                </Badge>
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Queries They Cover That You Miss */}
+      {queriesWon.length > 0 && (
+        <div className="space-y-2">
+          <h5 className="text-sm font-medium text-gray-900 dark:text-gray-100">
+            Queries They Cover That You Miss
+          </h5>
+          {queriesWon.map((query) => (
+            <div key={query.query} className="p-2 bg-gray-50 dark:bg-gray-800 rounded text-xs space-y-1">
+              <div className="flex items-center justify-between">
+                <span className="font-medium text-gray-700 dark:text-gray-300">{query.query}</span>
+                <span className="ml-2 shrink-0 text-gray-500">
+                  {Math.round(query.competitorSimilarity * 100)}% vs {Math.round(query.targetSimilarity * 100)}%
+                </span>
+              </div>
+              {query.passage && (
+                <p className="text-gray-500 italic line-clamp-3">
+                  &ldquo;{query.passage}&rdquo;
+                </p>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Recommendations */}
+      {recommendations.length > 0 && (
+        <div className="space-y-2">
+          <h5 className="text-sm font-medium text-gray-900 dark:text-gray-100 flex items-center">
+            <Lightbulb className="h-4 w-4 mr-1 text-yellow-600" />
+            Recommendations
+          </h5>
+          <ul className="space-y-1">
+            {recommendations.map((recommendation, index) => (
+              <li key={index} className="text-xs text-gray-600 dark:text-gray-400">
+                • {recommendation}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+'use client';
+
+import React from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Badge } from './ui/badge';
+import { Progress } from './ui/progress';
+import { Compass } from 'lucide-react';
+import { type IntentClassifier, type IntentCoverage, type SearchIntent } from '@/app/lib/types';
+
+interface IntentCoverageCardProps {
+  intents: IntentCoverage[];
+  classifier?: IntentClassifier;
+  fallback?: boolean; // The LLM classifier failed
+}
+
+const INTENT_LABELS: Record<SearchIntent, string> = {
+  informational: 'Informational',
+  commercial: 'Commercial',
+  transactional: 'Transactional',
+  navigational: 'Navigational',
+};
+
+export function IntentCoverageCard({ intents, classifier, fallback }: IntentCoverageCardProps) {
+  if (!intents || intents.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Compass className="h-5 w-5 mr-2 text-blue-600" />
+          Search Intent Coverage
+        </CardTitle>
+        <CardDescription>
+          How well your content covers each kind of search intent
+          {classifier === 'heuristic' && (fallback
+            ? ' (the LLM classifier failed, so intents were labelled by the offline keyword classifier)'
+            : ' (intents labelled by the offline keyword classifier)')}
+        </CardDescription>
+      </CardHeader>
+
+      <CardContent>
+        <div className="space-y-4">
+          {intents.map((intent) => {
+            const diff = intent.targetScore - intent.competitorAvg;
+            const missedByTarget = intent.competitorMatchedAvg > intent.matchedQueries;
+
+            return (
+              <div key={intent.intent} className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center space-x-2">
+                    <span className="text-sm font-medium text-gray-900 dark:text-gray-100">
+                      {INTENT_LABELS[intent.intent]}
+                    </span>
+                    <Badge
+                      variant="secondary"
+                      className={`text-xs ${diff >= 0 ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}`}
+                    >
+                      {diff >= 0 ? '+' : ''}{diff}
+                    </Badge>
+                  </div>
+
+                  <div className="flex items-center space-x-2 text-sm">
+                    <span className="text-blue-600 font-medium">{intent.targetScore}</span>
+                    <span className="text-gray-400">vs</span>
+                    <span className="text-gray-600">{intent.competitorAvg}</span>
+                  </div>
+                </div>
+
+                <Progress value={intent.targetScore} className="h-2" />
+
+                <div className="flex justify-between text-xs text-gray-500">
+                  <span className="truncate mr-4">
+                    {intent.queries.slice(0, 3).join(' · ')}
+                    {intent.queries.length > 3 && ` +${intent.queries.length - 3} more`}
+                  </span>
+                  <span className={`flex-shrink-0 ${missedByTarget ? 'text-red-600' : ''}`}>
+                    {intent.matchedQueries}/{intent.totalQueries} matches
+                    {' '}(competitors {intent.competitorMatchedAvg})
+                  </span>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
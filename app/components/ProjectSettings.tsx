@@ -0,0 +1,212 @@
+'use client';
+
+import React from 'react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Textarea } from './ui/textarea';
+import { FolderOpen, Plus, Trash2 } from 'lucide-react';
+import { type DomainFilters, type Project, type PromptName, type PromptOverride } from '@/app/lib/types';
+import { PROMPT_NAMES, getLatestPromptTemplate, getPromptVersions } from '@/app/lib/prompts';
+import { SOURCE_TYPES, parseDomainList } from '@/app/lib/sources';
+import { useProjectStore } from '@/app/lib/store';
+
+const CUSTOM_VERSION = '__custom';
+
+interface ProjectSettingsProps {
+  disabled?: boolean;
+}
+
+export function ProjectSettings({ disabled }: ProjectSettingsProps) {
+  const { projects, activeProjectId, saveProject, removeProject, setActiveProject } = useProjectStore();
+  const activeProject = projects.find(project => project.id === activeProjectId) || null;
+
+  const createProject = () => {
+    const name = window.prompt('Project name')?.trim();
+    if (!name) return;
+
+    const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 30) || 'project';
+    const project: Project = { id: `${slug}-${Date.now().toString(36)}`, name: name.slice(0, 100) };
+    saveProject(project);
+    setActiveProject(project.id);
+  };
+
+  const setOverride = (project: Project, name: PromptName, override: PromptOverride | undefined) => {
+    const prompts = { ...project.prompts };
+    if (override) {
+      prompts[name] = override;
+    } else {
+      delete prompts[name];
+    }
+    saveProject({ ...project, prompts });
+  };
+
+  const setDomainFilters = (project: Project, changes: Partial<DomainFilters>) => {
+    const domainFilters = { ...project.domainFilters, ...changes };
+    const isEmpty = !domainFilters.allowDomains?.length && !domainFilters.denyDomains?.length && !domainFilters.sourceTypes?.length;
+    saveProject({ ...project, domainFilters: isEmpty ? undefined : domainFilters });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center space-x-2">
+        <FolderOpen className="h-4 w-4 text-gray-500" />
+        <span className="text-sm">Project:</span>
+        <select
+          className="rounded-md border border-input bg-background px-2 py-1 text-sm"
+          value={activeProjectId ?? ''}
+          onChange={(e) => setActiveProject(e.target.value || null)}
+          disabled={disabled}
+        >
+          <option value="">No project</option>
+          {projects.map((project) => (
+            <option key={project.id} value={project.id}>
+              {project.name}
+            </option>
+          ))}
+        </select>
+        <Button type="button" variant="outline" size="sm" onClick={createProject} disabled={disabled}>
+          <Plus className="h-4 w-4 mr-1" />
+          New
+        </Button>
+        {activeProject && (
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => removeProject(activeProject.id)}
+            disabled={disabled}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+
+      {/* Competitor Domain Filters */}
+      {activeProject && (
+        <div key={activeProject.id} className="space-y-2 pl-6">
+          <p className="text-xs text-gray-500">
+            Competitor discovery for this project. Domains are comma separated and include their subdomains.
+          </p>
+          <label className="flex items-center space-x-2">
+            <span className="text-sm w-40">Only discover</span>
+            <Input
+              className="h-8 w-64"
+              placeholder="Any domain"
+              defaultValue={activeProject.domainFilters?.allowDomains?.join(', ') ?? ''}
+              onBlur={(e) => {
+                const domains = parseDomainList(e.target.value);
+                setDomainFilters(activeProject, { allowDomains: domains.length > 0 ? domains : undefined });
+              }}
+              disabled={disabled}
+            />
+          </label>
+          <label className="flex items-center space-x-2">
+            <span className="text-sm w-40">Never discover</span>
+            <Input
+              className="h-8 w-64"
+              placeholder="reddit.com, youtube.com"
+              defaultValue={activeProject.domainFilters?.denyDomains?.join(', ') ?? ''}
+              onBlur={(e) => {
+                const domains = parseDomainList(e.target.value);
+                setDomainFilters(activeProject, { denyDomains: domains.length > 0 ? domains : undefined });
+              }}
+              disabled={disabled}
+            />
+          </label>
+          <div className="flex flex-wrap items-center gap-3">
+            <span className="text-sm w-40">Source types</span>
+            {SOURCE_TYPES.map((type) => {
+              const sourceTypes = activeProject.domainFilters?.sourceTypes;
+              return (
+                <label key={type} className="flex items-center space-x-1 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    className="rounded border-gray-300"
+                    checked={!sourceTypes || sourceTypes.includes(type)}
+                    onChange={(e) => {
+                      const current = sourceTypes || SOURCE_TYPES;
+                      const next = e.target.checked ? [...current, type] : current.filter(t => t !== type);
+                      setDomainFilters(activeProject, {
+                        sourceTypes: next.length === SOURCE_TYPES.length || next.length === 0 ? undefined : next,
+                      });
+                    }}
+                    disabled={disabled}
+                  />
+                  <span className="text-sm capitalize">{type}</span>
+                </label>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {/* Prompt Overrides */}
+      {activeProject && (
+        <div className="space-y-2 pl-6">
+          <p className="text-xs text-gray-500">
+            Prompt templates for this project. Pin an older version to reproduce a report, or write a custom
+            template under a new version label to A/B a change.
+          </p>
+          {PROMPT_NAMES.map((name) => {
+            const override = activeProject.prompts?.[name];
+            const latest = getLatestPromptTemplate(name);
+            const selected = !override ? '' : override.template ? CUSTOM_VERSION : override.version;
+
+            return (
+              <div key={name} className="space-y-1">
+                <label className="flex items-center space-x-2">
+                  <span className="text-sm w-40">{latest.description}</span>
+                  <select
+                    className="rounded-md border border-input bg-background px-2 py-1 text-sm"
+                    value={selected}
+                    onChange={(e) => {
+                      const value = e.target.value;
+                      if (!value) {
+                        setOverride(activeProject, name, undefined);
+                      } else if (value === CUSTOM_VERSION) {
+                        setOverride(activeProject, name, { version: 'custom-1', template: latest.template });
+                      } else {
+                        setOverride(activeProject, name, { version: value });
+                      }
+                    }}
+                    disabled={disabled}
+                  >
+                    <option value="">Latest ({latest.version})</option>
+                    {getPromptVersions(name).map((template) => (
+                      <option key={template.version} value={template.version}>
+                        Pin {template.version}
+                      </option>
+                    ))}
+                    <option value={CUSTOM_VERSION}>Custom template</option>
+                  </select>
+                </label>
+
+                {override?.template && (
+                  <div className="space-y-1">
+                    <Input
+                      className="h-8 w-40"
+                      placeholder="Version label"
+                      value={override.version}
+                      onChange={(e) => setOverride(activeProject, name, { ...override, version: e.target.value })}
+                      disabled={disabled}
+                    />
+                    <Textarea
+                      rows={6}
+                      className="font-mono text-xs"
+                      value={override.template}
+                      onChange={(e) => setOverride(activeProject, name, { ...override, template: e.target.value })}
+                      disabled={disabled}
+                    />
+                    <p className="text-xs text-gray-500">
+                      Variables: {latest.variables.map(variable => `{{${variable}}}`).join(', ')}
+                    </p>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
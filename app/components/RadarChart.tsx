@@ -47,7 +47,8 @@ export function RadarChart({
   data, 
   width = 400, 
   height = 300, 
-  showLegend = true 
+  showLegend = true,
+  categoryMode = 'taxonomy'
 }: RadarChartProps) {
   if (!data || data.length === 0) {
     return (
@@ -93,7 +94,9 @@ export function RadarChart({
               📊 Content Coverage Radar
             </CardTitle>
             <CardDescription>
-              Semantic similarity scores across content categories
+              {categoryMode === 'clusters'
+                ? 'Semantic similarity scores across topics discovered in your query set'
+                : 'Semantic similarity scores across content categories'}
             </CardDescription>
           </div>
           <Badge className={performanceColor}>
@@ -0,0 +1,160 @@
+'use client';
+
+import React from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Badge } from './ui/badge';
+import { ArrowDown, ArrowUp, ListOrdered } from 'lucide-react';
+import { type CoverageMatrix, type QueryRankHistory, type RankGroupStats, type RankTracking } from '@/app/lib/types';
+import { extractDomain } from '@/app/lib/utils';
+
+interface RankingsPanelProps {
+  rankTracking?: RankTracking;
+  coverageMatrix?: CoverageMatrix; // Missing on analyses saved before the coverage matrix
+  history: QueryRankHistory[]; // Rank history of the same target URL
+}
+
+function describeCorrelation(correlation: number | null): string {
+  if (correlation === null) return 'Every page ranked the same or covered the queries equally, so there is no correlation to measure.';
+  if (correlation >= 0.3) return 'Pages that cover a query better tend to rank higher for it.';
+  if (correlation <= -0.3) return 'Pages that cover a query better tend to rank lower for it; ranking is driven by something else.';
+  return 'Coverage and ranking are only weakly related for these queries.';
+}
+
+function GroupStats({ label, stats }: { label: string; stats: RankGroupStats }) {
+  return (
+    <div className="p-3 bg-gray-50 dark:bg-gray-800 rounded-lg">
+      <div className="text-xs font-medium text-gray-500 uppercase">{label}</div>
+      <div className="text-lg font-semibold text-gray-900 dark:text-gray-100">
+        {Math.round(stats.rankingRate * 100)}% rank
+      </div>
+      <div className="text-xs text-gray-500">
+        {stats.averagePosition !== null ? `avg. position ${stats.averagePosition}` : 'none ranking'} · {stats.pairs} page-query pairs
+      </div>
+    </div>
+  );
+}
+
+export function RankingsPanel({ rankTracking, coverageMatrix, history }: RankingsPanelProps) {
+  if (!rankTracking) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <ListOrdered className="h-5 w-5 mr-2" />
+            Google Rankings
+          </CardTitle>
+          <CardDescription>
+            No analysis query was searched on Google. Configure SerpAPI and enable rank tracking to record rankings.
+          </CardDescription>
+        </CardHeader>
+      </Card>
+    );
+  }
+
+  const { correlation } = rankTracking;
+  const historyByQuery = new Map(history.map(h => [h.query.toLowerCase(), h]));
+  const matrixRows = coverageMatrix?.rows || [];
+  const rows = matrixRows.filter(row => row.cells[0]?.serpRank);
+  const notSearched = matrixRows.length - rows.length;
+
+  return (
+    <div className="space-y-6">
+      {/* Coverage vs. Ranking */}
+      {correlation && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <ListOrdered className="h-5 w-5 mr-2" />
+              Coverage vs. Ranking
+            </CardTitle>
+            <CardDescription>
+              Across your page and the competitors for {rankTracking.queries.length} searched queries.
+              {' '}{describeCorrelation(correlation.correlation)}
+            </CardDescription>
+          </CardHeader>
+
+          <CardContent>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="p-3 bg-gray-50 dark:bg-gray-800 rounded-lg">
+                <div className="text-xs font-medium text-gray-500 uppercase">Rank correlation</div>
+                <div className="text-lg font-semibold text-gray-900 dark:text-gray-100">
+                  {correlation.correlation !== null ? correlation.correlation.toFixed(2) : '—'}
+                </div>
+                <div className="text-xs text-gray-500">Spearman, similarity vs. position</div>
+              </div>
+              <GroupStats label="Covered" stats={correlation.covered} />
+              <GroupStats label="Not covered" stats={correlation.uncovered} />
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Query Rankings */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            🏁 Query Rankings
+          </CardTitle>
+          <CardDescription>
+            Where your page ranks for each searched query, the analyzed pages above it, and the change since
+            your last analysis of this URL
+            {notSearched > 0 && <>. {notSearched} other {notSearched === 1 ? 'query was' : 'queries were'} not searched</>}
+          </CardDescription>
+        </CardHeader>
+
+        <CardContent>
+          <div className="space-y-3">
+            {rows.map((row) => {
+              const target = row.cells[0];
+              const rank = target.serpRank!;
+              const queryHistory = historyByQuery.get(row.query.toLowerCase());
+              const change = queryHistory?.change ?? null;
+
+              return (
+                <div key={row.query} className="space-y-1">
+                  <div className="flex items-center justify-between text-sm">
+                    <div className="flex items-center space-x-2 min-w-0">
+                      <span className="truncate text-gray-900 dark:text-gray-100">{row.query}</span>
+                      <Badge
+                        variant="secondary"
+                        className={`text-xs ${target.matched ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}`}
+                      >
+                        {target.matched ? 'Covered' : 'Not covered'} {Math.round(target.similarity * 100)}%
+                      </Badge>
+                    </div>
+                    <div className="flex items-center space-x-2 shrink-0 ml-4">
+                      {change !== null && change !== 0 && (
+                        <span className={`flex items-center text-xs ${change > 0 ? 'text-green-600' : 'text-red-600'}`}>
+                          {change > 0 ? <ArrowUp className="h-3 w-3" /> : <ArrowDown className="h-3 w-3" />}
+                          {Math.abs(change)}
+                        </span>
+                      )}
+                      <span className="font-medium">
+                        {rank.position !== null ? `#${rank.position}` : `Not in top ${rank.depth}`}
+                      </span>
+                      {rank.domainPosition !== null && rank.domainPosition !== rank.position && (
+                        <span className="text-xs text-gray-500">(domain #{rank.domainPosition})</span>
+                      )}
+                    </div>
+                  </div>
+                  <div className="flex justify-between text-xs text-gray-500">
+                    <span className="truncate mr-4">
+                      {rank.outrankedBy.length > 0
+                        ? `Outranked by ${rank.outrankedBy.map(extractDomain).join(', ')}`
+                        : 'No analyzed competitor ranks above you'}
+                    </span>
+                    {queryHistory && queryHistory.points.length > 1 && (
+                      <span className="shrink-0">
+                        {queryHistory.points.map(point => (point.position !== null ? `#${point.position}` : '—')).join(' → ')}
+                      </span>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
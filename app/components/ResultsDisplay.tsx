@@ -1,13 +1,20 @@
 'use client';
 
-import React from 'react';
+import React, { useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
 import { Badge } from './ui/badge';
 import { Button } from './ui/button';
 import { RadarChart } from './RadarChart';
 import { CompetitorCard } from './CompetitorCard';
 import { CoverageGaps } from './CoverageGaps';
+import { FanOutBranches } from './FanOutBranches';
 import { ExportButton } from './ExportButton';
+import { EntityGaps } from './EntityGaps';
+import { CitationSimulation } from './CitationSimulation';
+import { IntentCoverageCard } from './IntentCoverageCard';
+import { SerpFeaturesCard } from './SerpFeaturesCard';
+import { CompetitorDiscoveryCard } from './CompetitorDiscoveryCard';
+import { RankingsPanel } from './RankingsPanel';
 import { 
   TrendingUp, 
   TrendingDown, 
@@ -17,14 +24,19 @@ import {
   RefreshCw,
   Download
 } from 'lucide-react';
-import { type ResultsDisplayProps } from '@/app/lib/types';
+import { type ExportFormat, type ResultsDisplayProps } from '@/app/lib/types';
 import { formatRelativeTime } from '@/app/lib/utils';
+import { useRankHistory } from '@/app/lib/store';
 
 export function ResultsDisplay({ 
   result, 
   onExport, 
   onNewAnalysis 
 }: ResultsDisplayProps) {
+  const [detailsUrl, setDetailsUrl] = useState<string | null>(null);
+  const [activeTab, setActiveTab] = useState<'overview' | 'entities' | 'citations' | 'rankings'>('overview');
+  const rankHistory = useRankHistory(result?.targetUrl);
+
   if (!result) {
     return null;
   }
@@ -33,10 +45,16 @@ export function ResultsDisplay({
     targetUrl,
     targetTitle,
     targetScore,
+    targetUnweightedScore,
     competitorResults,
     radarData,
     coverageGaps,
+    fanOutCoverage,
+    intentCoverage,
     recommendations,
+    entityAnalysis,
+    citationAnalysis,
+    usage,
     timestamp,
     processingTime,
   } = result;
@@ -45,12 +63,19 @@ export function ResultsDisplay({
     ? Math.round(competitorResults.reduce((sum, comp) => sum + comp.overallScore, 0) / competitorResults.length)
     : 0;
 
+  // Show unweighted scores alongside when any query carries a weight
+  const isWeighted = targetUnweightedScore !== undefined &&
+    (result.querySet || []).some(q => q.weight !== undefined);
+  const avgCompetitorUnweighted = competitorResults.length > 0
+    ? Math.round(competitorResults.reduce((sum, comp) => sum + (comp.unweightedScore ?? comp.overallScore), 0) / competitorResults.length)
+    : 0;
+
   const scoreDifference = targetScore - avgCompetitorScore;
   const isOutperforming = scoreDifference > 0;
 
-  const handleExport = (format: 'csv' | 'json' | 'txt') => {
+  const handleExport = (format: ExportFormat | 'txt') => {
     if (onExport) {
-      if (format === 'csv' || format === 'json') {
+      if (format !== 'txt') {
         onExport(format);
       } else {
         // Optionally, show a message or do nothing
@@ -104,8 +129,13 @@ export function ResultsDisplay({
                 {targetScore}
               </div>
               <div className="text-sm text-blue-700 dark:text-blue-300">
-                Your Score
+                {isWeighted ? 'Your Score (weighted)' : 'Your Score'}
               </div>
+              {isWeighted && (
+                <div className="text-xs text-blue-600/80 mt-1">
+                  {targetUnweightedScore} unweighted
+                </div>
+              )}
             </div>
             
             <div className="text-center p-4 bg-gray-50 dark:bg-gray-800 rounded-lg">
@@ -113,8 +143,13 @@ export function ResultsDisplay({
                 {avgCompetitorScore}
               </div>
               <div className="text-sm text-gray-700 dark:text-gray-300">
-                Competitor Avg
+                {isWeighted ? 'Competitor Avg (weighted)' : 'Competitor Avg'}
               </div>
+              {isWeighted && (
+                <div className="text-xs text-gray-500 mt-1">
+                  {avgCompetitorUnweighted} unweighted
+                </div>
+              )}
             </div>
             
             <div className="text-center p-4 bg-green-50 dark:bg-green-900/20 rounded-lg">
@@ -165,83 +200,185 @@ export function ResultsDisplay({
               <Clock className="h-4 w-4 mr-1" />
               Analyzed {formatRelativeTime(timestamp)}
             </div>
-            <div>
-              Processing time: {processingTime}ms
+            <div className="flex items-center space-x-4">
+              {usage && (
+                <span
+                  title={usage.entries
+                    .map(entry => `${entry.stage} · ${entry.provider}${entry.model ? ` (${entry.model})` : ''}: ${entry.calls} calls, $${entry.estimatedCost.toFixed(4)}`)
+                    .join('\n')}
+                >
+                  {usage.totals.calls} API calls · {(usage.totals.inputTokens + usage.totals.outputTokens).toLocaleString()} tokens · est. ${usage.totals.estimatedCost.toFixed(4)}
+                </span>
+              )}
+              <span>Processing time: {processingTime}ms</span>
             </div>
           </div>
         </CardContent>
       </Card>
 
-      {/* Radar Chart */}
-      <RadarChart 
-        data={radarData}
-        showLegend={true}
-        height={400}
-      />
+      {/* Result Tabs */}
+      <div className="flex space-x-2 border-b">
+        <Button
+          variant={activeTab === 'overview' ? 'secondary' : 'ghost'}
+          size="sm"
+          onClick={() => setActiveTab('overview')}
+        >
+          Overview
+        </Button>
+        <Button
+          variant={activeTab === 'entities' ? 'secondary' : 'ghost'}
+          size="sm"
+          onClick={() => setActiveTab('entities')}
+          className="flex items-center"
+        >
+          Entities
+          {entityAnalysis && entityAnalysis.gaps.length > 0 && (
+            <Badge variant="outline" className="ml-2 text-xs">
+              {entityAnalysis.gaps.length}
+            </Badge>
+          )}
+        </Button>
+        <Button
+          variant={activeTab === 'citations' ? 'secondary' : 'ghost'}
+          size="sm"
+          onClick={() => setActiveTab('citations')}
+          className="flex items-center"
+        >
+          Citations
+          {result.targetCitationShare !== undefined && (
+            <Badge variant="outline" className="ml-2 text-xs">
+              {Math.round(result.targetCitationShare * 100)}%
+            </Badge>
+          )}
+        </Button>
+        <Button
+          variant={activeTab === 'rankings' ? 'secondary' : 'ghost'}
+          size="sm"
+          onClick={() => setActiveTab('rankings')}
+          className="flex items-center"
+        >
+          Rankings
+          {result.rankTracking && (
+            <Badge variant="outline" className="ml-2 text-xs">
+              {result.rankTracking.queries.length}
+            </Badge>
+          )}
+        </Button>
+      </div>
 
-      {/* Coverage Gaps */}
-      {coverageGaps.length > 0 && (
-        <CoverageGaps gaps={coverageGaps} />
-      )}
+      {activeTab === 'entities' ? (
+        <EntityGaps entityAnalysis={entityAnalysis} />
+      ) : activeTab === 'rankings' ? (
+        <RankingsPanel
+          rankTracking={result.rankTracking}
+          coverageMatrix={result.coverageMatrix}
+          history={rankHistory}
+        />
+      ) : activeTab === 'citations' ? (
+        <CitationSimulation
+          citationAnalysis={citationAnalysis}
+          coverageScores={{
+            [targetUrl]: targetScore,
+            ...competitorResults.reduce<Record<string, number>>((scores, c) => ({ ...scores, [c.url]: c.overallScore }), {}),
+          }}
+        />
+      ) : (
+        <>
+          {/* Radar Chart */}
+          <RadarChart 
+            data={radarData}
+            categoryMode={result.categoryMode}
+            showLegend={true}
+            height={400}
+          />
 
-      {/* Recommendations */}
-      {recommendations.length > 0 && (
-        <Card>
-          <CardHeader>
-            <CardTitle className="flex items-center">
-              💡 Key Recommendations
-            </CardTitle>
-            <CardDescription>
-              AI-generated insights to improve your content coverage
-            </CardDescription>
-          </CardHeader>
+          {/* Query Fan-Out Coverage */}
+          {fanOutCoverage && fanOutCoverage.length > 0 && (
+            <FanOutBranches branches={fanOutCoverage} />
+          )}
+
+          {/* Search Intent Coverage */}
+          {intentCoverage && intentCoverage.length > 0 && (
+            <IntentCoverageCard
+              intents={intentCoverage}
+              classifier={result.intentClassifier}
+              fallback={result.intentFallback}
+            />
+          )}
+
+          {/* Google SERP Features */}
+          <SerpFeaturesCard features={result.serpFeatures} coverageMatrix={result.coverageMatrix} />
+
+          {/* Coverage Gaps */}
+          {coverageGaps.length > 0 && (
+            <CoverageGaps gaps={coverageGaps} />
+          )}
+
+          {/* Recommendations */}
+          {recommendations.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center">
+                  💡 Key Recommendations
+                </CardTitle>
+                <CardDescription>
+                  AI-generated insights to improve your content coverage
+                </CardDescription>
+              </CardHeader>
           
-          <CardContent>
-            <div className="space-y-3">
-              {recommendations.map((recommendation, index) => (
-                <div
-                  key={index}
-                  className="p-3 bg-blue-50 dark:bg-blue-900/20 rounded-lg border-l-4 border-blue-500"
-                >
-                  <div className="flex items-start">
-                    <span className="flex-shrink-0 w-6 h-6 bg-blue-100 text-blue-600 rounded-full flex items-center justify-center text-xs font-medium mr-3 mt-0.5">
-                      {index + 1}
-                    </span>
-                    <p className="text-sm text-gray-700 dark:text-gray-300">
-                      {recommendation}
-                    </p>
-                  </div>
+              <CardContent>
+                <div className="space-y-3">
+                  {recommendations.map((recommendation, index) => (
+                    <div
+                      key={index}
+                      className="p-3 bg-blue-50 dark:bg-blue-900/20 rounded-lg border-l-4 border-blue-500"
+                    >
+                      <div className="flex items-start">
+                        <span className="flex-shrink-0 w-6 h-6 bg-blue-100 text-blue-600 rounded-full flex items-center justify-center text-xs font-medium mr-3 mt-0.5">
+                          {index + 1}
+                        </span>
+                        <p className="text-sm text-gray-700 dark:text-gray-300">
+                          {recommendation}
+                        </p>
+                      </div>
+                    </div>
+                  ))}
                 </div>
-              ))}
-            </div>
-          </CardContent>
-        </Card>
-      )}
+              </CardContent>
+            </Card>
+          )}
 
-      {/* Competitor Analysis */}
-      {competitorResults.length > 0 && (
-        <Card>
-          <CardHeader>
-            <CardTitle className="flex items-center">
-              🏆 Competitor Analysis
-            </CardTitle>
-            <CardDescription>
-              Detailed comparison with competitor content performance
-            </CardDescription>
-          </CardHeader>
+          {/* Competitor Analysis */}
+          {competitorResults.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center">
+                  🏆 Competitor Analysis
+                </CardTitle>
+                <CardDescription>
+                  Detailed comparison with competitor content performance
+                </CardDescription>
+              </CardHeader>
           
-          <CardContent>
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              {competitorResults.map((competitor, index) => (
-                <CompetitorCard
-                  key={index}
-                  competitor={competitor}
-                  targetScore={targetScore}
-                />
-              ))}
-            </div>
-          </CardContent>
-        </Card>
+              <CardContent>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {competitorResults.map((competitor, index) => (
+                    <CompetitorCard
+                      key={index}
+                      competitor={competitor}
+                      targetScore={targetScore}
+                      showDetails={detailsUrl === competitor.url}
+                      onViewDetails={(url) => setDetailsUrl(detailsUrl === url ? null : url)}
+                    />
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Competitor Discovery */}
+          <CompetitorDiscoveryCard discovery={result.competitorDiscovery} />
+        </>
       )}
 
       {/* Detailed Analysis Link */}
@@ -0,0 +1,104 @@
+'use client';
+
+import React from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Badge } from './ui/badge';
+import { Search } from 'lucide-react';
+import { type CoverageMatrix, type SerpFeatures } from '@/app/lib/types';
+import { extractDomain } from '@/app/lib/utils';
+
+interface SerpFeaturesCardProps {
+  features?: SerpFeatures;
+  coverageMatrix?: CoverageMatrix;
+}
+
+export function SerpFeaturesCard({ features, coverageMatrix }: SerpFeaturesCardProps) {
+  if (!features) {
+    return null;
+  }
+
+  const { peopleAlsoAsk, relatedSearches, answerBox, aiOverview } = features;
+  if (peopleAlsoAsk.length === 0 && relatedSearches.length === 0 && !answerBox && !aiOverview) {
+    return null;
+  }
+
+  // Whether the target covers each harvested query; the target is the first cell
+  const targetMatched = new Map(
+    (coverageMatrix?.rows || []).map(row => [row.query.toLowerCase(), row.cells[0]?.matched ?? false])
+  );
+
+  const renderQuery = (query: string) => {
+    const matched = targetMatched.get(query.toLowerCase());
+    return (
+      <div key={query} className="flex items-center justify-between text-sm">
+        <span className="text-gray-900 dark:text-gray-100 mr-4">{query}</span>
+        {matched !== undefined && (
+          <Badge
+            variant="secondary"
+            className={`text-xs flex-shrink-0 ${matched ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}`}
+          >
+            {matched ? 'Covered' : 'Not covered'}
+          </Badge>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Search className="h-5 w-5 mr-2 text-blue-600" />
+          Google SERP Features
+        </CardTitle>
+        <CardDescription>
+          What Google shows around the results for &quot;{features.query}&quot;
+        </CardDescription>
+      </CardHeader>
+
+      <CardContent>
+        <div className="space-y-6">
+          {answerBox && (
+            <div className="p-3 bg-gray-50 dark:bg-gray-800 rounded-lg space-y-1">
+              <div className="text-xs font-medium text-gray-500 uppercase">Answer box</div>
+              <p className="text-sm text-gray-700 dark:text-gray-300">{answerBox.answer || answerBox.snippet}</p>
+              {answerBox.link && (
+                <div className="text-xs text-gray-500">Source: {extractDomain(answerBox.link)}</div>
+              )}
+            </div>
+          )}
+
+          {peopleAlsoAsk.length > 0 && (
+            <div className="space-y-2">
+              <div className="text-xs font-medium text-gray-500 uppercase">People also ask</div>
+              {peopleAlsoAsk.map(item => renderQuery(item.question))}
+            </div>
+          )}
+
+          {relatedSearches.length > 0 && (
+            <div className="space-y-2">
+              <div className="text-xs font-medium text-gray-500 uppercase">Related searches</div>
+              {relatedSearches.map(renderQuery)}
+            </div>
+          )}
+
+          {aiOverview && (
+            <div className="space-y-2">
+              <div className="text-xs font-medium text-gray-500 uppercase">AI overview</div>
+              {aiOverview.headings.map(renderQuery)}
+              {aiOverview.references.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {aiOverview.references.map((reference, index) => (
+                    <Badge key={index} variant="outline" className="text-xs">
+                      {extractDomain(reference.link)}
+                    </Badge>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
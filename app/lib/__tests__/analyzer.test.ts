@@ -0,0 +1,293 @@
+import { describe, expect, it } from 'vitest';
+import {
+  assignCategories,
+  buildCoverageMatrix,
+  buildHeadToHead,
+  buildQuerySet,
+  calculateCategoryScores,
+  calculateOverallScore,
+  findUncoveredQueries,
+  scoreQueryMatches,
+  toAnalysisQuery,
+} from '../analyzer';
+import {
+  type CalibrationProfile,
+  type CategoryScore,
+  type LLMProvider,
+  type QueryMatch,
+  type ScrapedContent,
+  type Taxonomy,
+  StructuredOutputError,
+} from '../types';
+
+function fakeLLM(responses: string[], prompts: string[] = []): LLMProvider {
+  return {
+    name: 'openai',
+    model: 'test-model',
+    generate: async (prompt) => {
+      prompts.push(prompt);
+      return responses.shift() ?? '';
+    },
+  };
+}
+
+const targetContent: ScrapedContent = {
+  url: 'https://example.com/',
+  title: 'CRM Software',
+  content: 'CRM software for small teams.',
+  extractedAt: '2026-01-01T00:00:00Z',
+};
+
+describe('buildQuerySet', () => {
+  const fanOut = JSON.stringify({
+    queries: [
+      { query: 'crm pricing', type: 'related' },
+      { query: 'crm for startups', type: 'personalized' },
+    ],
+  });
+
+  it('adds the fan-out of the seed to fewer than 10 queries, keeping the first of duplicates', async () => {
+    const prompts: string[] = [];
+    const querySet = await buildQuerySet(
+      [{ query: 'CRM Pricing', source: 'provided' }, { query: 'crm pricing ', source: 'provided' }],
+      targetContent,
+      { seedQuery: 'crm tools', llm: fakeLLM([fanOut], prompts) }
+    );
+
+    expect(querySet.map(q => [q.query, q.source])).toEqual([
+      ['CRM Pricing', 'provided'],
+      ['crm for startups', 'fan-out'],
+    ]);
+    expect(prompts[0]).toContain('crm tools');
+  });
+
+  it('does not expand 10 or more queries, or when query generation is off', async () => {
+    const prompts: string[] = [];
+    const ten = Array.from({ length: 10 }, (_, i) => ({ query: `query ${i}`, source: 'provided' as const }));
+
+    expect(await buildQuerySet(ten, targetContent, { llm: fakeLLM([fanOut], prompts) })).toHaveLength(10);
+    expect(await buildQuerySet(ten.slice(0, 2), targetContent, { generateQueries: false, llm: fakeLLM([fanOut], prompts) }))
+      .toHaveLength(2);
+    expect(prompts).toEqual([]);
+  });
+
+  it('lets a failed fan-out fail the analysis', async () => {
+    await expect(buildQuerySet([], targetContent, { llm: fakeLLM(['no', 'no', 'no']) }))
+      .rejects.toBeInstanceOf(StructuredOutputError);
+  });
+});
+
+describe('assignCategories', () => {
+  const taxonomy: Taxonomy = {
+    id: 'test',
+    name: 'Test',
+    fallbackCategory: 'Other',
+    categories: [
+      { name: 'Pricing', description: 'Plans and prices', examples: [], keywords: ['cost'] },
+      { name: 'Support', description: 'Help and onboarding', examples: [] },
+    ],
+  };
+  // One profile embedding per category, along the first and second axes
+  const profileEmbeddings = [[[1, 0, 0]], [[0, 1, 0]]];
+
+  it('picks the most similar category and falls back when none is close', () => {
+    const categories = assignCategories(
+      ['crm plans', 'crm help', 'crm history'],
+      [[0.9, 0.3, 0], [0.2, 0.9, 0], [0.1, 0.1, 1]],
+      taxonomy,
+      profileEmbeddings
+    );
+
+    expect(categories).toEqual(['Pricing', 'Support', 'Other']);
+  });
+
+  it('breaks near ties with a keyword bonus', () => {
+    expect(assignCategories(['crm cost of help'], [[0.68, 0.72, 0]], taxonomy, profileEmbeddings)).toEqual(['Pricing']);
+  });
+
+  it('uses the calibrated baseline as the cutoff when the model has a profile', () => {
+    const calibration = { baseline: { mean: 0.5, std: 0.1, p95: 0.6 } } as CalibrationProfile;
+    const query = [[0.5, 0, 0.866]]; // Cosine 0.5 with Pricing
+
+    expect(assignCategories(['crm plans'], query, taxonomy, profileEmbeddings)).toEqual(['Pricing']);
+    expect(assignCategories(['crm plans'], query, taxonomy, profileEmbeddings, calibration)).toEqual(['Other']);
+  });
+});
+
+describe('coverage matrix', () => {
+  function match(query: string, similarity: number, overrides: Partial<QueryMatch> = {}): QueryMatch {
+    return { query, similarity, category: 'Pricing', matched: similarity >= 0.5, ...overrides };
+  }
+
+  const urls = ['https://target.com/', 'https://a.com/', 'https://b.com/'];
+  const querySet = [
+    { query: 'crm pricing', fanOutType: 'related' as const, weight: 2, source: 'fan-out' as const },
+    { query: 'crm support', source: 'provided' as const },
+    { query: 'crm history', source: 'provided' as const },
+  ];
+  const matrix = buildCoverageMatrix(querySet, urls, [
+    [match('crm pricing', 0.3), match('crm support', 0.8, { category: 'Support', context: 'x'.repeat(500) })],
+    [match('crm pricing', 0.7), match('crm support', 0.9)],
+    [match('crm pricing', 0.6), match('crm support', 0.2)],
+  ]);
+
+  it('has a row per query in query set order with a cell per URL', () => {
+    expect(matrix.urls).toEqual(urls);
+    expect(matrix.rows.map(row => row.query)).toEqual(['crm pricing', 'crm support', 'crm history']);
+    expect(matrix.rows[0]).toMatchObject({ category: 'Pricing', fanOutType: 'related', weight: 2, source: 'fan-out' });
+    expect(matrix.rows[0].cells.map(cell => [cell.url, cell.similarity, cell.matched])).toEqual([
+      ['https://target.com/', 0.3, false],
+      ['https://a.com/', 0.7, true],
+      ['https://b.com/', 0.6, true],
+    ]);
+  });
+
+  it('takes the category from the target and shortens passages', () => {
+    expect(matrix.rows[1].category).toBe('Support');
+    expect(matrix.rows[1].cells[0].passage).toHaveLength(200);
+  });
+
+  it('fills queries a page was not scored on with empty cells', () => {
+    expect(matrix.rows[2].category).toBe('General');
+    expect(matrix.rows[2].cells.every(cell => cell.similarity === 0 && !cell.matched)).toBe(true);
+  });
+
+  it('finds the queries every competitor covers but the target does not', () => {
+    expect(findUncoveredQueries(matrix).map(row => row.query)).toEqual(['crm pricing']);
+    expect(findUncoveredQueries({ urls: urls.slice(0, 1), rows: [] })).toEqual([]);
+  });
+});
+
+describe('scoreQueryMatches', () => {
+  const passages = [
+    { index: 0, heading: 'Pricing', text: 'CRM pricing plans for small teams' },
+    { index: 1, heading: 'Support', text: 'Onboarding and help desk' },
+  ];
+  const passageEmbeddings = [[1, 0], [0, 1]];
+
+  it('scores raw cosine similarity of the best passage without calibration', () => {
+    const [best, worst] = scoreQueryMatches(
+      ['help desk', 'crm pricing'],
+      [[0.6, 0.8], [1, 0]],
+      ['Support', 'Pricing'],
+      passages,
+      passageEmbeddings,
+      { normalization: 'none' }
+    );
+
+    expect(best).toMatchObject({ query: 'crm pricing', similarity: 1, matched: true, context: 'CRM pricing plans for small teams' });
+    expect(worst).toMatchObject({ query: 'help desk', similarity: 0.8, matched: true, context: 'Onboarding and help desk' });
+  });
+
+  it('blends semantic and lexical scores in hybrid mode', () => {
+    const [match] = scoreQueryMatches(
+      ['crm pricing'],
+      [[0.6, 0.8]],
+      ['Pricing'],
+      passages,
+      passageEmbeddings,
+      { normalization: 'none', scoring: 'hybrid', hybridWeights: { semantic: 1, lexical: 3 } }
+    );
+
+    expect(match.semanticScore).toBeCloseTo(0.8);
+    expect(match.lexicalScore).toBeCloseTo(1);
+    expect(match.similarity).toBeCloseTo(0.25 * 0.8 + 0.75 * 1);
+  });
+});
+
+describe('query weights', () => {
+  it('resolves an explicit weight, else volume and priority, else none', () => {
+    expect(toAnalysisQuery('crm')).toEqual({ query: 'crm', source: 'provided' });
+    expect(toAnalysisQuery({ query: 'crm', weight: 4, volume: 1000, priority: 'high' })).toMatchObject({ weight: 4 });
+    expect(toAnalysisQuery({ query: 'crm', volume: 9999 })).toMatchObject({ weight: 5 });
+    expect(toAnalysisQuery({ query: 'crm', volume: 9, priority: 'high' })).toMatchObject({ weight: 6 });
+    expect(toAnalysisQuery({ query: 'crm', priority: 'medium' })).toMatchObject({ weight: 2 });
+    expect(toAnalysisQuery({ query: 'crm' }).weight).toBeUndefined();
+  });
+
+  function match(category: string, similarity: number, weight?: number): QueryMatch {
+    return { query: `${category} ${similarity}`, category, similarity, matched: similarity >= 0.5, weight };
+  }
+
+  it('weight-averages category scores and keeps the plain average alongside', () => {
+    const [pricing, support] = calculateCategoryScores([
+      match('Pricing', 0.9, 3),
+      match('Pricing', 0.3, 1),
+      match('Support', 0.4),
+      match('Support', 0.6),
+    ]);
+
+    expect(pricing).toEqual({
+      category: 'Pricing',
+      score: 75,
+      unweightedScore: 60,
+      weight: 2,
+      maxScore: 100,
+      matchedQueries: 1,
+      totalQueries: 2,
+    });
+    expect(support).toMatchObject({ score: 50, unweightedScore: 50, weight: 1, matchedQueries: 1 });
+  });
+
+  it('counts each category by its average query weight in the overall score', () => {
+    const categories = calculateCategoryScores([
+      match('Pricing', 0.9, 3),
+      match('Pricing', 0.3, 1),
+      match('Support', 0.4),
+      match('Support', 0.6),
+    ]);
+
+    // (75 * 2 + 50 * 1) / 3 weighted; (60 + 50) / 2 unweighted
+    expect(calculateOverallScore(categories)).toEqual({ score: 67, unweightedScore: 55 });
+    expect(calculateOverallScore([])).toEqual({ score: 0, unweightedScore: 0 });
+  });
+});
+
+describe('buildHeadToHead', () => {
+  function score(category: string, value: number): CategoryScore {
+    return { category, score: value, unweightedScore: value, weight: 1, maxScore: 100, matchedQueries: 0, totalQueries: 1 };
+  }
+
+  function match(query: string, similarity: number, weight?: number): QueryMatch {
+    return { query, category: 'Pricing', similarity, matched: similarity >= 0.5, weight, context: `Passage for ${query}` };
+  }
+
+  it('lists the categories the competitor leads, biggest lead first', () => {
+    const { categoriesWon } = buildHeadToHead(
+      [score('Pricing', 40), score('Support', 70), score('Setup', 50)],
+      [],
+      [score('Pricing', 80), score('Support', 60), score('Setup', 60), score('Security', 30)],
+      []
+    );
+
+    expect(categoriesWon).toEqual([
+      { category: 'Pricing', competitorScore: 80, targetScore: 40, difference: 40 },
+      { category: 'Security', competitorScore: 30, targetScore: 0, difference: 30 },
+      { category: 'Setup', competitorScore: 60, targetScore: 50, difference: 10 },
+    ]);
+  });
+
+  it('lists the queries only the competitor matches, heaviest then most similar first', () => {
+    const { queriesWon } = buildHeadToHead(
+      [],
+      [match('both', 0.9), match('light', 0.2), match('heavy', 0.4, 3)],
+      [],
+      [match('both', 0.9), match('light', 0.9), match('heavy', 0.6, 3), match('target missing', 0.7), match('neither', 0.1)]
+    );
+
+    expect(queriesWon.map(q => q.query)).toEqual(['heavy', 'light', 'target missing']);
+    expect(queriesWon[0]).toEqual({
+      query: 'heavy',
+      category: 'Pricing',
+      competitorSimilarity: 0.6,
+      targetSimilarity: 0.4,
+      passage: 'Passage for heavy',
+    });
+    expect(queriesWon[2].targetSimilarity).toBe(0);
+  });
+
+  it('keeps the top 10 queries', () => {
+    const competitor = Array.from({ length: 12 }, (_, i) => match(`query ${i}`, 0.9));
+    expect(buildHeadToHead([], [], [], competitor).queriesWon).toHaveLength(10);
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { estimateTargetWordCount, formatBriefAsMarkdown, generateContentBrief } from '../briefs';
+import { type CoverageGap, type LLMProvider, StructuredOutputError } from '../types';
+
+function fakeLLM(responses: string[], prompts: string[] = []): LLMProvider {
+  return {
+    name: 'openai',
+    model: 'test-model',
+    generate: async (prompt) => {
+      prompts.push(prompt);
+      return responses.shift() ?? '';
+    },
+  };
+}
+
+const BRIEF_RESPONSE = JSON.stringify({
+  title: ' CRM Pricing Guide ',
+  outline: [{ level: 2, heading: 'Plans' }, { level: 3, heading: ' Per-seat pricing ' }],
+  questions: ['How much does a CRM cost? '],
+  entities: ['HubSpot', 'HubSpot ', 'Salesforce'],
+});
+
+const gap: CoverageGap = {
+  category: 'Pricing',
+  missingQueries: ['crm pricing', 'crm cost per user'],
+  competitorUrls: ['https://a.com/', 'https://b.com/'],
+  priority: 'high',
+  recommendation: 'Add pricing content',
+};
+
+describe('generateContentBrief', () => {
+  it('builds the brief from the model output and the reference passages', async () => {
+    const prompts: string[] = [];
+    const brief = await generateContentBrief(
+      gap,
+      [
+        { url: 'https://b.com/', query: 'crm pricing', passage: 'Plans start at $10.' },
+        { url: 'https://b.com/', query: 'crm cost per user', passage: 'Each seat costs $10.' },
+      ],
+      1500,
+      fakeLLM([BRIEF_RESPONSE], prompts)
+    );
+
+    expect(brief).toMatchObject({
+      category: 'Pricing',
+      title: 'CRM Pricing Guide',
+      outline: [{ level: 2, heading: 'Plans' }, { level: 3, heading: 'Per-seat pricing' }],
+      questions: ['How much does a CRM cost?'],
+      entities: ['HubSpot', 'Salesforce'],
+      targetWordCount: 1500,
+      referenceUrls: ['https://b.com/'],
+    });
+    expect(prompts[0]).toContain('- crm cost per user');
+    expect(prompts[0]).toContain('[2] https://b.com/ (answers "crm cost per user"):\nEach seat costs $10.');
+  });
+
+  it('references the gap competitors when no passage matched', async () => {
+    const prompts: string[] = [];
+    const brief = await generateContentBrief(gap, [], 1200, fakeLLM([BRIEF_RESPONSE], prompts));
+
+    expect(brief.referenceUrls).toEqual(['https://a.com/', 'https://b.com/']);
+    expect(prompts[0]).toContain('(none available)');
+  });
+
+  it('repairs invalid output and gives up with a StructuredOutputError', async () => {
+    const repaired = await generateContentBrief(gap, [], 1200, fakeLLM(['not json', BRIEF_RESPONSE]));
+    expect(repaired.title).toBe('CRM Pricing Guide');
+
+    await expect(generateContentBrief(gap, [], 1200, fakeLLM(['{}', '{}', '{}'])))
+      .rejects.toBeInstanceOf(StructuredOutputError);
+  });
+});
+
+describe('estimateTargetWordCount', () => {
+  it('averages the reference pages to the nearest hundred within bounds', () => {
+    expect(estimateTargetWordCount([1000, 1480, 0])).toBe(1200);
+    expect(estimateTargetWordCount([100])).toBe(500);
+    expect(estimateTargetWordCount([9000])).toBe(4000);
+    expect(estimateTargetWordCount([])).toBe(1200);
+  });
+});
+
+describe('formatBriefAsMarkdown', () => {
+  it('renders the outline with H3 sections indented', () => {
+    const markdown = formatBriefAsMarkdown({
+      category: 'Pricing',
+      title: 'CRM Pricing Guide',
+      outline: [{ level: 2, heading: 'Plans' }, { level: 3, heading: 'Per-seat pricing' }],
+      questions: ['How much does a CRM cost?'],
+      entities: ['HubSpot'],
+      targetWordCount: 1200,
+      referenceUrls: ['https://a.com/'],
+      generatedAt: '2026-01-01T00:00:00Z',
+    });
+
+    expect(markdown).toContain('# CRM Pricing Guide');
+    expect(markdown).toContain('- Plans\n  - Per-seat pricing');
+    expect(markdown).toContain('## Reference Competitors\n- https://a.com/');
+  });
+});
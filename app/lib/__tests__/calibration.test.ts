@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { buildCalibrationProfile, calibrateSimilarity, getCalibrationProfile } from '../calibration';
+import { createLocalEmbeddingProvider } from '../embeddings';
+import { type CalibrationProfile, type EmbeddingProvider } from '../types';
+
+const profile: CalibrationProfile = {
+  provider: 'openai',
+  model: 'test-model',
+  corpusVersion: 'v1',
+  baseline: { mean: 0.2, std: 0.05, p95: 0.3 },
+  relevant: { mean: 0.6, std: 0.1, quantiles: [0.4, 0.5, 0.6, 0.7] },
+  createdAt: '2026-01-01T00:00:00Z',
+};
+
+describe('calibrateSimilarity', () => {
+  it('returns the raw score unchanged with no normalization', () => {
+    expect(calibrateSimilarity(0.42, profile, 'none')).toBe(0.42);
+  });
+
+  describe('zscore', () => {
+    it('scores a typical relevant pair 1 and the baseline mean 0', () => {
+      expect(calibrateSimilarity(0.6, profile, 'zscore')).toBeCloseTo(1);
+      expect(calibrateSimilarity(0.2, profile, 'zscore')).toBe(0);
+    });
+
+    it('scales linearly between the baseline and relevant means', () => {
+      expect(calibrateSimilarity(0.4, profile, 'zscore')).toBeCloseTo(0.5);
+    });
+
+    it('clamps to the 0-1 range', () => {
+      expect(calibrateSimilarity(0.1, profile, 'zscore')).toBe(0);
+      expect(calibrateSimilarity(0.9, profile, 'zscore')).toBe(1);
+    });
+
+    it('survives a baseline with no spread', () => {
+      const flat = { ...profile, baseline: { ...profile.baseline, std: 0 } };
+      expect(calibrateSimilarity(0.6, flat, 'zscore')).toBeCloseTo(1);
+    });
+  });
+
+  describe('percentile', () => {
+    it('scores anything inside the baseline 95th percentile 0', () => {
+      expect(calibrateSimilarity(0.3, profile, 'percentile')).toBe(0);
+    });
+
+    it('scores the share of relevant pairs met or beaten', () => {
+      expect(calibrateSimilarity(0.35, profile, 'percentile')).toBe(0);
+      expect(calibrateSimilarity(0.5, profile, 'percentile')).toBe(0.5);
+      expect(calibrateSimilarity(0.65, profile, 'percentile')).toBe(0.75);
+      expect(calibrateSimilarity(0.9, profile, 'percentile')).toBe(1);
+    });
+  });
+
+  it('defaults to zscore', () => {
+    expect(calibrateSimilarity(0.4, profile)).toBeCloseTo(0.5);
+  });
+});
+
+describe('buildCalibrationProfile', () => {
+  it('separates the relevant pairs from the unrelated baseline', async () => {
+    const built = await buildCalibrationProfile(createLocalEmbeddingProvider());
+
+    expect(built).toMatchObject({ provider: 'local', model: 'hashed-ngram-512', corpusVersion: 'v1' });
+    expect(built.relevant.mean).toBeGreaterThan(built.baseline.p95);
+    expect(built.baseline.p95).toBeGreaterThanOrEqual(built.baseline.mean);
+    expect(built.relevant.quantiles).toEqual([...built.relevant.quantiles].sort((a, b) => a - b));
+  });
+
+  it('is built once per model and then reused', async () => {
+    let calls = 0;
+    const local = createLocalEmbeddingProvider(128);
+    const provider: EmbeddingProvider = {
+      ...local,
+      model: 'calibration-reuse-test',
+      embed: async (texts, usage) => {
+        calls++;
+        return local.embed(texts, usage);
+      },
+    };
+
+    const first = await getCalibrationProfile(provider);
+    const second = await getCalibrationProfile(provider);
+
+    expect(second).toEqual(first);
+    expect(calls).toBe(1);
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, expect, it, vi } from 'vitest';
+import { answerWithCitations, simulateCitations, type CitationPage } from '../citations';
+import { type AnswerSource, type LLMProvider } from '../types';
+
+function fakeLLM(answer: string): LLMProvider {
+  return {
+    name: 'openai',
+    model: 'test-model',
+    generate: async () => JSON.stringify({ answer }),
+  };
+}
+
+const sources: AnswerSource[] = [
+  { url: 'https://a.com/', passage: 'A passage', similarity: 0.9 },
+  { url: 'https://b.com/', passage: 'B passage', similarity: 0.8 },
+  { url: 'https://a.com/', passage: 'Another A passage', similarity: 0.7 },
+  { url: 'https://c.com/', passage: 'C passage', similarity: 0.6 },
+];
+
+describe('answerWithCitations', () => {
+  it('reads single, adjacent and comma-separated markers in order of first citation', async () => {
+    const result = await answerWithCitations(
+      'what is a crm',
+      sources,
+      fakeLLM('CRMs track customers [2]. They store contacts [1][3] and deals [4, 2].')
+    );
+
+    expect(result.answer).toBe('CRMs track customers [2]. They store contacts [1][3] and deals [4, 2].');
+    expect(result.citations).toEqual([
+      { url: 'https://b.com/', count: 2, position: 1 },
+      { url: 'https://a.com/', count: 2, position: 2 },
+      { url: 'https://c.com/', count: 1, position: 3 },
+    ]);
+  });
+
+  it('ignores markers that point at no source', async () => {
+    const result = await answerWithCitations('q', sources, fakeLLM('Nothing here [0] or here [9].'));
+    expect(result.citations).toEqual([]);
+  });
+});
+
+describe('simulateCitations', () => {
+  // Four passages on a.com all matching the query, one weaker one on b.com
+  const pages: CitationPage[] = [
+    {
+      url: 'https://a.com/',
+      passages: [0, 1, 2, 3].map(index => ({ index, heading: '', text: `A passage ${index}` })),
+      passageEmbeddings: [[1, 0], [1, 0], [1, 0], [1, 0]],
+    },
+    {
+      url: 'https://b.com/',
+      passages: [{ index: 0, heading: '', text: 'B passage' }],
+      passageEmbeddings: [[1, 1]],
+    },
+  ];
+
+  it('retrieves at most three passages per page and tallies citation shares per URL', async () => {
+    const result = await simulateCitations(['what is a crm'], [[1, 0]], pages, fakeLLM('A CRM tracks customers [1] and deals [4].'));
+
+    expect(result?.queries[0].sources.map(source => source.url)).toEqual([
+      'https://a.com/', 'https://a.com/', 'https://a.com/', 'https://b.com/',
+    ]);
+    expect(result?.queries[0].sources[3].similarity).toBe(0.707);
+    expect(result?.urls).toEqual([
+      { url: 'https://a.com/', citations: 1, share: 0.5, queriesCited: 1, queriesRetrieved: 1, prominence: 1 },
+      { url: 'https://b.com/', citations: 1, share: 0.5, queriesCited: 1, queriesRetrieved: 1, prominence: 0.5 },
+    ]);
+  });
+
+  it('returns undefined when every answer fails', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const llm: LLMProvider = {
+      name: 'openai',
+      model: 'test-model',
+      generate: async () => {
+        throw new Error('no key');
+      },
+    };
+
+    expect(await simulateCitations(['what is a crm'], [[1, 0]], pages, llm)).toBeUndefined();
+    vi.restoreAllMocks();
+  });
+});
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { agglomerativeCluster } from '../clustering';
+
+// Points scattered tightly around a unit axis, so each axis is one topic
+function around(axis: number, offsets: number[]): number[][] {
+  return offsets.map(offset => {
+    const vector = [0.05, 0.05, 0.05, 0.05];
+    vector[axis] = 1;
+    vector[(axis + 1) % vector.length] += offset;
+    return vector;
+  });
+}
+
+describe('agglomerativeCluster', () => {
+  it('picks the cluster count with the best silhouette', () => {
+    const embeddings = [...around(0, [0, 0.05, 0.1]), ...around(1, [0, 0.05, 0.1]), ...around(2, [0, 0.05, 0.1])];
+    const assignments = agglomerativeCluster(embeddings);
+
+    expect(new Set(assignments).size).toBe(3);
+    expect(new Set(assignments.slice(0, 3)).size).toBe(1);
+    expect(new Set(assignments.slice(3, 6)).size).toBe(1);
+    expect(new Set(assignments.slice(6, 9)).size).toBe(1);
+  });
+
+  it('stays within the cluster count bounds', () => {
+    const embeddings = [...around(0, [0, 0.05]), ...around(1, [0, 0.05]), ...around(2, [0, 0.05]), ...around(3, [0, 0.05])];
+    expect(new Set(agglomerativeCluster(embeddings, { maxClusters: 2 })).size).toBe(2);
+  });
+
+  it('puts everything in one cluster when there are too few queries to split', () => {
+    expect(agglomerativeCluster([[1, 0], [0, 1]])).toEqual([0, 0]);
+    expect(agglomerativeCluster([])).toEqual([]);
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import { getSelectedCompetitors, rankCompetitorCandidates, selectSearchQueries } from '../discovery';
+import { type QuerySearch } from '../types';
+
+function search(query: string, links: string[]): QuerySearch {
+  return { query, results: links.map((link, index) => ({ link, position: index + 1 })) };
+}
+
+describe('selectSearchQueries', () => {
+  it('puts the seed first, then the highest-weight queries, skipping duplicates', () => {
+    const selected = selectSearchQueries('CRM', [
+      { query: 'crm' },
+      { query: 'crm pricing', weight: 3 },
+      { query: 'crm reviews' },
+      { query: 'best crm', weight: 2 },
+      { query: 'crm api' },
+    ], 4);
+
+    expect(selected).toEqual(['CRM', 'crm pricing', 'best crm', 'crm reviews']);
+  });
+
+  it('works without a seed', () => {
+    expect(selectSearchQueries(undefined, [{ query: 'a' }, { query: 'b', weight: 2 }], 5)).toEqual(['b', 'a']);
+  });
+});
+
+describe('rankCompetitorCandidates', () => {
+  it('scores pages by reciprocal rank averaged over the searches', () => {
+    const discovery = rankCompetitorCandidates([
+      search('q1', ['https://a.com/1', 'https://b.com/1']),
+      search('q2', ['https://b.com/1', 'https://c.com/1']),
+    ]);
+
+    const byUrl = new Map(discovery.candidates.map(c => [c.url, c]));
+    expect(byUrl.get('https://a.com/1')?.score).toBe(0.5);
+    expect(byUrl.get('https://b.com/1')?.score).toBe(0.75);
+    expect(byUrl.get('https://c.com/1')?.score).toBe(0.25);
+    expect(byUrl.get('https://b.com/1')?.appearances).toEqual([
+      { query: 'q1', position: 2 },
+      { query: 'q2', position: 1 },
+    ]);
+    expect(discovery.queries).toEqual(['q1', 'q2']);
+  });
+
+  it('scores domains by their best position per search and selects one page per domain', () => {
+    const discovery = rankCompetitorCandidates([
+      search('q1', ['https://a.com/1', 'https://a.com/2', 'https://b.com/1']),
+      search('q2', ['https://a.com/2', 'https://b.com/1']),
+    ], 5);
+
+    const domainA = discovery.candidates.filter(c => c.domain === 'a.com');
+    expect(domainA.every(c => c.domainScore === 1)).toBe(true);
+    expect(getSelectedCompetitors(discovery)).toEqual(['https://a.com/2', 'https://b.com/1']);
+  });
+
+  it('excludes the target site and its subdomains', () => {
+    const discovery = rankCompetitorCandidates(
+      [search('q', ['https://www.example.com/', 'https://blog.example.com/post', 'https://other.com/'])],
+      5,
+      'https://example.com/pricing'
+    );
+
+    expect(discovery.excludedDomain).toBe('example.com');
+    expect(discovery.candidates.map(c => c.url)).toEqual(['https://other.com/']);
+  });
+
+  it('stops at maxCompetitors domains', () => {
+    const discovery = rankCompetitorCandidates(
+      [search('q', ['https://a.com/', 'https://b.com/', 'https://c.com/', 'https://d.com/'])],
+      2
+    );
+    expect(getSelectedCompetitors(discovery)).toEqual(['https://a.com/', 'https://b.com/']);
+    expect(discovery.candidates).toHaveLength(4);
+  });
+
+  it('keeps filtered candidates, marked, but never selects them', () => {
+    const discovery = rankCompetitorCandidates(
+      [search('q', [
+        'https://en.wikipedia.org/wiki/CRM',
+        'https://www.reddit.com/r/crm',
+        'https://denied.com/',
+        'https://vendor.com/',
+      ])],
+      5,
+      undefined,
+      { denyDomains: ['denied.com'], sourceTypes: ['vendor'] }
+    );
+
+    const byUrl = new Map(discovery.candidates.map(c => [c.url, c]));
+    expect(byUrl.get('https://en.wikipedia.org/wiki/CRM')).toMatchObject({ sourceType: 'encyclopedia', filtered: 'source-type' });
+    expect(byUrl.get('https://www.reddit.com/r/crm')).toMatchObject({ sourceType: 'forum', filtered: 'source-type' });
+    expect(byUrl.get('https://denied.com/')).toMatchObject({ filtered: 'denied' });
+    expect(getSelectedCompetitors(discovery)).toEqual(['https://vendor.com/']);
+  });
+
+  it('returns at most 30 candidates but always keeps the selected ones', () => {
+    const links = Array.from({ length: 40 }, (_, i) => `https://site${i}.com/`);
+    const discovery = rankCompetitorCandidates(
+      [search('q', links)],
+      5,
+      undefined,
+      { allowDomains: ['site35.com'] }
+    );
+
+    expect(discovery.candidates).toHaveLength(31);
+    expect(getSelectedCompetitors(discovery)).toEqual(['https://site35.com/']);
+  });
+
+  it('handles no searches', () => {
+    expect(rankCompetitorCandidates([]).candidates).toEqual([]);
+  });
+});
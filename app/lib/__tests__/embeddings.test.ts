@@ -0,0 +1,140 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { cosineSimilarity, createLocalEmbeddingProvider, embedTexts, getEmbeddingProvider } from '../embeddings';
+import { clearCache } from '../cache';
+import { type EmbeddingProvider, type UsageEvent } from '../types';
+
+describe('createLocalEmbeddingProvider', () => {
+  const provider = createLocalEmbeddingProvider();
+
+  it('embeds the same text to the same unit vector', async () => {
+    const [first, second] = await provider.embed(['CRM pricing plans', 'CRM pricing plans']);
+
+    expect(first).toHaveLength(512);
+    expect(first).toEqual(second);
+    expect(Math.hypot(...first)).toBeCloseTo(1);
+  });
+
+  it('scores texts sharing words and word forms above unrelated ones', async () => {
+    const [query, related, unrelated] = await provider.embed([
+      'crm pricing plans',
+      'Our CRM plans and pricing for every team',
+      'How to repot a snake plant',
+    ]);
+
+    expect(cosineSimilarity(query, related)).toBeGreaterThan(cosineSimilarity(query, unrelated) + 0.3);
+  });
+
+  it('ignores case and punctuation', async () => {
+    const [a, b] = await provider.embed(['CRM, pricing!', 'crm pricing']);
+    expect(cosineSimilarity(a, b)).toBeCloseTo(1);
+  });
+
+  it('embeds text without words to a zero vector', async () => {
+    const [empty] = await provider.embed(['  ...  ']);
+    expect(empty.every(value => value === 0)).toBe(true);
+  });
+
+  it('honors the dimension count and records usage', async () => {
+    const records: UsageEvent[] = [];
+    const small = createLocalEmbeddingProvider(64);
+    const [vector] = await small.embed(['crm'], { stage: 'embedding', record: event => records.push(event) });
+
+    expect(small.model).toBe('hashed-ngram-64');
+    expect(vector).toHaveLength(64);
+    expect(records).toEqual([{ provider: 'local', model: 'hashed-ngram-64' }]);
+  });
+});
+
+describe('getEmbeddingProvider', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('uses the named provider', () => {
+    expect(getEmbeddingProvider('local').name).toBe('local');
+    expect(getEmbeddingProvider('gemini', 'text-embedding-005').model).toBe('text-embedding-005');
+  });
+
+  it('falls back to EMBEDDING_PROVIDER, then to whichever key is set, then to local', () => {
+    vi.stubEnv('OPENAI_API_KEY', '');
+    vi.stubEnv('GEMINI_API_KEY', '');
+    vi.stubEnv('EMBEDDING_PROVIDER', '');
+    expect(getEmbeddingProvider().name).toBe('local');
+
+    vi.stubEnv('GEMINI_API_KEY', 'key');
+    expect(getEmbeddingProvider().name).toBe('gemini');
+
+    vi.stubEnv('EMBEDDING_PROVIDER', 'local');
+    expect(getEmbeddingProvider().name).toBe('local');
+  });
+
+  it('rejects unknown providers', () => {
+    expect(() => getEmbeddingProvider('other' as never)).toThrow('Unknown embedding provider: other');
+  });
+});
+
+describe('cosineSimilarity', () => {
+  it('is 1 for parallel, 0 for orthogonal and zero vectors', () => {
+    expect(cosineSimilarity([1, 2], [2, 4])).toBeCloseTo(1);
+    expect(cosineSimilarity([1, 0], [0, 1])).toBe(0);
+    expect(cosineSimilarity([0, 0], [1, 1])).toBe(0);
+  });
+
+  it('rejects vectors of different lengths', () => {
+    expect(() => cosineSimilarity([1], [1, 2])).toThrow();
+  });
+});
+
+describe('embedTexts', () => {
+  // Embeds each text as [its length, its call number] and records every batch
+  function countingProvider(maxBatchSize: number, batches: string[][]): EmbeddingProvider {
+    return {
+      name: 'local',
+      model: `counting-${maxBatchSize}`,
+      maxBatchSize,
+      embed: async (texts) => {
+        batches.push(texts);
+        return texts.map(text => [text.length, batches.length]);
+      },
+    };
+  }
+
+  beforeEach(async () => {
+    await clearCache();
+  });
+
+  it('embeds each distinct text once and lines the vectors up with the input', async () => {
+    const batches: string[][] = [];
+    const embeddings = await embedTexts(countingProvider(10, batches), ['a', 'bb', 'a', 'ccc', 'bb']);
+
+    expect(batches).toEqual([['a', 'bb', 'ccc']]);
+    expect(embeddings).toEqual([[1, 1], [2, 1], [1, 1], [3, 1], [2, 1]]);
+  });
+
+  it('sends the texts in batches of the provider maximum', async () => {
+    const batches: string[][] = [];
+    await embedTexts(countingProvider(2, batches), ['a', 'b', 'c', 'd', 'e']);
+
+    expect(batches).toEqual([['a', 'b'], ['c', 'd'], ['e']]);
+  });
+
+  it('reuses cached embeddings of the same model across calls', async () => {
+    const batches: string[][] = [];
+    const provider = countingProvider(10, batches);
+    await embedTexts(provider, ['a', 'bb']);
+    const embeddings = await embedTexts(provider, ['bb', 'ccc']);
+
+    expect(batches).toEqual([['a', 'bb'], ['ccc']]);
+    expect(embeddings).toEqual([[2, 1], [3, 2]]);
+
+    const otherBatches: string[][] = [];
+    await embedTexts(countingProvider(5, otherBatches), ['a']);
+    expect(otherBatches).toEqual([['a']]);
+  });
+
+  it('makes no call when there is nothing to embed', async () => {
+    const batches: string[][] = [];
+    expect(await embedTexts(countingProvider(10, batches), [])).toEqual([]);
+    expect(batches).toEqual([]);
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeEntities, normalizeEntityName } from '../entities';
+import { type LLMProvider, type ScrapedContent } from '../types';
+
+const KNOWN_ENTITIES = ['Salesforce', 'HubSpot', 'Zapier', 'GDPR'];
+
+// Returns every known entity that appears in the prompt, so extraction only
+// finds what was actually sent
+function fakeLLM(calls: string[] = [], failOn?: string): LLMProvider {
+  return {
+    name: 'openai',
+    model: 'test-model',
+    generate: async (prompt) => {
+      calls.push(prompt);
+      if (failOn && prompt.includes(failOn)) {
+        throw new Error('provider error');
+      }
+      return JSON.stringify(
+        KNOWN_ENTITIES
+          .filter(entity => prompt.includes(entity))
+          .map(entity => ({ entity, type: 'product', relevance: 8 }))
+      );
+    },
+  };
+}
+
+function page(url: string, content: string): ScrapedContent {
+  return { url, title: url, content, extractedAt: '2026-01-01T00:00:00Z' };
+}
+
+// Paragraphs of filler that push later text past the first extraction chunk
+function filler(paragraphs: number): string {
+  return Array(paragraphs).fill('Filler text about sales teams and pipelines. '.repeat(20).trim()).join('\n\n');
+}
+
+describe('normalizeEntityName', () => {
+  it('folds case, possessives and plurals', () => {
+    expect(normalizeEntityName("HubSpot's APIs")).toBe(normalizeEntityName('hubspot api'));
+  });
+});
+
+describe('analyzeEntities', () => {
+  it('finds entities far down long pages', async () => {
+    const calls: string[] = [];
+    const result = await analyzeEntities(
+      page('https://target.com/', 'We compare CRM tools.'),
+      [
+        page('https://a.com/', `${filler(6)}\n\nIntegrates with Zapier.`),
+        page('https://b.com/', `# Integrations\nZapier and HubSpot.`),
+      ],
+      fakeLLM(calls)
+    );
+
+    expect(calls.length).toBeGreaterThan(3);
+    expect(result?.gaps.map(gap => gap.entity)).toContain('Zapier');
+    expect(result?.gaps.find(gap => gap.entity === 'Zapier')?.competitorUrls).toEqual(['https://a.com/', 'https://b.com/']);
+    expect(result?.partialUrls).toEqual([]);
+  });
+
+  it('does not report entities the target text contains as gaps', async () => {
+    const result = await analyzeEntities(
+      page('https://target.com/', 'We work with many tools including hubspot.'),
+      [page('https://a.com/', 'HubSpot and GDPR.'), page('https://b.com/', 'HubSpot and GDPR.')],
+      fakeLLM()
+    );
+
+    expect(result?.gaps.map(gap => gap.entity)).toEqual(['GDPR']);
+  });
+
+  it('lists pages past the chunk budget or with a failed chunk as partial', async () => {
+    const result = await analyzeEntities(
+      page('https://target.com/', 'Salesforce.'),
+      [
+        page('https://long.com/', `${filler(40)}\n\nGDPR.`),
+        page('https://flaky.com/', `Zapier.\n\n${filler(6)}\n\nFAIL HubSpot.`),
+      ],
+      fakeLLM([], 'FAIL')
+    );
+
+    expect(result?.partialUrls).toEqual(['https://long.com/', 'https://flaky.com/']);
+    expect(result?.entities.some(entity => entity.name === 'GDPR')).toBe(false);
+    expect(result?.entities.some(entity => entity.name === 'Zapier')).toBe(true);
+  });
+
+  it('needs the target and at least one competitor', async () => {
+    expect(await analyzeEntities(page('https://target.com/', 'FAIL'), [page('https://a.com/', 'Zapier.')], fakeLLM([], 'FAIL')))
+      .toBeUndefined();
+    expect(await analyzeEntities(page('https://target.com/', 'Zapier.'), [], fakeLLM())).toBeUndefined();
+  });
+});
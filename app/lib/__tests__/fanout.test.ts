@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { expandQueryFanOut } from '../fanout';
+import { type LLMProvider, StructuredOutputError } from '../types';
+
+function fakeLLM(responses: string[], prompts: string[] = []): LLMProvider {
+  return {
+    name: 'openai',
+    model: 'test-model',
+    generate: async (prompt) => {
+      prompts.push(prompt);
+      return responses.shift() ?? '';
+    },
+  };
+}
+
+function fanOut(queries: Array<{ query: string; type: string; parent?: string }>): string {
+  return JSON.stringify({ queries });
+}
+
+describe('expandQueryFanOut', () => {
+  it('keeps typed sub-queries with their parents', async () => {
+    const queries = await expandQueryFanOut('crm software', 'Page content', {
+      llm: fakeLLM([fanOut([
+        { query: 'best crm for startups', type: 'personalized', parent: 'crm software' },
+        { query: 'crm vs spreadsheet', type: 'comparative' },
+        { query: 'free crm vs spreadsheet', type: 'comparative', parent: 'crm vs spreadsheet' },
+      ])]),
+    });
+
+    expect(queries).toEqual([
+      { query: 'best crm for startups', fanOutType: 'personalized', parent: 'crm software', source: 'fan-out' },
+      { query: 'crm vs spreadsheet', fanOutType: 'comparative', parent: 'crm software', source: 'fan-out' },
+      { query: 'free crm vs spreadsheet', fanOutType: 'comparative', parent: 'crm vs spreadsheet', source: 'fan-out' },
+    ]);
+  });
+
+  it('drops the seed, duplicates, unknown or unrequested types and repairs unknown parents', async () => {
+    const queries = await expandQueryFanOut('crm software', 'Page content', {
+      types: ['related', 'implicit'],
+      llm: fakeLLM([fanOut([
+        { query: 'CRM Software', type: 'related' },
+        { query: 'crm integrations', type: 'related', parent: 'a query that was never generated' },
+        { query: 'crm integrations ', type: 'implicit' },
+        { query: 'crm vs erp', type: 'comparative' },
+        { query: 'crm data', type: 'made-up' },
+        { query: '   ', type: 'related' },
+      ])]),
+    });
+
+    expect(queries).toEqual([
+      { query: 'crm integrations', fanOutType: 'related', parent: 'crm software', source: 'fan-out' },
+    ]);
+  });
+
+  it('asks only for the requested branches and count', async () => {
+    const prompts: string[] = [];
+    await expandQueryFanOut('crm software', 'Page content', {
+      types: ['comparative'],
+      queriesPerType: 5,
+      llm: fakeLLM([fanOut([{ query: 'crm vs erp', type: 'comparative' }])], prompts),
+    });
+
+    expect(prompts[0]).toContain('"comparative"');
+    expect(prompts[0]).not.toContain('"related"');
+    expect(prompts[0]).toContain('5');
+  });
+
+  it('fails with the structured output error when the model never returns valid JSON', async () => {
+    await expect(expandQueryFanOut('crm software', 'Page content', { llm: fakeLLM(['no', 'still no', 'nope']) }))
+      .rejects.toBeInstanceOf(StructuredOutputError);
+  });
+
+  it('fails when no sub-query survives normalization', async () => {
+    await expect(expandQueryFanOut('crm software', 'Page content', {
+      llm: fakeLLM([fanOut([{ query: 'crm software', type: 'related' }])]),
+    })).rejects.toMatchObject({ code: 'FAN_OUT_ERROR' });
+  });
+});
@@ -0,0 +1,78 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { classifyIntentHeuristically, classifyQueryIntents } from '../intent';
+import { type LLMProvider } from '../types';
+
+// Labels queries from a canned response and records every prompt
+function fakeLLM(respond: (prompt: string) => string, prompts: string[] = []): LLMProvider {
+  return {
+    name: 'openai',
+    model: 'test-model',
+    generate: async (prompt) => {
+      prompts.push(prompt);
+      return respond(prompt);
+    },
+  };
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('classifyIntentHeuristically', () => {
+  it('labels queries by their wording, navigational first', () => {
+    expect(classifyIntentHeuristically('hubspot login')).toBe('navigational');
+    expect(classifyIntentHeuristically('hubspot.com pricing')).toBe('navigational');
+    expect(classifyIntentHeuristically('crm pricing for startups')).toBe('transactional');
+    expect(classifyIntentHeuristically('best crm vs spreadsheet')).toBe('commercial');
+    expect(classifyIntentHeuristically('what is a crm')).toBe('informational');
+  });
+});
+
+describe('classifyQueryIntents', () => {
+  it('uses the heuristic without calling the LLM when asked to', async () => {
+    const prompts: string[] = [];
+    const result = await classifyQueryIntents(['best crm'], 'heuristic', fakeLLM(() => '', prompts));
+
+    expect(result).toEqual({ intents: ['commercial'], classifier: 'heuristic' });
+    expect(prompts).toEqual([]);
+  });
+
+  it('takes the LLM labels by query number, keeping the heuristic for skipped queries', async () => {
+    const llm = fakeLLM(() => JSON.stringify({
+      intents: [{ id: 1, intent: 'commercial' }, { id: 7, intent: 'transactional' }],
+    }));
+
+    const result = await classifyQueryIntents(['what is a crm', 'buy crm software'], 'llm', llm);
+
+    expect(result).toEqual({ intents: ['commercial', 'transactional'], classifier: 'llm' });
+  });
+
+  it('classifies long lists in batches of fifty', async () => {
+    const prompts: string[] = [];
+    const queries = Array.from({ length: 60 }, (_, index) => `query ${index}`);
+    const llm = fakeLLM(() => JSON.stringify({ intents: [{ id: 1, intent: 'navigational' }] }), prompts);
+
+    const result = await classifyQueryIntents(queries, 'llm', llm);
+
+    expect(prompts).toHaveLength(2);
+    expect(prompts[1]).toContain('10. query 59');
+    expect(result.intents[0]).toBe('navigational');
+    expect(result.intents[50]).toBe('navigational');
+    expect(result.intents[1]).toBe('informational');
+  });
+
+  it('falls back to the heuristic for every query when the LLM fails', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const llm: LLMProvider = {
+      name: 'openai',
+      model: 'test-model',
+      generate: async () => {
+        throw new Error('OPENAI_API_KEY is not set');
+      },
+    };
+
+    const result = await classifyQueryIntents(['best crm', 'what is a crm'], 'llm', llm);
+
+    expect(result).toEqual({ intents: ['commercial', 'informational'], classifier: 'heuristic', fallback: true });
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { LEXICAL_MENTION_THRESHOLD, createLexicalIndex, tokenize } from '../lexical';
+
+describe('tokenize', () => {
+  it('lowercases, strips punctuation and stop words, and folds plurals', () => {
+    expect(tokenize('The best CRM tools, for small teams!')).toEqual(['best', 'crm', 'tool', 'small', 'team']);
+    expect(tokenize('Companies, class and status')).toEqual(['company', 'class', 'status']);
+  });
+});
+
+describe('createLexicalIndex', () => {
+  const passages = [
+    'CRM software helps sales teams track leads and deals.',
+    'Pricing starts at ten dollars per user per month.',
+    'Email marketing tools send newsletters to subscribers.',
+  ];
+  const index = createLexicalIndex(passages);
+
+  it('scores 1 when every query term appears', () => {
+    expect(index.score('crm software', passages[0])).toBeCloseTo(1);
+  });
+
+  it('scores 0 when no query term appears', () => {
+    expect(index.score('crm software', passages[2])).toBe(0);
+    expect(index.score('the and of', passages[0])).toBe(0);
+  });
+
+  it('scores partial overlap between 0 and 1 and below the mention threshold', () => {
+    const score = index.score('crm pricing comparison', passages[0]);
+    expect(score).toBeGreaterThan(0);
+    expect(score).toBeLessThan(LEXICAL_MENTION_THRESHOLD);
+  });
+
+  it('never scores above 1, however often a term repeats', () => {
+    const repeated = 'crm crm crm crm software software';
+    expect(createLexicalIndex([repeated, passages[1]]).score('crm software', repeated)).toBeLessThanOrEqual(1);
+  });
+
+  it('weights rare terms above common ones', () => {
+    const corpus = [
+      'crm guide for teams',
+      'crm pricing for teams',
+      'crm reviews for teams',
+      'onboarding checklist',
+    ];
+    const shared = createLexicalIndex(corpus);
+    expect(shared.score('crm pricing', corpus[0])).toBeLessThan(shared.score('crm pricing', 'pricing page'));
+  });
+
+  it('scores documents outside the corpus', () => {
+    expect(index.score('newsletters', 'Weekly newsletters')).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { getPassageEmbeddingText, poolPassageScores, splitIntoPassages } from '../passages';
+
+describe('splitIntoPassages', () => {
+  it('keeps the heading trail each passage was found under', () => {
+    const passages = splitIntoPassages([
+      'Intro text.',
+      '# Guide',
+      'Guide text.',
+      '## Setup',
+      'Setup text.',
+      '### Install',
+      'Install text.',
+      '## Usage',
+      'Usage text.',
+    ].join('\n'));
+
+    expect(passages.map(p => [p.heading, p.text])).toEqual([
+      ['', 'Intro text.'],
+      ['Guide', 'Guide text.'],
+      ['Guide > Setup', 'Setup text.'],
+      ['Guide > Setup > Install', 'Install text.'],
+      ['Guide > Usage', 'Usage text.'],
+    ]);
+    expect(passages.map(p => p.index)).toEqual([0, 1, 2, 3, 4]);
+  });
+
+  it('skips headings with no text under them', () => {
+    const passages = splitIntoPassages('# Empty\n\n# Full\nBody.');
+    expect(passages).toEqual([{ index: 0, heading: 'Full', text: 'Body.' }]);
+  });
+
+  it('chunks long sections on paragraph boundaries within the passage size', () => {
+    const paragraph = 'word '.repeat(60).trim(); // 299 characters
+    const passages = splitIntoPassages(Array(6).fill(paragraph).join('\n\n'), { passageSize: 700 });
+
+    expect(passages).toHaveLength(3);
+    for (const passage of passages) {
+      expect(passage.text.length).toBeLessThanOrEqual(700);
+    }
+  });
+
+  it('merges a small trailing chunk into the previous passage', () => {
+    const passages = splitIntoPassages(`${'a'.repeat(500)}\n\n${'b'.repeat(50)}`, { passageSize: 520 });
+    expect(passages).toHaveLength(1);
+    expect(passages[0].text).toBe(`${'a'.repeat(500)} ${'b'.repeat(50)}`);
+  });
+
+  it('splits oversized paragraphs on sentences and hard-wraps oversized sentences', () => {
+    // 50 sentences of 20 characters: 11 fit in a passage and the last 6 are merged into the fourth
+    const sentences = splitIntoPassages('First sentence here. '.repeat(50), { passageSize: 250 });
+    expect(sentences.map(p => p.text.length)).toEqual([230, 230, 230, 356]);
+    expect(sentences.every(p => p.text.startsWith('First'))).toBe(true);
+
+    const wrapped = splitIntoPassages('x'.repeat(1000), { passageSize: 400 });
+    expect(wrapped.map(p => p.text.length)).toEqual([400, 400, 200]);
+  });
+
+  it('caps the number of passages', () => {
+    const content = Array.from({ length: 10 }, (_, i) => `# Section ${i}\nText ${i}.`).join('\n');
+    expect(splitIntoPassages(content, { maxPassages: 4 })).toHaveLength(4);
+  });
+});
+
+describe('getPassageEmbeddingText', () => {
+  it('prefixes the heading trail when there is one', () => {
+    expect(getPassageEmbeddingText({ index: 0, heading: 'Guide > Setup', text: 'Body.' })).toBe('Guide > Setup\n\nBody.');
+    expect(getPassageEmbeddingText({ index: 0, heading: '', text: 'Body.' })).toBe('Body.');
+  });
+});
+
+describe('poolPassageScores', () => {
+  const scores = [0.2, 0.9, 0.5, 0.7];
+
+  it('pools by max by default', () => {
+    expect(poolPassageScores(scores)).toBe(0.9);
+  });
+
+  it('pools by mean', () => {
+    expect(poolPassageScores(scores, 'mean')).toBeCloseTo(0.575);
+  });
+
+  it('pools by the mean of the top k', () => {
+    expect(poolPassageScores(scores, 'topk', 2)).toBeCloseTo(0.8);
+    expect(poolPassageScores(scores, 'topk', 10)).toBeCloseTo(0.575);
+    expect(poolPassageScores(scores, 'topk', 0)).toBe(0.9);
+  });
+
+  it('scores a page without passages 0', () => {
+    expect(poolPassageScores([], 'max')).toBe(0);
+    expect(poolPassageScores([], 'mean')).toBe(0);
+  });
+});
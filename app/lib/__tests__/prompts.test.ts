@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import {
+  PROMPT_NAMES,
+  PROMPT_TEMPLATES,
+  getLatestPromptTemplate,
+  getPromptVersionMap,
+  renderPrompt,
+  resolvePromptSet,
+  resolvePromptTemplate,
+} from '../prompts';
+import { AnalysisError } from '../types';
+
+describe('prompt registry', () => {
+  it('registers every prompt, with unique versions', () => {
+    for (const name of PROMPT_NAMES) {
+      const versions = PROMPT_TEMPLATES.filter(template => template.name === name).map(template => template.version);
+      expect(versions.length).toBeGreaterThan(0);
+      expect(new Set(versions).size).toBe(versions.length);
+    }
+  });
+
+  it('declares exactly the variables each template uses', () => {
+    for (const template of PROMPT_TEMPLATES) {
+      const used = Array.from(template.template.matchAll(/\{\{\s*(\w+)\s*\}\}/g), match => match[1]);
+      expect(new Set(used)).toEqual(new Set(template.variables));
+    }
+  });
+});
+
+describe('resolvePromptTemplate', () => {
+  it('uses the latest version without an override', () => {
+    expect(resolvePromptTemplate('query-fanout')).toBe(getLatestPromptTemplate('query-fanout'));
+  });
+
+  it('pins a registered version', () => {
+    expect(resolvePromptTemplate('query-fanout', { version: 'v1' }).version).toBe('v1');
+    expect(() => resolvePromptTemplate('query-fanout', { version: 'v99' })).toThrow('Unknown version "v99"');
+  });
+
+  it('accepts a custom template under a new version using the registered variables', () => {
+    const custom = resolvePromptTemplate('query-fanout', { version: 'exp-1', template: 'Expand {{ seed }}' });
+
+    expect(custom).toMatchObject({ name: 'query-fanout', version: 'exp-1', template: 'Expand {{ seed }}', custom: true });
+    expect(renderPrompt(custom, { seed: 'crm' })).toBe('Expand crm');
+  });
+
+  it('rejects custom templates that reuse a version or use unknown variables', () => {
+    expect(() => resolvePromptTemplate('query-fanout', { version: 'v1', template: 'Expand {{seed}}' }))
+      .toThrow('reuses registered version "v1"');
+    expect(() => resolvePromptTemplate('query-fanout', { version: 'exp-2', template: 'Expand {{topic}}' }))
+      .toThrow('unknown variables: topic');
+  });
+});
+
+describe('resolvePromptSet', () => {
+  it('resolves every prompt and records the versions used', () => {
+    const prompts = resolvePromptSet({ 'query-fanout': { version: 'exp-1', template: 'Expand {{seed}}' } });
+    const versions = getPromptVersionMap(prompts);
+
+    expect(Object.keys(prompts).sort()).toEqual([...PROMPT_NAMES].sort());
+    expect(versions['query-fanout']).toBe('exp-1');
+    expect(versions['keyword-extraction']).toBe(getLatestPromptTemplate('keyword-extraction').version);
+  });
+});
+
+describe('renderPrompt', () => {
+  it('fills every placeholder and fails on a missing variable', () => {
+    const template = getLatestPromptTemplate('keyword-extraction');
+    const rendered = renderPrompt(template, { maxKeywords: 5, content: 'Page text' });
+
+    expect(rendered).toContain('Page text');
+    expect(rendered).not.toMatch(/\{\{/);
+    expect(() => renderPrompt(template, { content: 'Page text' })).toThrow(AnalysisError);
+  });
+});
@@ -0,0 +1,185 @@
+import { describe, expect, it } from 'vitest';
+import {
+  annotateSerpRanks,
+  appendRankEntries,
+  buildRankHistory,
+  calculateRankCorrelation,
+  extractRankEntries,
+} from '../rankings';
+import { type AnalysisResult, type QueryMatch, type QuerySearch, type RankLedgerEntry } from '../types';
+
+function match(query: string, similarity: number, overrides: Partial<QueryMatch> = {}): QueryMatch {
+  return { query, similarity, category: 'General', matched: similarity >= 0.5, ...overrides };
+}
+
+function ranked(similarity: number, position: number | null, depth: number = 10): QueryMatch {
+  return match('q', similarity, { serpRank: { position, domainPosition: position, outrankedBy: [], depth } });
+}
+
+describe('annotateSerpRanks', () => {
+  const search: QuerySearch = {
+    query: 'crm software',
+    results: [
+      { link: 'https://competitor.com/crm', position: 1 },
+      { link: 'https://www.example.com/blog/', position: 2 },
+      { link: 'https://example.com/pricing', position: 3 },
+    ],
+  };
+  const pageUrls = ['https://example.com/pricing', 'https://competitor.com/crm', 'https://other.com/'];
+
+  it('records each page position, its domain position and the pages above it', () => {
+    const [target, competitor, missing] = annotateSerpRanks(
+      [[match('CRM Software', 0.8)], [match('crm software', 0.6)], [match('crm software', 0.4)]],
+      pageUrls,
+      [search]
+    );
+
+    expect(target[0].serpRank).toEqual({
+      position: 3,
+      domainPosition: 2,
+      outrankedBy: ['https://competitor.com/crm'],
+      depth: 3,
+    });
+    expect(competitor[0].serpRank?.position).toBe(1);
+    expect(competitor[0].serpRank?.outrankedBy).toEqual([]);
+    expect(missing[0].serpRank).toEqual({
+      position: null,
+      domainPosition: null,
+      outrankedBy: ['https://example.com/pricing', 'https://competitor.com/crm'],
+      depth: 3,
+    });
+  });
+
+  it('ignores www, trailing slashes and query strings when matching pages', () => {
+    const [[annotated]] = annotateSerpRanks(
+      [[match('crm software', 0.8)]],
+      ['https://example.com/blog?utm_source=x'],
+      [search]
+    );
+    expect(annotated.serpRank?.position).toBe(2);
+  });
+
+  it('leaves matches for unsearched queries untouched', () => {
+    const original = match('unsearched query', 0.7);
+    const [[annotated]] = annotateSerpRanks([[original]], pageUrls.slice(0, 1), [search]);
+    expect(annotated).toBe(original);
+  });
+});
+
+describe('calculateRankCorrelation', () => {
+  it('needs at least five page-query pairs', () => {
+    expect(calculateRankCorrelation([[ranked(0.9, 1), ranked(0.5, 2)], [ranked(0.2, 3), ranked(0.1, 4)]]))
+      .toBeUndefined();
+  });
+
+  it('is positive when better-covered pages rank higher', () => {
+    const result = calculateRankCorrelation([
+      [ranked(0.9, 1), ranked(0.8, 2), ranked(0.7, 3)],
+      [ranked(0.4, 4), ranked(0.3, 5)],
+    ]);
+    expect(result?.pairs).toBe(5);
+    expect(result?.correlation).toBe(1);
+  });
+
+  it('ranks pages missing from the results just below the last result', () => {
+    // Missing pages tie at position 11, below every ranked page
+    const missingCovered = calculateRankCorrelation([
+      [ranked(0.9, null), ranked(0.8, null)],
+      [ranked(0.3, 1), ranked(0.2, 2), ranked(0.1, 3)],
+    ]);
+    const missingUncovered = calculateRankCorrelation([
+      [ranked(0.9, 1), ranked(0.8, 2), ranked(0.7, 3)],
+      [ranked(0.2, null), ranked(0.1, null)],
+    ]);
+    expect(missingCovered?.correlation).toBeLessThan(0);
+    expect(missingUncovered?.correlation).toBeGreaterThan(0.9);
+  });
+
+  it('has no correlation when every page ranks the same', () => {
+    const result = calculateRankCorrelation([[ranked(0.9, 1), ranked(0.8, 1), ranked(0.7, 1), ranked(0.6, 1), ranked(0.5, 1)]]);
+    expect(result?.correlation).toBeNull();
+  });
+
+  it('summarizes covered and uncovered pairs separately', () => {
+    const result = calculateRankCorrelation([
+      [ranked(0.9, 1), ranked(0.8, 3), ranked(0.7, null)],
+      [ranked(0.2, 5), ranked(0.1, null)],
+    ]);
+    expect(result?.covered).toEqual({ pairs: 3, rankingRate: 0.67, averagePosition: 2 });
+    expect(result?.uncovered).toEqual({ pairs: 2, rankingRate: 0.5, averagePosition: 5 });
+  });
+});
+
+describe('rank ledger', () => {
+  function analysis(timestamp: string, ranks: Array<[string, number | null | undefined]>): AnalysisResult {
+    return {
+      timestamp,
+      coverageMatrix: {
+        urls: ['https://example.com/'],
+        rows: ranks.map(([query, position]) => ({
+          query,
+          category: 'General',
+          cells: [{
+            url: 'https://example.com/',
+            similarity: 0.5,
+            matched: true,
+            ...(position !== undefined
+              ? { serpRank: { position, domainPosition: position, outrankedBy: [], depth: 10 } }
+              : {}),
+          }],
+        })),
+      },
+    } as unknown as AnalysisResult;
+  }
+
+  it('extracts the target rank for searched queries only', () => {
+    expect(extractRankEntries(analysis('2026-01-01T00:00:00Z', [['a', 4], ['b', null], ['c', undefined]]))).toEqual([
+      { timestamp: '2026-01-01T00:00:00Z', query: 'a', rank: 4 },
+      { timestamp: '2026-01-01T00:00:00Z', query: 'b', rank: null },
+    ]);
+  });
+
+  it('keeps entries sorted, replaces re-recorded ones and trims the oldest', () => {
+    let ledger: RankLedgerEntry[] = [];
+    ledger = appendRankEntries(ledger, [{ timestamp: '2026-01-02T00:00:00Z', query: 'a', rank: 5 }]);
+    ledger = appendRankEntries(ledger, [{ timestamp: '2026-01-01T00:00:00Z', query: 'a', rank: 8 }]);
+    ledger = appendRankEntries(ledger, [{ timestamp: '2026-01-02T00:00:00Z', query: 'A', rank: 4 }]);
+
+    expect(ledger.map(entry => entry.rank)).toEqual([8, 4]);
+    expect(appendRankEntries(ledger, [{ timestamp: '2026-01-03T00:00:00Z', query: 'a', rank: 2 }], 2))
+      .toEqual([
+        { timestamp: '2026-01-02T00:00:00Z', query: 'A', rank: 4 },
+        { timestamp: '2026-01-03T00:00:00Z', query: 'a', rank: 2 },
+      ]);
+  });
+
+  it('builds per-query history with the change between the last two points', () => {
+    const history = buildRankHistory([
+      { timestamp: '2026-01-03T00:00:00Z', query: 'a', rank: 2 },
+      { timestamp: '2026-01-01T00:00:00Z', query: 'a', rank: 8 },
+      { timestamp: '2026-01-02T00:00:00Z', query: 'A', rank: 5 },
+      { timestamp: '2026-01-02T00:00:00Z', query: 'b', rank: null },
+      { timestamp: '2026-01-03T00:00:00Z', query: 'b', rank: 4 },
+    ]);
+
+    expect(history).toEqual([
+      {
+        query: 'a',
+        points: [
+          { timestamp: '2026-01-01T00:00:00Z', position: 8 },
+          { timestamp: '2026-01-02T00:00:00Z', position: 5 },
+          { timestamp: '2026-01-03T00:00:00Z', position: 2 },
+        ],
+        change: 3,
+      },
+      {
+        query: 'b',
+        points: [
+          { timestamp: '2026-01-02T00:00:00Z', position: null },
+          { timestamp: '2026-01-03T00:00:00Z', position: 4 },
+        ],
+        change: null,
+      },
+    ]);
+  });
+});
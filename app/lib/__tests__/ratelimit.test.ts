@@ -0,0 +1,169 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { configureRateLimit, getRateLimitConfig, rateLimitedFetch, withRateLimit } from '../ratelimit';
+import { RateLimitError } from '../types';
+
+// Limiters live for the whole process, so every test uses its own provider name
+
+// Fails with each error in turn, then succeeds with 'ok'
+function failing(errors: unknown[]) {
+  const call = vi.fn(async () => {
+    if (call.mock.calls.length <= errors.length) throw errors[call.mock.calls.length - 1];
+    return 'ok';
+  });
+  return call;
+}
+
+function deferred() {
+  let resolve!: (value: string) => void;
+  const promise = new Promise<string>(r => {
+    resolve = r;
+  });
+  return { promise, resolve };
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+  vi.unstubAllEnvs();
+  vi.unstubAllGlobals();
+});
+
+describe('withRateLimit', () => {
+  it('retries 5xx responses and dropped connections with a doubling backoff', async () => {
+    const call = failing([{ status: 503 }, { code: 'ECONNRESET' }]);
+    const result = withRateLimit('test-transient', call);
+
+    await vi.advanceTimersByTimeAsync(999);
+    expect(call).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(call).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(2000);
+
+    expect(await result).toBe('ok');
+    expect(call).toHaveBeenCalledTimes(3);
+  });
+
+  it('gives up on transient errors after two retries', async () => {
+    const call = failing([{ status: 500 }, { status: 500 }, { status: 500, message: 'still down' }]);
+    const result = withRateLimit('test-transient-limit', call).catch(e => e);
+
+    await vi.advanceTimersByTimeAsync(3000);
+
+    expect(await result).toMatchObject({ message: 'still down' });
+    expect(call).toHaveBeenCalledTimes(3);
+  });
+
+  it('rethrows other errors without retrying', async () => {
+    const call = failing([{ status: 400 }, { code: 'ENOTFOUND' }]);
+
+    await expect(withRateLimit('test-permanent', call)).rejects.toEqual({ status: 400 });
+    await expect(withRateLimit('test-permanent', call)).rejects.toEqual({ code: 'ENOTFOUND' });
+    expect(call).toHaveBeenCalledTimes(2);
+  });
+
+  it('waits out the Retry-After of a 429 before retrying', async () => {
+    const call = failing([{ status: 429, headers: { 'retry-after': '2' } }]);
+    const result = withRateLimit('test-429', call);
+
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(call).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+
+    expect(await result).toBe('ok');
+    expect(call).toHaveBeenCalledTimes(2);
+  });
+
+  it('throws a RateLimitError once the 429 retries run out', async () => {
+    const limited = { status: 429, headers: { 'retry-after': '1' } };
+    const call = failing([limited, limited, limited]);
+    const result = withRateLimit('test-429-limit', call).catch(e => e);
+
+    await vi.advanceTimersByTimeAsync(2000);
+    const error = await result;
+
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(error).toMatchObject({ message: 'test-429-limit rate limit exceeded', retryAfter: 1 });
+    expect(call).toHaveBeenCalledTimes(3);
+  });
+
+  it('runs no more calls at once than the concurrency limit', async () => {
+    configureRateLimit('test-concurrency', { concurrency: 1 });
+    const first = deferred();
+    const second = vi.fn(async () => 'second');
+
+    const firstResult = withRateLimit('test-concurrency', () => first.promise);
+    const secondResult = withRateLimit('test-concurrency', second);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(second).not.toHaveBeenCalled();
+
+    first.resolve('first');
+
+    expect(await firstResult).toBe('first');
+    expect(await secondResult).toBe('second');
+  });
+
+  it('fails a call that waits a minute for a concurrency slot', async () => {
+    configureRateLimit('test-queue', { concurrency: 1 });
+    void withRateLimit('test-queue', () => deferred().promise);
+    const result = withRateLimit('test-queue', async () => 'never').catch(e => e);
+
+    await vi.advanceTimersByTimeAsync(60000);
+    const error = await result;
+
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(error.message).toBe('test-queue concurrency limit reached');
+  });
+
+  it('spaces calls out to the requests-per-minute budget', async () => {
+    configureRateLimit('test-rpm', { rpm: 1, concurrency: 5 });
+    const call = vi.fn(async () => 'ok');
+
+    await withRateLimit('test-rpm', call);
+    const second = withRateLimit('test-rpm', call);
+    await vi.advanceTimersByTimeAsync(59000);
+    expect(call).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(await second).toBe('ok');
+    expect(call).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('rate limit configuration', () => {
+  it('uses the provider defaults, then the fallback limit', () => {
+    expect(getRateLimitConfig('openai')).toEqual({ rpm: 500, tpm: 200000, concurrency: 8 });
+    expect(getRateLimitConfig('test-unknown')).toEqual({ rpm: 60, tpm: undefined, concurrency: 2 });
+  });
+
+  it('reads overrides from the environment, ignoring invalid values', () => {
+    vi.stubEnv('RATE_LIMIT_TEST_ENV_RPM', '30');
+    vi.stubEnv('RATE_LIMIT_TEST_ENV_CONCURRENCY', 'lots');
+
+    expect(getRateLimitConfig('test-env')).toEqual({ rpm: 30, tpm: undefined, concurrency: 2 });
+  });
+
+  it('merges configured limits over the effective ones', () => {
+    configureRateLimit('test-configured', { tpm: 1000 });
+    expect(getRateLimitConfig('test-configured')).toEqual({ rpm: 60, tpm: 1000, concurrency: 2 });
+  });
+});
+
+describe('rateLimitedFetch', () => {
+  it('retries a 429 response after its Retry-After and returns other responses', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(new Response(null, { status: 429, headers: { 'retry-after': '1' } }))
+      .mockResolvedValueOnce(new Response(null, { status: 500 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const result = rateLimitedFetch('test-fetch', 'https://example.com');
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect((await result).status).toBe(500);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+});
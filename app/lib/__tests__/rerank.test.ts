@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import { createLocalRerankerProvider, rerankPageMatches } from '../rerank';
+import { type Passage, type QueryMatch, type RerankerProvider } from '../types';
+
+function passage(index: number, text: string): Passage {
+  return { index, heading: '', text };
+}
+
+function match(query: string, similarity: number): QueryMatch {
+  return { query, similarity, category: 'General', matched: similarity >= 0.5, context: 'embedding context' };
+}
+
+// Scores each query-document pair by a fixed relevance, 0 when not listed
+function fakeReranker(relevance: Record<string, number>, inFlight?: { current: number; max: number }): RerankerProvider {
+  return {
+    name: 'local',
+    model: 'fake',
+    rerank: async (query, documents) => {
+      if (inFlight) {
+        inFlight.current++;
+        inFlight.max = Math.max(inFlight.max, inFlight.current);
+        await new Promise(resolve => setTimeout(resolve, 5));
+        inFlight.current--;
+      }
+      return documents.map(document => relevance[`${query}: ${document}`] ?? 0);
+    },
+  };
+}
+
+describe('createLocalRerankerProvider', () => {
+  const reranker = createLocalRerankerProvider();
+
+  it('scores passages that state the query in order above ones that only share its terms', async () => {
+    const [stated, shuffled, unrelated] = await reranker.rerank('crm pricing plans', [
+      'Our CRM pricing plans start at ten dollars.',
+      'Plans for every team: pricing of the CRM.',
+      'Email newsletters for subscribers.',
+    ]);
+
+    expect(stated).toBeCloseTo(1);
+    expect(shuffled).toBeCloseTo(0.6);
+    expect(unrelated).toBe(0);
+  });
+});
+
+describe('rerankPageMatches', () => {
+  const pagePassages = [
+    [passage(0, 'target intro'), passage(1, 'target pricing')],
+    [passage(0, 'competitor pricing')],
+  ];
+  const pagePassageEmbeddings = [[[1, 0], [0.8, 0.6]], [[0.6, 0.8]]];
+
+  it('replaces the similarity with the best reranked passage score', async () => {
+    const [target, competitor] = await rerankPageMatches(
+      ['pricing', 'intro'],
+      [[1, 0], [0, 1]],
+      pagePassages,
+      pagePassageEmbeddings,
+      [[match('pricing', 0.9), match('intro', 0.2)], [match('pricing', 0.4), match('intro', 0.3)]],
+      fakeReranker({ 'pricing: target pricing': 0.3, 'pricing: target intro': 0.1, 'pricing: competitor pricing': 0.8 })
+    );
+
+    expect(target[0]).toMatchObject({
+      query: 'pricing',
+      similarity: 0.3,
+      rerankScore: 0.3,
+      retrievalSimilarity: 0.9,
+      matched: false,
+      context: 'target pricing',
+    });
+    expect(competitor[0]).toMatchObject({
+      query: 'pricing',
+      similarity: 0.8,
+      retrievalSimilarity: 0.4,
+      matched: true,
+      context: 'competitor pricing',
+    });
+  });
+
+  it('re-sorts each page by the reranked score', async () => {
+    const [target] = await rerankPageMatches(
+      ['a', 'b'],
+      [[1, 0], [0, 1]],
+      [[passage(0, 'about a'), passage(1, 'about b')]],
+      [[[1, 0], [0, 1]]],
+      [[match('a', 0.9), match('b', 0.5)]],
+      fakeReranker({ 'a: about a': 0.2, 'b: about b': 0.7 })
+    );
+
+    expect(target.map(m => m.query)).toEqual(['b', 'a']);
+  });
+
+  it('keeps the embedding context when no passage scores above zero', async () => {
+    const [, competitor] = await rerankPageMatches(
+      ['pricing'],
+      [[1, 0]],
+      pagePassages,
+      pagePassageEmbeddings,
+      [[match('pricing', 0.9)], [match('pricing', 0.6)]],
+      fakeReranker({ 'pricing: target pricing': 0.9 })
+    );
+
+    expect(competitor[0]).toMatchObject({ similarity: 0, matched: false, context: 'embedding context' });
+  });
+
+  it('reranks the queries concurrently', async () => {
+    const inFlight = { current: 0, max: 0 };
+    await rerankPageMatches(
+      ['a', 'b', 'c'],
+      [[1, 0], [0, 1], [1, 1]],
+      pagePassages,
+      pagePassageEmbeddings,
+      [[], []],
+      fakeReranker({}, inFlight)
+    );
+
+    expect(inFlight.max).toBe(3);
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { extractSerpQueries } from '../serpapi';
+import { type SerpFeatures } from '../types';
+
+const features: SerpFeatures = {
+  query: 'Acme CRM | Home',
+  peopleAlsoAsk: [
+    { question: 'What is a CRM?' },
+    { question: 'How much does a CRM cost?' },
+  ],
+  relatedSearches: ['crm   software', 'what is a crm?', 'free crm'],
+  answerBox: { answer: 'A CRM manages customer relationships.' },
+  aiOverview: {
+    text: ['A CRM stores contacts.'],
+    headings: ['Key features:', 'Free CRM'],
+    references: [],
+  },
+};
+
+describe('extractSerpQueries', () => {
+  it('tags each query with the feature it came from', () => {
+    expect(extractSerpQueries(features)).toEqual([
+      { query: 'What is a CRM?', source: 'people-also-ask' },
+      { query: 'How much does a CRM cost?', source: 'people-also-ask' },
+      { query: 'crm software', source: 'related-search' },
+      { query: 'free crm', source: 'related-search' },
+      { query: 'Key features', source: 'ai-overview' },
+    ]);
+  });
+
+  it('does not turn the searched query into an answer-box query', () => {
+    expect(extractSerpQueries(features).map(q => q.query)).not.toContain(features.query);
+  });
+
+  it('caps the number of queries', () => {
+    expect(extractSerpQueries(features, 2)).toHaveLength(2);
+  });
+
+  it('returns nothing for a results page without features', () => {
+    expect(extractSerpQueries({ query: 'q', peopleAlsoAsk: [], relatedSearches: [] })).toEqual([]);
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import {
+  checkDomainFilters,
+  classifySourceType,
+  normalizeDomain,
+  parseDomainList,
+  resolveDomainFilters,
+} from '../sources';
+
+describe('classifySourceType', () => {
+  it('looks known sites up by domain, subdomains included', () => {
+    expect(classifySourceType('https://en.wikipedia.org/wiki/CRM')).toBe('encyclopedia');
+    expect(classifySourceType('https://www.youtube.com/watch?v=1')).toBe('video');
+    expect(classifySourceType('https://old.reddit.com/r/crm')).toBe('forum');
+    expect(classifySourceType('https://www.linkedin.com/pulse/crm')).toBe('social');
+    expect(classifySourceType('https://www.amazon.com/dp/1')).toBe('marketplace');
+    expect(classifySourceType('https://www.forbes.com/advisor/crm')).toBe('publisher');
+  });
+
+  it('falls back to forum and publisher wording in the URL', () => {
+    expect(classifySourceType('https://community.vendor.com/t/1')).toBe('forum');
+    expect(classifySourceType('https://vendor.com/forum/thread-1')).toBe('forum');
+    expect(classifySourceType('https://citynews.com/story')).toBe('publisher');
+  });
+
+  it('treats everything else, and invalid URLs, as vendor sites', () => {
+    expect(classifySourceType('https://hubspot.com/products/crm')).toBe('vendor');
+    expect(classifySourceType('not a url')).toBe('vendor');
+  });
+});
+
+describe('resolveDomainFilters', () => {
+  it('is undefined when neither the project nor the request sets filters', () => {
+    expect(resolveDomainFilters(undefined, undefined)).toBeUndefined();
+    expect(resolveDomainFilters({}, undefined)).toBeUndefined();
+  });
+
+  it('combines deny lists and lets the request replace allow lists and source types', () => {
+    const filters = resolveDomainFilters(
+      { domainFilters: { allowDomains: ['a.com'], denyDomains: ['x.com'], sourceTypes: ['vendor'] } },
+      { allowDomains: ['b.com'], denyDomains: ['y.com', 'x.com'], sourceTypes: ['publisher'] }
+    );
+    expect(filters).toEqual({ allowDomains: ['b.com'], denyDomains: ['x.com', 'y.com'], sourceTypes: ['publisher'] });
+  });
+
+  it('keeps the project allow list when the request has none', () => {
+    const filters = resolveDomainFilters({ domainFilters: { allowDomains: ['a.com'] } }, { allowDomains: [] });
+    expect(filters?.allowDomains).toEqual(['a.com']);
+    expect(filters?.denyDomains).toBeUndefined();
+  });
+});
+
+describe('checkDomainFilters', () => {
+  it('passes everything without filters', () => {
+    expect(checkDomainFilters('https://a.com/', 'vendor')).toBeUndefined();
+  });
+
+  it('lets deny win over allow and matches subdomains', () => {
+    const filters = { allowDomains: ['a.com'], denyDomains: ['blog.a.com'] };
+    expect(checkDomainFilters('https://blog.a.com/post', 'vendor', filters)).toBe('denied');
+    expect(checkDomainFilters('https://shop.a.com/', 'vendor', filters)).toBeUndefined();
+    expect(checkDomainFilters('https://b.com/', 'vendor', filters)).toBe('not-allowed');
+  });
+
+  it('filters by source type', () => {
+    expect(checkDomainFilters('https://reddit.com/r/x', 'forum', { sourceTypes: ['vendor'] })).toBe('source-type');
+    expect(checkDomainFilters('https://a.com/', 'vendor', { sourceTypes: ['vendor'] })).toBeUndefined();
+  });
+});
+
+describe('parseDomainList', () => {
+  it('splits on commas and whitespace, dropping duplicates and non-domains', () => {
+    expect(parseDomainList('a.com, b.org\nnot_a_domain  a.com')).toEqual(['a.com', 'b.org']);
+  });
+});
+
+describe('normalizeDomain', () => {
+  it('lowercases and strips www', () => {
+    expect(normalizeDomain('https://WWW.Example.COM/path')).toBe('example.com');
+    expect(normalizeDomain('nope')).toBe('');
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { z } from 'zod';
+import { generateStructured, parseStructuredOutput } from '../structured';
+import { StructuredOutputError } from '../types';
+
+const schema = z.object({ queries: z.array(z.string()).min(1) });
+
+// Replies with each response in turn and records the prompts it was sent
+function scripted(responses: Array<string | null>, prompts: string[] = []) {
+  return async (prompt: string) => {
+    prompts.push(prompt);
+    return responses.shift() ?? null;
+  };
+}
+
+describe('parseStructuredOutput', () => {
+  it('reads JSON out of code fences and surrounding prose', () => {
+    expect(parseStructuredOutput('```json\n{"queries": ["a"]}\n```', schema)).toEqual({ success: true, data: { queries: ['a'] } });
+    expect(parseStructuredOutput('Here you go: {"queries": ["a"]} Hope it helps.', schema).success).toBe(true);
+  });
+
+  it('reports empty, non-JSON and schema-violating responses', () => {
+    expect(parseStructuredOutput('  ', schema)).toEqual({ success: false, issues: ['The response was empty'] });
+    expect(parseStructuredOutput('{"queries": [', schema)).toMatchObject({
+      success: false,
+      issues: [expect.stringContaining('not valid JSON')],
+    });
+    expect(parseStructuredOutput('{"queries": []}', schema)).toMatchObject({
+      success: false,
+      issues: [expect.stringMatching(/^queries: /)],
+    });
+  });
+});
+
+describe('generateStructured', () => {
+  it('returns the first valid response', async () => {
+    const prompts: string[] = [];
+    const data = await generateStructured({
+      task: 'test',
+      prompt: 'List queries',
+      schema,
+      generate: scripted(['{"queries": ["a"]}'], prompts),
+    });
+
+    expect(data).toEqual({ queries: ['a'] });
+    expect(prompts).toEqual(['List queries']);
+  });
+
+  it('sends invalid output back with its issues until it validates', async () => {
+    const prompts: string[] = [];
+    const data = await generateStructured({
+      task: 'test',
+      prompt: 'List queries',
+      schema,
+      generate: scripted(['{"queries": []}', '{"queries": ["b"]}'], prompts),
+    });
+
+    expect(data).toEqual({ queries: ['b'] });
+    expect(prompts[1]).toMatch(/^List queries\n\nYour previous response could not be used:\n- queries: /);
+    expect(prompts[1]).toContain('Previous response:\n{"queries": []}');
+  });
+
+  it('throws a StructuredOutputError with the last issues after the final attempt', async () => {
+    const prompts: string[] = [];
+    const error = await generateStructured({
+      task: 'test',
+      prompt: 'List queries',
+      schema,
+      maxAttempts: 2,
+      generate: scripted([null, 'nope'], prompts),
+    }).catch(e => e);
+
+    expect(prompts).toHaveLength(2);
+    expect(error).toBeInstanceOf(StructuredOutputError);
+    expect(error).toMatchObject({ task: 'test', attempts: 2, issues: [expect.stringContaining('not valid JSON')] });
+  });
+
+  it('does not retry errors from the provider itself', async () => {
+    let calls = 0;
+    await expect(generateStructured({
+      task: 'test',
+      prompt: 'List queries',
+      schema,
+      generate: async () => {
+        calls++;
+        throw new Error('network down');
+      },
+    })).rejects.toThrow('network down');
+    expect(calls).toBe(1);
+  });
+});
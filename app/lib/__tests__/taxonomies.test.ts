@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import {
+  BUILT_IN_TAXONOMIES,
+  DEFAULT_TAXONOMY_ID,
+  getCategoryProfileTexts,
+  getCategoryRecommendation,
+  getTaxonomyCategoryNames,
+  resolveTaxonomy,
+} from '../taxonomies';
+import { AnalysisError, type Taxonomy } from '../types';
+
+const custom: Taxonomy = {
+  id: 'custom',
+  name: 'Custom',
+  fallbackCategory: 'Other',
+  categories: [
+    { name: 'Pricing', description: 'Plans, prices and discounts', examples: ['crm cost'], recommendation: 'Publish a pricing page' },
+    { name: 'Support', description: 'Help desk, onboarding and training', examples: [] },
+  ],
+};
+
+describe('resolveTaxonomy', () => {
+  it('defaults to the built-in default taxonomy', () => {
+    expect(resolveTaxonomy().id).toBe(DEFAULT_TAXONOMY_ID);
+  });
+
+  it('looks built-in taxonomies up by ID and passes custom ones through', () => {
+    expect(resolveTaxonomy('saas').id).toBe('saas');
+    expect(resolveTaxonomy(custom)).toBe(custom);
+  });
+
+  it('rejects unknown IDs as a bad request', () => {
+    expect(() => resolveTaxonomy('unknown')).toThrow(AnalysisError);
+    expect(() => resolveTaxonomy('unknown')).toThrow(expect.objectContaining({ code: 'INVALID_TAXONOMY', statusCode: 400 }));
+  });
+
+  it('ships built-in taxonomies with unique IDs and described categories', () => {
+    expect(new Set(BUILT_IN_TAXONOMIES.map(t => t.id)).size).toBe(BUILT_IN_TAXONOMIES.length);
+    for (const taxonomy of BUILT_IN_TAXONOMIES) {
+      expect(taxonomy.categories.every(category => category.description.length > 0)).toBe(true);
+    }
+  });
+});
+
+describe('category helpers', () => {
+  it('profiles a category by its name, description and examples', () => {
+    expect(getCategoryProfileTexts(custom.categories[0])).toEqual(['Pricing: Plans, prices and discounts', 'crm cost']);
+  });
+
+  it('uses the category recommendation, or derives one from its description', () => {
+    expect(getCategoryRecommendation(custom, 'Pricing')).toBe('Publish a pricing page');
+    expect(getCategoryRecommendation(custom, 'Support')).toBe('Create content covering help desk, onboarding and training');
+    expect(getCategoryRecommendation(custom, 'Other')).toBe('Create more comprehensive content in this area');
+  });
+
+  it('lists every category plus the fallback', () => {
+    expect(getTaxonomyCategoryNames(custom)).toEqual(['Pricing', 'Support', 'Other']);
+  });
+});
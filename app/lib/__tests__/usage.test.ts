@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createUsageLedger,
+  estimateCost,
+  estimateTokens,
+  meterEmbeddingProvider,
+  meterLLMProvider,
+  summarizeUsage,
+} from '../usage';
+import { createLocalEmbeddingProvider } from '../embeddings';
+import { type LLMGenerateOptions, type LLMProvider } from '../types';
+
+describe('estimateCost', () => {
+  it('prices tokens per million by model, falling back to the provider default', () => {
+    expect(estimateCost({ provider: 'openai', model: 'gpt-4o-mini', inputTokens: 1000000, outputTokens: 1000000 })).toBeCloseTo(0.75);
+    expect(estimateCost({ provider: 'openai', model: 'unlisted', inputTokens: 1000000 })).toBeCloseTo(0.5);
+  });
+
+  it('prices per-call providers per request and leaves local ones free', () => {
+    expect(estimateCost({ provider: 'serpapi', calls: 2 })).toBeCloseTo(0.03);
+    expect(estimateCost({ provider: 'local', model: 'hashed-ngram-512', inputTokens: 5000 })).toBe(0);
+  });
+});
+
+describe('estimateTokens', () => {
+  it('counts about four characters per token', () => {
+    expect(estimateTokens('12345678')).toBe(2);
+    expect(estimateTokens('123456789')).toBe(3);
+  });
+});
+
+describe('createUsageLedger', () => {
+  it('totals calls, tokens and cost per stage, provider and model', () => {
+    const ledger = createUsageLedger();
+    ledger.track('fan-out').record({ provider: 'openai', model: 'gpt-4o', inputTokens: 1000, outputTokens: 500 });
+    ledger.track('fan-out').record({ provider: 'openai', model: 'gpt-4o', inputTokens: 1000, outputTokens: 500 });
+    ledger.track('discovery').record({ provider: 'serpapi', calls: 3 });
+    ledger.track('briefs').record({ provider: 'openai', model: 'gpt-4o', inputTokens: 2000 });
+
+    const report = ledger.report();
+
+    expect(report.entries).toEqual([
+      { stage: 'fan-out', provider: 'openai', model: 'gpt-4o', calls: 2, inputTokens: 2000, outputTokens: 1000, estimatedCost: 0.015 },
+      { stage: 'discovery', provider: 'serpapi', model: undefined, calls: 3, inputTokens: 0, outputTokens: 0, estimatedCost: 0.045 },
+      { stage: 'briefs', provider: 'openai', model: 'gpt-4o', calls: 1, inputTokens: 2000, outputTokens: 0, estimatedCost: 0.005 },
+    ]);
+    expect(report.totals).toEqual({ calls: 6, inputTokens: 4000, outputTokens: 1000, estimatedCost: 0.065 });
+  });
+
+  it('summarizes by provider or stage, most expensive first', () => {
+    const ledger = createUsageLedger();
+    ledger.track('fan-out').record({ provider: 'openai', model: 'gpt-4o', inputTokens: 1000 });
+    ledger.track('discovery').record({ provider: 'serpapi', calls: 3 });
+    ledger.track('rankings').record({ provider: 'serpapi', calls: 1 });
+    const { entries } = ledger.report();
+
+    expect(summarizeUsage(entries, 'provider').map(group => [group.key, group.calls])).toEqual([['serpapi', 4], ['openai', 1]]);
+    expect(summarizeUsage(entries, 'stage').map(group => group.key)).toEqual(['discovery', 'rankings', 'fan-out']);
+  });
+});
+
+describe('metered providers', () => {
+  it('passes the stage tracker to every LLM call', async () => {
+    const seen: Array<LLMGenerateOptions | undefined> = [];
+    const llm: LLMProvider = {
+      name: 'openai',
+      model: 'gpt-4o',
+      generate: async (_prompt, options) => {
+        seen.push(options);
+        options?.usage?.record({ provider: 'openai', model: 'gpt-4o', inputTokens: 10 });
+        return 'ok';
+      },
+    };
+    const ledger = createUsageLedger();
+
+    await meterLLMProvider(llm, ledger.track('intent')).generate('prompt', { temperature: 0 });
+
+    expect(seen[0]?.temperature).toBe(0);
+    expect(ledger.report().entries).toMatchObject([{ stage: 'intent', calls: 1, inputTokens: 10 }]);
+    expect(meterLLMProvider(llm)).toBe(llm);
+  });
+
+  it('records embedding requests against the stage', async () => {
+    const ledger = createUsageLedger();
+    await meterEmbeddingProvider(createLocalEmbeddingProvider(), ledger.track('embedding')).embed(['a', 'b']);
+
+    expect(ledger.report().entries).toMatchObject([{ stage: 'embedding', provider: 'local', calls: 1, estimatedCost: 0 }]);
+  });
+});
@@ -1,4 +1,3 @@
-import OpenAI from 'openai';
 import {
   type AnalysisResult,
   type CompetitorResult,
@@ -8,249 +7,305 @@ import {
   type RadarChartData,
   type CoverageGap,
   type SimilarityResult,
+  type SimilarityOptions,
+  type AnalysisOptions,
+  type AnalysisQuery,
+  type FanOutCoverage,
+  type IntentCoverage,
+  type EmbeddingProvider,
+  type Passage,
+  type Taxonomy,
+  type TopicCluster,
+  type CalibrationProfile,
+  type NormalizationMethod,
+  type CoverageMatrix,
+  type HybridWeights,
+  type QueryInput,
+  type QueryPriority,
+  type HeadToHead,
+  type LLMProvider,
+  type PromptTemplate,
   AnalysisError,
+  RateLimitError,
 } from './types';
+import { splitIntoPassages, getPassageEmbeddingText, poolPassageScores } from './passages';
+import { expandQueryFanOut, FAN_OUT_TYPES } from './fanout';
+import { embedTexts, cosineSimilarity } from './embeddings';
+import { resolveTaxonomy, getCategoryProfileTexts, getCategoryRecommendation } from './taxonomies';
+import { clusterQueries } from './clustering';
+import { getCalibrationProfile, calibrateSimilarity } from './calibration';
+import { createLexicalIndex, type LexicalIndex } from './lexical';
+import { rerankPageMatches } from './rerank';
+import { extractDomain } from './utils';
+import { generateContentBrief, estimateTargetWordCount, type BriefReference } from './briefs';
+import { analyzeEntities } from './entities';
+import { simulateCitations } from './citations';
+import { classifyQueryIntents, SEARCH_INTENTS } from './intent';
+import { annotateSerpRanks, calculateRankCorrelation } from './rankings';
+import { getLLMProvider } from './llm';
+import { resolvePromptSet, getPromptVersionMap } from './prompts';
+import { meterLLMProvider, meterEmbeddingProvider, meterRerankerProvider } from './usage';
 
 // ============================================================================
-// OpenAI Client Setup
+// Analysis Configuration
 // ============================================================================
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+const MIN_CATEGORY_SIMILARITY = 0.25; // Raw cosine cutoff for the fallback category when the model is uncalibrated
+const CATEGORY_KEYWORD_BONUS = 0.1; // Added when a query contains a category keyword
+const RAW_MATCH_THRESHOLD = 0.7; // Cosine similarity needed for a match without calibration
+const CALIBRATED_MATCH_THRESHOLD = 0.5; // Calibrated score needed for a match (1 = typical relevant pair)
+const DEFAULT_HYBRID_WEIGHTS: HybridWeights = { semantic: 0.7, lexical: 0.3 };
+const PRIORITY_WEIGHTS: Record<QueryPriority, number> = { high: 3, medium: 2, low: 1 };
+const PASSAGE_SNIPPET_LENGTH = 200; // Characters of a best passage kept in matrix cells and head-to-heads
+const DEFAULT_CITATION_QUERIES = 10; // Highest-weight queries sent through the citation simulation
 
 // ============================================================================
 // Core Analysis Functions
 // ============================================================================
 
 /**
- * Generate embedding for a given text using OpenAI's embedding model
+ * Score queries against a page's already-embedded passages.
+ *
+ * When a calibration profile is supplied the pooled cosine similarity is
+ * normalized against the model's baseline, so `similarity` and `matched` mean
+ * the same thing whichever embedding model produced them. The raw cosine
+ * score is kept as `rawSimilarity`.
+ *
+ * In hybrid mode the semantic score is blended with a BM25 score over the same
+ * passages, and both components are reported on the match. Pass a shared
+ * lexical index to score several pages against the same term statistics.
  */
-export async function generateEmbedding(
-  text: string,
-  model: string = 'text-embedding-3-small'
-): Promise<number[]> {
-  try {
-    const response = await openai.embeddings.create({
-      model,
-      input: text.slice(0, 8000), // Limit input length
-    });
+export function scoreQueryMatches(
+  queries: string[],
+  queryEmbeddings: number[][],
+  queryCategories: string[],
+  passages: Passage[],
+  passageEmbeddings: number[][],
+  options: SimilarityOptions = {},
+  lexicalIndex?: LexicalIndex
+): QueryMatch[] {
+  const {
+    pooling = 'max',
+    topK = 3,
+    normalization = 'zscore',
+    calibration,
+    scoring = 'semantic',
+  } = options;
 
-    return response.data[0].embedding;
-  } catch (error) {
-    console.error('Error generating embedding:', error);
-    throw new AnalysisError(
-      'Failed to generate embedding',
-      'EMBEDDING_ERROR',
-      500
+  const calibrated = calibration !== undefined && normalization !== 'none';
+  const threshold = options.threshold ??
+    (calibrated ? CALIBRATED_MATCH_THRESHOLD : RAW_MATCH_THRESHOLD);
+
+  const passageTexts = passages.map(getPassageEmbeddingText);
+  const hybrid = scoring === 'hybrid'
+    ? {
+        index: lexicalIndex || createLexicalIndex(passageTexts),
+        weights: normalizeWeights(options.hybridWeights || DEFAULT_HYBRID_WEIGHTS),
+      }
+    : null;
+
+  const results = queries.map((query, queryIndex) => {
+    const passageScores = passageEmbeddings.map(embedding =>
+      cosineSimilarity(embedding, queryEmbeddings[queryIndex])
     );
-  }
-}
+    const rawSimilarity = poolPassageScores(passageScores, pooling, topK);
+    const semanticScore = calibrated
+      ? calibrateSimilarity(rawSimilarity, calibration, normalization)
+      : rawSimilarity;
+    const bestPassageIndex = passageScores.indexOf(Math.max(...passageScores));
 
-/**
- * Calculate cosine similarity between two vectors
- */
-export function cosineSimilarity(a: number[], b: number[]): number {
-  if (a.length !== b.length) {
-    throw new Error('Vectors must have the same length');
-  }
+    const match: QueryMatch = {
+      query,
+      similarity: semanticScore,
+      rawSimilarity,
+      category: queryCategories[queryIndex],
+      matched: semanticScore >= threshold,
+      context: passages[bestPassageIndex]?.text,
+    };
 
-  let dotProduct = 0;
-  let normA = 0;
-  let normB = 0;
+    if (!hybrid) {
+      return match;
+    }
 
-  for (let i = 0; i < a.length; i++) {
-    dotProduct += a[i] * b[i];
-    normA += a[i] * a[i];
-    normB += b[i] * b[i];
-  }
+    const lexicalScore = poolPassageScores(
+      passageTexts.map(text => hybrid.index.score(query, text)),
+      pooling,
+      topK
+    );
+    const similarity = hybrid.weights.semantic * semanticScore + hybrid.weights.lexical * lexicalScore;
+
+    return {
+      ...match,
+      similarity,
+      semanticScore,
+      lexicalScore,
+      matched: similarity >= threshold,
+    };
+  });
 
-  const magnitude = Math.sqrt(normA) * Math.sqrt(normB);
-  return magnitude === 0 ? 0 : dotProduct / magnitude;
+  return results.sort((a, b) => b.similarity - a.similarity);
 }
 
 /**
- * Generate relevant search queries for a given content/topic
+ * Assign each query to the taxonomy category whose description and examples it
+ * is most similar to. Keyword hits add a small bonus; queries that are not
+ * close to any category fall back to the taxonomy's fallback category.
+ *
+ * "Close" depends on the embedding model: with a calibration profile a query
+ * must beat the model's unrelated-pair 95th percentile, otherwise the raw
+ * MIN_CATEGORY_SIMILARITY cutoff applies.
  */
-export async function generateQueries(
-  content: string,
-  count: number = 20
-): Promise<string[]> {
-  try {
-    const prompt = `Based on the following content, generate ${count} specific, relevant search queries that competitors might rank for. Focus on:
-    - Key topics and themes
-    - Technical terms and concepts
-    - Problem statements the content addresses
-    - Related questions users might ask
-    
-    Content: ${content.slice(0, 3000)}
-    
-    Return ONLY a JSON array of strings, no additional text:`;
-
-    const response = await openai.chat.completions.create({
-      model: 'gpt-3.5-turbo',
-      messages: [{ role: 'user', content: prompt }],
-      temperature: 0.7,
-      max_tokens: 800,
-    });
+export function assignCategories(
+  queries: string[],
+  queryEmbeddings: number[][],
+  taxonomy: Taxonomy,
+  profileEmbeddings: number[][][],
+  calibration?: CalibrationProfile
+): string[] {
+  const fallback = taxonomy.fallbackCategory || 'General';
+  const minSimilarity = calibration ? calibration.baseline.p95 : MIN_CATEGORY_SIMILARITY;
 
-    const result = response.choices[0].message.content;
-    if (!result) {
-      throw new Error('No response from OpenAI');
-    }
+  return queries.map((query, queryIndex) => {
+    const lowerQuery = query.toLowerCase();
+    let bestCategory = fallback;
+    let bestScore = minSimilarity;
 
-    try {
-      return JSON.parse(result);
-    } catch {
-      // Fallback: extract queries from text response
-      const lines = result.split('\n').filter(line => 
-        line.trim() && !line.includes('[') && !line.includes(']')
+    taxonomy.categories.forEach((category, categoryIndex) => {
+      const similarity = Math.max(
+        ...profileEmbeddings[categoryIndex].map(embedding =>
+          cosineSimilarity(embedding, queryEmbeddings[queryIndex])
+        )
       );
-      return lines.map(line => line.replace(/^\d+\.?\s*["\']?/, '').replace(/["\']?$/, '')).slice(0, count);
-    }
-  } catch (error) {
-    console.error('Error generating queries:', error);
-    // Return some default queries if generation fails
-    return [
-      'content marketing strategies',
-      'SEO best practices',
-      'digital marketing tips',
-      'online business growth',
-      'website optimization'
-    ].slice(0, count);
-  }
+      const keywordHit = (category.keywords || []).some(keyword =>
+        lowerQuery.includes(keyword.toLowerCase())
+      );
+      const score = similarity + (keywordHit ? CATEGORY_KEYWORD_BONUS : 0);
+
+      if (score > bestScore) {
+        bestScore = score;
+        bestCategory = category.name;
+      }
+    });
+
+    return bestCategory;
+  });
 }
 
 /**
- * Analyze content similarity between target and queries
+ * Load the calibration profile for the requested normalization. Analysis
+ * continues on raw cosine scores if the profile cannot be built.
  */
-export async function analyzeContentSimilarity(
-  targetContent: string,
-  queries: string[],
-  threshold: number = 0.7
-): Promise<QueryMatch[]> {
-  try {
-    // Generate embedding for target content
-    const targetEmbedding = await generateEmbedding(targetContent);
-
-    const results: QueryMatch[] = [];
-
-    // Process queries in batches to avoid rate limits
-    const batchSize = 5;
-    for (let i = 0; i < queries.length; i += batchSize) {
-      const batch = queries.slice(i, i + batchSize);
-      
-      const batchPromises = batch.map(async (query) => {
-        try {
-          const queryEmbedding = await generateEmbedding(query);
-          const similarity = cosineSimilarity(targetEmbedding, queryEmbedding);
-          
-          return {
-            query,
-            similarity,
-            category: categorizeQuery(query),
-            matched: similarity >= threshold,
-            context: extractRelevantContext(targetContent, query),
-          };
-        } catch (error) {
-          console.error(`Error processing query "${query}":`, error);
-          return {
-            query,
-            similarity: 0,
-            category: 'general',
-            matched: false,
-          };
-        }
-      });
+async function resolveCalibration(
+  embeddingProvider: EmbeddingProvider,
+  options: SimilarityOptions
+): Promise<{ normalization: NormalizationMethod; calibration?: CalibrationProfile }> {
+  const normalization = options.normalization || 'zscore';
 
-      const batchResults = await Promise.all(batchPromises);
-      results.push(...batchResults);
+  if (normalization === 'none') {
+    return { normalization };
+  }
 
-      // Add delay between batches to respect rate limits
-      if (i + batchSize < queries.length) {
-        await new Promise(resolve => setTimeout(resolve, 500));
-      }
-    }
+  if (options.calibration) {
+    return { normalization, calibration: options.calibration };
+  }
 
-    return results.sort((a, b) => b.similarity - a.similarity);
+  try {
+    return { normalization, calibration: await getCalibrationProfile(embeddingProvider) };
   } catch (error) {
-    console.error('Error analyzing content similarity:', error);
-    throw new AnalysisError(
-      'Failed to analyze content similarity',
-      'SIMILARITY_ERROR',
-      500
-    );
+    console.warn('Similarity calibration failed, using raw cosine scores:', error);
+    return { normalization: 'none' };
   }
 }
 
 /**
- * Categorize a query into a relevant topic category
+ * Scale hybrid weights so they sum to 1
  */
-function categorizeQuery(query: string): string {
-  const categories = {
-    'Technical': ['api', 'code', 'programming', 'development', 'technical', 'software'],
-    'Marketing': ['marketing', 'advertising', 'promotion', 'campaign', 'brand'],
-    'SEO': ['seo', 'search', 'ranking', 'optimization', 'keywords'],
-    'Content': ['content', 'blog', 'writing', 'article', 'copywriting'],
-    'Business': ['business', 'strategy', 'growth', 'revenue', 'profit'],
-    'Design': ['design', 'ui', 'ux', 'interface', 'visual'],
-    'Analytics': ['analytics', 'data', 'metrics', 'tracking', 'measurement'],
-  };
-
-  const lowerQuery = query.toLowerCase();
-  
-  for (const [category, keywords] of Object.entries(categories)) {
-    if (keywords.some(keyword => lowerQuery.includes(keyword))) {
-      return category;
-    }
-  }
-
-  return 'General';
+function normalizeWeights(weights: HybridWeights): HybridWeights {
+  const total = weights.semantic + weights.lexical;
+  return total > 0
+    ? { semantic: weights.semantic / total, lexical: weights.lexical / total }
+    : DEFAULT_HYBRID_WEIGHTS;
 }
 
 /**
- * Extract relevant context from content for a given query
+ * Split a flat list of embeddings back into the groups of texts it was built from
  */
-function extractRelevantContext(content: string, query: string): string {
-  const sentences = content.split(/[.!?]+/).filter(s => s.trim().length > 0);
-  const queryWords = query.toLowerCase().split(/\s+/);
-  
-  // Find sentences that contain query words
-  const relevantSentences = sentences.filter(sentence => {
-    const lowerSentence = sentence.toLowerCase();
-    return queryWords.some(word => lowerSentence.includes(word));
+function groupEmbeddings(embeddings: number[][], groups: string[][]): number[][][] {
+  let offset = 0;
+  return groups.map(group => {
+    const slice = embeddings.slice(offset, offset + group.length);
+    offset += group.length;
+    return slice;
   });
-
-  return relevantSentences.slice(0, 2).join('. ').slice(0, 200);
 }
 
 /**
- * Calculate category scores from query matches
+ * Calculate category scores from query matches.
+ *
+ * `score` is the weight-averaged similarity of the category's queries and
+ * `unweightedScore` the plain average; they are equal when no query carries a
+ * weight.
  */
 export function calculateCategoryScores(queryMatches: QueryMatch[]): CategoryScore[] {
-  const categories = new Map<string, { matched: number; total: number; scores: number[] }>();
+  const categories = new Map<string, { matched: number; total: number; scores: number[]; weights: number[] }>();
 
   for (const match of queryMatches) {
     if (!categories.has(match.category)) {
-      categories.set(match.category, { matched: 0, total: 0, scores: [] });
+      categories.set(match.category, { matched: 0, total: 0, scores: [], weights: [] });
     }
 
     const categoryData = categories.get(match.category)!;
     categoryData.total++;
     categoryData.scores.push(match.similarity);
+    categoryData.weights.push(match.weight ?? 1);
     
     if (match.matched) {
       categoryData.matched++;
     }
   }
 
-  return Array.from(categories.entries()).map(([category, data]) => ({
-    category,
-    score: Math.round((data.scores.reduce((sum, score) => sum + score, 0) / data.scores.length) * 100),
-    maxScore: 100,
-    matchedQueries: data.matched,
-    totalQueries: data.total,
-  }));
+  return Array.from(categories.entries()).map(([category, data]) => {
+    const totalWeight = data.weights.reduce((sum, weight) => sum + weight, 0);
+    const weightedSum = data.scores.reduce((sum, score, index) => sum + score * data.weights[index], 0);
+    const average = data.scores.reduce((sum, score) => sum + score, 0) / data.scores.length;
+
+    return {
+      category,
+      score: Math.round((totalWeight > 0 ? weightedSum / totalWeight : average) * 100),
+      unweightedScore: Math.round(average * 100),
+      weight: totalWeight / data.total,
+      maxScore: 100,
+      matchedQueries: data.matched,
+      totalQueries: data.total,
+    };
+  });
+}
+
+/**
+ * Roll category scores up into an overall score.
+ *
+ * The weighted score averages weighted category scores, counting each
+ * category by its average query weight; with no weights this is the plain
+ * average of the categories. The unweighted score ignores weights entirely.
+ */
+export function calculateOverallScore(
+  categoryScores: CategoryScore[]
+): { score: number; unweightedScore: number } {
+  if (categoryScores.length === 0) {
+    return { score: 0, unweightedScore: 0 };
+  }
+
+  const totalWeight = categoryScores.reduce((sum, s) => sum + s.weight, 0);
+  const weighted = totalWeight > 0
+    ? categoryScores.reduce((sum, s) => sum + s.score * s.weight, 0) / totalWeight
+    : categoryScores.reduce((sum, s) => sum + s.score, 0) / categoryScores.length;
+
+  return {
+    score: Math.round(weighted),
+    unweightedScore: Math.round(
+      categoryScores.reduce((sum, s) => sum + s.unweightedScore, 0) / categoryScores.length
+    ),
+  };
 }
 
 /**
@@ -283,14 +338,73 @@ export function generateRadarData(
 }
 
 /**
- * Identify coverage gaps and generate recommendations
+ * Build the query x URL coverage matrix from each page's query matches.
+ * The first match set is the target's; the rest follow the competitor order.
+ */
+export function buildCoverageMatrix(
+  querySet: AnalysisQuery[],
+  urls: string[],
+  matchSets: QueryMatch[][]
+): CoverageMatrix {
+  const lookups = matchSets.map(matches => new Map(matches.map(m => [m.query, m])));
+
+  const rows = querySet.map(({ query, fanOutType, weight, intent, source }) => ({
+    query,
+    category: lookups[0].get(query)?.category || 'General',
+    fanOutType,
+    weight,
+    intent,
+    source,
+    cells: urls.map((url, index) => {
+      const match = lookups[index].get(query);
+      return {
+        url,
+        similarity: match?.similarity ?? 0,
+        matched: match?.matched ?? false,
+        passage: match?.context?.slice(0, PASSAGE_SNIPPET_LENGTH),
+        serpRank: match?.serpRank,
+      };
+    }),
+  }));
+
+  return { urls, rows };
+}
+
+/**
+ * Find the queries every competitor covers but the target does not
+ */
+export function findUncoveredQueries(matrix: CoverageMatrix): CoverageMatrix['rows'] {
+  if (matrix.urls.length < 2) {
+    return [];
+  }
+
+  return matrix.rows.filter(row => {
+    const [target, ...competitors] = row.cells;
+    return !target.matched && competitors.every(cell => cell.matched);
+  });
+}
+
+/**
+ * Identify coverage gaps and generate recommendations.
+ *
+ * A category is a gap when the target trails the competitor average, or when
+ * it holds queries every competitor covers but the target does not. Those
+ * queries are listed first in the gap's missing queries.
  */
 export function identifyCoverageGaps(
   targetScores: CategoryScore[],
   competitorResults: CompetitorResult[],
-  queryMatches: QueryMatch[]
+  queryMatches: QueryMatch[],
+  taxonomy: Taxonomy = resolveTaxonomy(),
+  coverageMatrix?: CoverageMatrix
 ): CoverageGap[] {
   const gaps: CoverageGap[] = [];
+  const uncovered = coverageMatrix ? findUncoveredQueries(coverageMatrix) : [];
+  const weightOf = new Map(queryMatches.map(q => [q.query, q.weight ?? 1]));
+  const averageCategoryWeight = targetScores.reduce((sum, s) => sum + s.weight, 0) /
+    Math.max(targetScores.length, 1);
+  const byWeight = (a: string, b: string) => (weightOf.get(b) ?? 1) - (weightOf.get(a) ?? 1);
+  const impacts = new Map<string, number>();
 
   for (const targetCategory of targetScores) {
     const competitorAvg = competitorResults.reduce((sum, competitor) => {
@@ -298,11 +412,17 @@ export function identifyCoverageGaps(
       return sum + score;
     }, 0) / Math.max(competitorResults.length, 1);
 
-    if (targetCategory.score < competitorAvg - 10) { // 10-point gap threshold
-      const missingQueries = queryMatches
-        .filter(q => q.category === targetCategory.category && !q.matched)
+    const uncoveredInCategory = uncovered
+      .filter(row => row.category === targetCategory.category)
+      .map(row => row.query)
+      .sort(byWeight);
+
+    if (targetCategory.score < competitorAvg - 10 || uncoveredInCategory.length > 0) { // 10-point gap threshold
+      const unmatched = queryMatches
+        .filter(q => q.category === targetCategory.category && !q.matched && !uncoveredInCategory.includes(q.query))
         .map(q => q.query)
-        .slice(0, 5);
+        .sort(byWeight);
+      const missingQueries = [...uncoveredInCategory, ...unmatched].slice(0, 5);
 
       const competitorUrls = competitorResults
         .filter(c => {
@@ -311,40 +431,118 @@ export function identifyCoverageGaps(
         })
         .map(c => c.url);
 
-      const priority = targetCategory.score < competitorAvg - 30 ? 'high' as const :
-                      targetCategory.score < competitorAvg - 20 ? 'medium' as const : 'low' as const;
+      // Weight the score gap by how important the category's queries are
+      const relativeWeight = averageCategoryWeight > 0 ? targetCategory.weight / averageCategoryWeight : 1;
+      const impact = (competitorAvg - targetCategory.score) * relativeWeight;
+      impacts.set(targetCategory.category, impact);
+
+      const priority = impact > 30 ? 'high' as const :
+                      impact > 20 ? 'medium' as const : 'low' as const;
 
       gaps.push({
         category: targetCategory.category,
         missingQueries,
         competitorUrls,
         priority,
-        recommendation: generateRecommendation(targetCategory.category, missingQueries),
+        recommendation: generateRecommendation(taxonomy, targetCategory.category, missingQueries),
       });
     }
   }
 
   return gaps.sort((a, b) => {
     const priorityOrder = { high: 3, medium: 2, low: 1 };
-    return priorityOrder[b.priority] - priorityOrder[a.priority];
+    return priorityOrder[b.priority] - priorityOrder[a.priority] ||
+      (impacts.get(b.category) ?? 0) - (impacts.get(a.category) ?? 0);
   });
 }
 
 /**
- * Generate specific recommendations for coverage gaps
+ * Compare one competitor with the target: the categories where the competitor
+ * scores higher, and the queries it matches that the target does not, with
+ * the competitor's winning passage for each
  */
-function generateRecommendation(category: string, missingQueries: string[]): string {
-  const recommendations: Record<string, string> = {
-    'Technical': 'Consider adding technical documentation, code examples, and implementation guides',
-    'Marketing': 'Develop marketing-focused content like case studies, campaign analyses, and strategy guides',
-    'SEO': 'Create SEO-focused content including keyword research, optimization guides, and ranking strategies',
-    'Content': 'Expand content variety with different formats, topics, and audience segments',
-    'Business': 'Add business strategy content, growth tactics, and industry insights',
-    'Design': 'Include design resources, UI/UX guides, and visual examples',
-    'Analytics': 'Provide data analysis content, metrics guides, and tracking tutorials',
-  };
+export function buildHeadToHead(
+  targetScores: CategoryScore[],
+  targetMatches: QueryMatch[],
+  competitorScores: CategoryScore[],
+  competitorMatches: QueryMatch[]
+): HeadToHead {
+  const targetByQuery = new Map(targetMatches.map(m => [m.query, m]));
 
-  const baseRecommendation = recommendations[category] || 'Create more comprehensive content in this area';
+  const categoriesWon = competitorScores
+    .map(competitorScore => {
+      const targetScore = targetScores.find(s => s.category === competitorScore.category)?.score || 0;
+      return {
+        category: competitorScore.category,
+        competitorScore: competitorScore.score,
+        targetScore,
+        difference: competitorScore.score - targetScore,
+      };
+    })
+    .filter(category => category.difference > 0)
+    .sort((a, b) => b.difference - a.difference);
+
+  const queriesWon = competitorMatches
+    .filter(match => match.matched && !targetByQuery.get(match.query)?.matched)
+    .sort((a, b) => (b.weight ?? 1) - (a.weight ?? 1) || b.similarity - a.similarity)
+    .slice(0, 10)
+    .map(match => ({
+      query: match.query,
+      category: match.category,
+      competitorSimilarity: match.similarity,
+      targetSimilarity: targetByQuery.get(match.query)?.similarity ?? 0,
+      passage: match.context?.slice(0, PASSAGE_SNIPPET_LENGTH),
+    }));
+
+  return { categoriesWon, queriesWon };
+}
+
+/**
+ * Turn a head-to-head comparison into concrete recommendations
+ */
+function generateCompetitorRecommendations(
+  headToHead: HeadToHead,
+  taxonomy: Taxonomy,
+  competitorName: string
+): string[] {
+  const recommendations: string[] = [];
+
+  for (const category of headToHead.categoriesWon.slice(0, 2)) {
+    const queries = headToHead.queriesWon
+      .filter(q => q.category === category.category)
+      .map(q => `"${q.query}"`)
+      .slice(0, 3);
+
+    recommendations.push(
+      `${category.category}: ${competitorName} leads by ${category.difference} points (${category.competitorScore} vs ${category.targetScore}). ` +
+      (queries.length > 0
+        ? `Answer ${queries.join(', ')} the way they do.`
+        : `${getCategoryRecommendation(taxonomy, category.category)}.`)
+    );
+  }
+
+  const coveredCategories = new Set(headToHead.categoriesWon.slice(0, 2).map(c => c.category));
+  for (const query of headToHead.queriesWon) {
+    if (recommendations.length >= 5) break;
+    if (coveredCategories.has(query.category)) continue;
+
+    recommendations.push(
+      `Cover "${query.query}": they match it (${Math.round(query.competitorSimilarity * 100)}% vs your ${Math.round(query.targetSimilarity * 100)}%)`
+    );
+  }
+
+  return recommendations;
+}
+
+/**
+ * Generate specific recommendations for coverage gaps
+ */
+function generateRecommendation(
+  taxonomy: Taxonomy,
+  category: string,
+  missingQueries: string[]
+): string {
+  const baseRecommendation = getCategoryRecommendation(taxonomy, category);
   
   if (missingQueries.length > 0) {
     return `${baseRecommendation}. Focus on topics like: ${missingQueries.slice(0, 3).join(', ')}.`;
@@ -353,49 +551,380 @@ function generateRecommendation(category: string, missingQueries: string[]): str
   return baseRecommendation;
 }
 
+/**
+ * Attach an LLM-written content brief to each coverage gap, built from the
+ * competitor passages that answer the gap's missing queries. Gaps whose brief
+ * fails keep their recommendation and go without a brief.
+ */
+async function attachContentBriefs(
+  gaps: CoverageGap[],
+  competitorContents: ScrapedContent[],
+  competitorMatchSets: Map<string, QueryMatch[]>,
+  llm: LLMProvider,
+  template: PromptTemplate
+): Promise<CoverageGap[]> {
+  return Promise.all(gaps.map(async gap => {
+    const references: BriefReference[] = [];
+
+    for (const url of gap.competitorUrls) {
+      const matches = competitorMatchSets.get(url) || [];
+      for (const query of gap.missingQueries) {
+        const match = matches.find(m => m.query === query);
+        if (match?.matched && match.context) {
+          references.push({ url, query, passage: match.context });
+        }
+      }
+    }
+
+    const wordCounts = competitorContents
+      .filter(content => gap.competitorUrls.includes(content.url))
+      .map(content => content.metadata?.wordCount || 0);
+
+    try {
+      const brief = await generateContentBrief(
+        gap,
+        references.slice(0, 8),
+        estimateTargetWordCount(wordCounts),
+        llm,
+        template
+      );
+      return { ...gap, brief };
+    } catch (error) {
+      console.warn(`Content brief for ${gap.category} failed:`, error);
+      return gap;
+    }
+  }));
+}
+
+/**
+ * Calculate coverage for each query fan-out branch
+ */
+export function calculateFanOutCoverage(
+  targetMatches: QueryMatch[],
+  competitorMatches: QueryMatch[][]
+): FanOutCoverage[] {
+  const scoreOf = (matches: QueryMatch[]) => matches.length > 0
+    ? Math.round((matches.reduce((sum, m) => sum + m.similarity, 0) / matches.length) * 100)
+    : 0;
+
+  return FAN_OUT_TYPES
+    .map(type => {
+      const branchMatches = targetMatches.filter(m => m.fanOutType === type);
+      const competitorScores = competitorMatches.map(matches =>
+        scoreOf(matches.filter(m => m.fanOutType === type))
+      );
+
+      return {
+        type,
+        targetScore: scoreOf(branchMatches),
+        competitorAvg: competitorScores.length > 0
+          ? Math.round(competitorScores.reduce((sum, score) => sum + score, 0) / competitorScores.length)
+          : 0,
+        matchedQueries: branchMatches.filter(m => m.matched).length,
+        totalQueries: branchMatches.length,
+        queries: branchMatches.map(m => m.query),
+      };
+    })
+    .filter(branch => branch.totalQueries > 0);
+}
+
+/**
+ * Calculate coverage for each search intent. Alongside the average score, the
+ * competitors' average matched-query count shows which intents they answer
+ * that the target does not.
+ */
+export function calculateIntentCoverage(
+  targetMatches: QueryMatch[],
+  competitorMatches: QueryMatch[][]
+): IntentCoverage[] {
+  const scoreOf = (matches: QueryMatch[]) => matches.length > 0
+    ? Math.round((matches.reduce((sum, m) => sum + m.similarity, 0) / matches.length) * 100)
+    : 0;
+  const average = (values: number[]) => values.length > 0
+    ? Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 10) / 10
+    : 0;
+
+  return SEARCH_INTENTS
+    .map(intent => {
+      const intentMatches = targetMatches.filter(m => m.intent === intent);
+      const competitorIntentMatches = competitorMatches.map(matches => matches.filter(m => m.intent === intent));
+
+      return {
+        intent,
+        targetScore: scoreOf(intentMatches),
+        competitorAvg: Math.round(average(competitorIntentMatches.map(scoreOf))),
+        matchedQueries: intentMatches.filter(m => m.matched).length,
+        totalQueries: intentMatches.length,
+        competitorMatchedAvg: average(competitorIntentMatches.map(matches => matches.filter(m => m.matched).length)),
+        queries: intentMatches.map(m => m.query),
+      };
+    })
+    .filter(intent => intent.totalQueries > 0);
+}
+
+/**
+ * Copy fan-out type, parent, weight, intent and source from the query set
+ * onto query matches
+ */
+function annotateMatches(matches: QueryMatch[], querySet: AnalysisQuery[]): QueryMatch[] {
+  const byQuery = new Map(querySet.map(q => [q.query, q]));
+
+  return matches.map(match => {
+    const source = byQuery.get(match.query);
+    if (!source) return match;
+
+    const annotated = source.fanOutType
+      ? { ...match, fanOutType: source.fanOutType, parent: source.parent }
+      : match;
+    const weighted = source.weight !== undefined ? { ...annotated, weight: source.weight } : annotated;
+    const labelled = source.intent ? { ...weighted, intent: source.intent } : weighted;
+    return source.source ? { ...labelled, source: source.source } : labelled;
+  });
+}
+
+/**
+ * Turn a request query into an analysis query with a resolved weight.
+ *
+ * An explicit weight wins. Otherwise search volume gives a log-scaled weight
+ * (10 searches/month ~ 2, 10,000 ~ 5) and priority multiplies it (high 3x,
+ * medium 2x, low 1x). Plain strings carry no weight and count as 1.
+ */
+export function toAnalysisQuery(input: QueryInput): AnalysisQuery {
+  if (typeof input === 'string') {
+    return { query: input, source: 'provided' };
+  }
+
+  if (input.weight !== undefined) {
+    return { query: input.query, weight: input.weight, source: 'provided' };
+  }
+
+  if (input.volume === undefined && input.priority === undefined) {
+    return { query: input.query, source: 'provided' };
+  }
+
+  const volumeWeight = input.volume !== undefined ? 1 + Math.log10(input.volume + 1) : 1;
+  const priorityWeight = input.priority ? PRIORITY_WEIGHTS[input.priority] : 1;
+
+  return { query: input.query, weight: Math.round(volumeWeight * priorityWeight * 100) / 100, source: 'provided' };
+}
+
+/**
+ * Merge query lists, keeping the first occurrence of each query
+ */
+function mergeQueries(...lists: AnalysisQuery[][]): AnalysisQuery[] {
+  const seen = new Set<string>();
+  const merged: AnalysisQuery[] = [];
+
+  for (const query of lists.flat()) {
+    const key = query.query.trim().toLowerCase();
+    if (key && !seen.has(key)) {
+      seen.add(key);
+      merged.push(query);
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * The queries to analyze: the given ones, deduplicated, plus a fan-out of the
+ * seed topic when fewer than 10 were given and query generation is on
+ */
+export async function buildQuerySet(
+  customQueries: AnalysisQuery[],
+  targetContent: ScrapedContent,
+  options: AnalysisOptions = {}
+): Promise<AnalysisQuery[]> {
+  const querySet = mergeQueries(customQueries);
+  if (querySet.length >= 10 || options.generateQueries === false) {
+    return querySet;
+  }
+
+  const fanOut = await expandQueryFanOut(
+    options.seedQuery || targetContent.title,
+    targetContent.content,
+    {
+      types: options.fanOutTypes,
+      queriesPerType: options.queriesPerFanOutType,
+      llm: meterLLMProvider(options.llm || getLLMProvider(), options.usage?.track('fan-out')),
+      prompt: (options.prompts || resolvePromptSet())['query-fanout'],
+    }
+  );
+  return mergeQueries(querySet, fanOut);
+}
+
+/**
+ * Indexes of the highest-weight queries, for the citation simulation.
+ * Unweighted queries count as weight 1; ties keep query order.
+ */
+function selectCitationQueries(
+  querySet: AnalysisQuery[],
+  limit: number = DEFAULT_CITATION_QUERIES
+): number[] {
+  return querySet
+    .map((query, index) => ({ weight: query.weight ?? 1, index }))
+    .sort((a, b) => b.weight - a.weight || a.index - b.index)
+    .slice(0, limit)
+    .map(query => query.index);
+}
+
 /**
  * Main analysis function that orchestrates the entire process
  */
 export async function performContentAnalysis(
   targetContent: ScrapedContent,
   competitorContents: ScrapedContent[],
-  customQueries: string[] = []
+  customQueries: AnalysisQuery[],
+  embeddingProvider: EmbeddingProvider,
+  options: AnalysisOptions = {}
 ): Promise<AnalysisResult> {
   const startTime = Date.now();
+  const llm = options.llm || getLLMProvider();
+  const prompts = options.prompts || resolvePromptSet();
+  const usage = options.usage;
   
   try {
-    // Generate queries if not provided
-    let allQueries = [...customQueries];
-    if (allQueries.length < 10) {
-      const generatedQueries = await generateQueries(targetContent.content, 20 - allQueries.length);
-      allQueries = [...allQueries, ...generatedQueries];
+    let querySet = await buildQuerySet(customQueries, targetContent, { ...options, llm, prompts });
+
+    if (querySet.length === 0) {
+      throw new AnalysisError('No queries available for analysis', 'NO_QUERIES', 400);
+    }
+
+    // Label every query with its search intent
+    const intentClassification = await classifyQueryIntents(
+      querySet.map(q => q.query),
+      options.intentClassifier,
+      meterLLMProvider(llm, usage?.track('intent')),
+      prompts['intent-classification']
+    );
+    querySet = querySet.map((q, index) => ({ ...q, intent: intentClassification.intents[index] }));
+
+    const allQueries = querySet.map(q => q.query);
+
+    // Embed queries, taxonomy profiles and every page's passages together so
+    // shared texts are embedded once
+    const categoryMode = options.categoryMode || 'taxonomy';
+    let taxonomy = options.taxonomy || resolveTaxonomy();
+    const profileTexts = categoryMode === 'taxonomy'
+      ? taxonomy.categories.map(getCategoryProfileTexts)
+      : [];
+    const pagePassages = [targetContent, ...competitorContents].map(page =>
+      splitIntoPassages(page.content, { passageSize: options.passageSize })
+    );
+    const passageTexts = pagePassages.map(passages => passages.map(getPassageEmbeddingText));
+
+    const groups = [allQueries, ...profileTexts, ...passageTexts];
+    const [queryEmbeddings, ...rest] = groupEmbeddings(
+      await embedTexts(meterEmbeddingProvider(embeddingProvider, usage?.track('embedding')), groups.flat()),
+      groups
+    );
+    const profileEmbeddings = rest.slice(0, profileTexts.length);
+    const pagePassageEmbeddings = rest.slice(profileTexts.length);
+
+    // Normalize similarities against this embedding model's baseline
+    const { normalization, calibration } = await resolveCalibration(
+      meterEmbeddingProvider(embeddingProvider, usage?.track('calibration')),
+      options
+    );
+    const scoringOptions: SimilarityOptions = { ...options, normalization, calibration };
+    const scoring = options.scoring || 'semantic';
+
+    // Hybrid scoring shares one BM25 index so term weights are the same for every page
+    const lexicalIndex = scoring === 'hybrid'
+      ? createLexicalIndex(passageTexts.flat())
+      : undefined;
+
+    // Categorize queries with the taxonomy, or by clustering them into emergent topics
+    let queryCategories: string[];
+    let topicClusters: TopicCluster[] | undefined;
+    if (categoryMode === 'clusters') {
+      const clustered = await clusterQueries(allQueries, queryEmbeddings, {
+        llm: meterLLMProvider(llm, usage?.track('clustering')),
+        prompt: prompts['cluster-naming'],
+      });
+      taxonomy = clustered.taxonomy;
+      queryCategories = clustered.categories;
+      topicClusters = clustered.clusters;
+    } else {
+      queryCategories = assignCategories(allQueries, queryEmbeddings, taxonomy, profileEmbeddings, calibration);
+    }
+
+    // Score every page against the query set
+    let pageMatches = pagePassages.map((passages, index) =>
+      annotateMatches(
+        scoreQueryMatches(
+          allQueries,
+          queryEmbeddings,
+          queryCategories,
+          passages,
+          pagePassageEmbeddings[index],
+          scoringOptions,
+          lexicalIndex
+        ),
+        querySet
+      )
+    );
+
+    // Optionally rerank each query's best passages; reranked relevance becomes the score
+    let reranker: AnalysisResult['reranker'];
+    if (options.reranker) {
+      try {
+        pageMatches = await rerankPageMatches(
+          allQueries,
+          queryEmbeddings,
+          pagePassages,
+          pagePassageEmbeddings,
+          pageMatches,
+          meterRerankerProvider(options.reranker, usage?.track('rerank'))
+        );
+        reranker = { provider: options.reranker.name, model: options.reranker.model };
+      } catch (error) {
+        console.warn('Reranking failed, keeping embedding scores:', error);
+      }
+    }
+
+    // Record where each page ranks on Google for the queries that were searched
+    const serpSearches = (options.serpSearches || [])
+      .filter(search => allQueries.some(query => query.toLowerCase() === search.query.toLowerCase()));
+    if (serpSearches.length > 0) {
+      pageMatches = annotateSerpRanks(
+        pageMatches,
+        [targetContent.url, ...competitorContents.map(content => content.url)],
+        serpSearches
+      );
     }
 
     // Analyze target content
-    const targetMatches = await analyzeContentSimilarity(targetContent.content, allQueries);
+    const targetMatches = pageMatches[0];
     const targetCategoryScores = calculateCategoryScores(targetMatches);
-    const targetOverallScore = Math.round(
-      targetCategoryScores.reduce((sum, score) => sum + score.score, 0) / targetCategoryScores.length
-    );
+    const targetOverall = calculateOverallScore(targetCategoryScores);
 
     // Analyze competitor content
     const competitorResults: CompetitorResult[] = [];
+    const competitorMatchSets: QueryMatch[][] = [];
     
-    for (const competitorContent of competitorContents) {
+    for (const [index, competitorContent] of competitorContents.entries()) {
       try {
-        const competitorMatches = await analyzeContentSimilarity(competitorContent.content, allQueries);
+        const competitorMatches = pageMatches[index + 1];
         const competitorCategoryScores = calculateCategoryScores(competitorMatches);
-        const overallScore = Math.round(
-          competitorCategoryScores.reduce((sum, score) => sum + score.score, 0) / competitorCategoryScores.length
+        const overall = calculateOverallScore(competitorCategoryScores);
+        const headToHead = buildHeadToHead(
+          targetCategoryScores,
+          targetMatches,
+          competitorCategoryScores,
+          competitorMatches
         );
 
+        competitorMatchSets.push(competitorMatches);
         competitorResults.push({
           url: competitorContent.url,
           title: competitorContent.title,
-          overallScore,
+          overallScore: overall.score,
+          unweightedScore: overall.unweightedScore,
           categoryScores: competitorCategoryScores,
           topQueries: competitorMatches.filter(m => m.matched).slice(0, 10),
-          recommendations: [], // Could be enhanced with specific recommendations
+          headToHead,
+          recommendations: generateCompetitorRecommendations(headToHead, taxonomy, extractDomain(competitorContent.url)),
         });
       } catch (error) {
         console.error(`Error analyzing competitor ${competitorContent.url}:`, error);
@@ -404,26 +933,109 @@ export async function performContentAnalysis(
     }
 
     // Generate insights
+    const coverageMatrix = buildCoverageMatrix(
+      querySet,
+      [targetContent.url, ...competitorResults.map(c => c.url)],
+      [targetMatches, ...competitorMatchSets]
+    );
     const radarData = generateRadarData(targetCategoryScores, competitorResults);
-    const coverageGaps = identifyCoverageGaps(targetCategoryScores, competitorResults, targetMatches);
+    const coverageGaps = identifyCoverageGaps(
+      targetCategoryScores,
+      competitorResults,
+      targetMatches,
+      taxonomy,
+      coverageMatrix
+    );
+    const fanOutCoverage = calculateFanOutCoverage(targetMatches, competitorMatchSets);
+    const intentCoverage = calculateIntentCoverage(targetMatches, competitorMatchSets);
+    const rankTracking: AnalysisResult['rankTracking'] = serpSearches.length > 0
+      ? {
+          queries: allQueries.filter(query => targetMatches.some(m => m.query === query && m.serpRank)),
+          correlation: calculateRankCorrelation([targetMatches, ...competitorMatchSets]),
+        }
+      : undefined;
+    const briefedGaps = options.generateBriefs
+      ? await attachContentBriefs(
+          coverageGaps,
+          competitorContents,
+          new Map(competitorResults.map((c, index) => [c.url, competitorMatchSets[index]])),
+          meterLLMProvider(llm, usage?.track('briefs')),
+          prompts['content-brief']
+        )
+      : coverageGaps;
+    const entityAnalysis = options.analyzeEntities
+      ? await analyzeEntities(
+          targetContent,
+          competitorContents.filter(content => competitorResults.some(c => c.url === content.url)),
+          meterLLMProvider(llm, usage?.track('entities')),
+          prompts['entity-extraction']
+        )
+      : undefined;
+
+    // Simulate an AI answer engine citing the pages for the most important queries
+    let citationAnalysis: AnalysisResult['citationAnalysis'];
+    if (options.simulateCitations) {
+      const citationQueries = selectCitationQueries(querySet, options.citationQueries);
+      citationAnalysis = await simulateCitations(
+        citationQueries.map(index => allQueries[index]),
+        citationQueries.map(index => queryEmbeddings[index]),
+        pagePassages
+          .map((passages, index) => ({
+            url: index === 0 ? targetContent.url : competitorContents[index - 1].url,
+            passages,
+            passageEmbeddings: pagePassageEmbeddings[index],
+          }))
+          .filter((page, index) => index === 0 || competitorResults.some(c => c.url === page.url)),
+        meterLLMProvider(llm, usage?.track('citations')),
+        prompts['citation-answer']
+      );
+    }
+    const citationShares = new Map(citationAnalysis?.urls.map(url => [url.url, url.share]));
 
     const processingTime = Date.now() - startTime;
 
     return {
       analysisId: `analysis_${Date.now()}_${Math.random().toString(36).slice(2)}`,
       targetUrl: targetContent.url,
-      targetScore: targetOverallScore,
+      targetScore: targetOverall.score,
+      targetUnweightedScore: targetOverall.unweightedScore,
       targetTitle: targetContent.title,
-      competitorResults,
+      targetCitationShare: citationShares.get(targetContent.url),
+      competitorResults: citationAnalysis
+        ? competitorResults.map(c => ({ ...c, citationShare: citationShares.get(c.url) }))
+        : competitorResults,
       radarData,
-      coverageGaps,
+      coverageGaps: briefedGaps,
       recommendations: generateOverallRecommendations(coverageGaps, targetCategoryScores),
       queries: allQueries,
+      querySet,
+      fanOutCoverage,
+      intentCoverage,
+      intentClassifier: intentClassification.classifier,
+      intentFallback: intentClassification.fallback,
+      rankTracking,
+      coverageMatrix,
+      uncoveredQueries: findUncoveredQueries(coverageMatrix).map(row => row.query),
+      taxonomy,
+      categoryMode,
+      topicClusters,
+      normalization,
+      calibration,
+      scoring,
+      reranker,
+      entityAnalysis,
+      citationAnalysis,
+      llm: { provider: llm.name, model: llm.model },
+      promptVersions: getPromptVersionMap(prompts),
+      usage: usage?.report(),
       timestamp: new Date().toISOString(),
       processingTime,
     };
   } catch (error) {
     console.error('Error performing content analysis:', error);
+    if (error instanceof AnalysisError || error instanceof RateLimitError) {
+      throw error;
+    }
     throw new AnalysisError(
       'Failed to complete content analysis',
       'ANALYSIS_ERROR',
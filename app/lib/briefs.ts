@@ -0,0 +1,138 @@
+import { z } from 'zod';
+import {
+  type ContentBrief,
+  type CoverageGap,
+  type LLMProvider,
+  type PromptTemplate,
+  AnalysisError,
+  StructuredOutputError,
+} from './types';
+import { generateStructured } from './structured';
+import { getLLMProvider } from './llm';
+import { getLatestPromptTemplate, renderPrompt } from './prompts';
+
+// ============================================================================
+// Content Brief Configuration
+// ============================================================================
+
+const DEFAULT_WORD_COUNT = 1200; // Used when no reference page reports a word count
+const MIN_WORD_COUNT = 500;
+const MAX_WORD_COUNT = 4000;
+const MAX_REFERENCE_PASSAGE = 800; // Characters of each competitor passage sent to the model
+
+export interface BriefReference {
+  url: string;
+  query: string;
+  passage: string;
+}
+
+const BriefResponseSchema = z.object({
+  title: z.string().min(1),
+  outline: z.array(z.object({
+    level: z.union([z.literal(2), z.literal(3)]),
+    heading: z.string().min(1),
+  })).min(1),
+  questions: z.array(z.string().min(1)),
+  entities: z.array(z.string().min(1)),
+});
+
+// ============================================================================
+// Content Briefs
+// ============================================================================
+
+/**
+ * Write a content brief for a coverage gap from its missing queries and the
+ * competitor passages that already answer them. Reference URLs are the pages
+ * those passages came from, or the gap's competitors when no passage matched.
+ */
+export async function generateContentBrief(
+  gap: CoverageGap,
+  references: BriefReference[],
+  targetWordCount: number,
+  llm: LLMProvider = getLLMProvider(),
+  template: PromptTemplate = getLatestPromptTemplate('content-brief')
+): Promise<ContentBrief> {
+  const referenceList = references
+    .map((reference, index) =>
+      `[${index + 1}] ${reference.url} (answers "${reference.query}"):\n${reference.passage.slice(0, MAX_REFERENCE_PASSAGE)}`
+    )
+    .join('\n\n');
+
+  const prompt = renderPrompt(template, {
+    category: gap.category,
+    missingQueries: gap.missingQueries.map(query => `- ${query}`).join('\n'),
+    references: referenceList || '(none available)',
+  });
+
+  try {
+    const parsed = await generateStructured({
+      task: 'content brief',
+      prompt,
+      schema: BriefResponseSchema,
+      generate: (attemptPrompt) => llm.generate(attemptPrompt, { json: true, temperature: 0.4, maxTokens: 1200 }),
+    });
+
+    return {
+      category: gap.category,
+      title: parsed.title.trim(),
+      outline: parsed.outline.map(section => ({ ...section, heading: section.heading.trim() })),
+      questions: parsed.questions.map(question => question.trim()),
+      entities: Array.from(new Set(parsed.entities.map(entity => entity.trim()))),
+      targetWordCount,
+      referenceUrls: references.length > 0
+        ? Array.from(new Set(references.map(reference => reference.url)))
+        : gap.competitorUrls,
+      generatedAt: new Date().toISOString(),
+    };
+  } catch (error) {
+    console.error('Error generating content brief:', error);
+    if (error instanceof StructuredOutputError) {
+      throw error;
+    }
+    throw new AnalysisError(
+      'Failed to generate content brief',
+      'BRIEF_ERROR',
+      500
+    );
+  }
+}
+
+/**
+ * Target word count for a brief: the average length of the reference
+ * competitor pages, rounded to the nearest hundred and kept within bounds
+ */
+export function estimateTargetWordCount(referenceWordCounts: number[]): number {
+  const counts = referenceWordCounts.filter(count => count > 0);
+  if (counts.length === 0) {
+    return DEFAULT_WORD_COUNT;
+  }
+
+  const average = counts.reduce((sum, count) => sum + count, 0) / counts.length;
+  return Math.min(MAX_WORD_COUNT, Math.max(MIN_WORD_COUNT, Math.round(average / 100) * 100));
+}
+
+/**
+ * Render a content brief as Markdown
+ */
+export function formatBriefAsMarkdown(brief: ContentBrief): string {
+  const lines = [
+    `# ${brief.title}`,
+    '',
+    `**Category:** ${brief.category}  `,
+    `**Target word count:** ~${brief.targetWordCount}`,
+    '',
+    '## Outline',
+    ...brief.outline.map(section => `${section.level === 2 ? '-' : '  -'} ${section.heading}`),
+    '',
+    '## Questions to Answer',
+    ...brief.questions.map(question => `- ${question}`),
+    '',
+    '## Entities to Mention',
+    ...brief.entities.map(entity => `- ${entity}`),
+    '',
+    '## Reference Competitors',
+    ...brief.referenceUrls.map(url => `- ${url}`),
+  ];
+
+  return lines.join('\n');
+}
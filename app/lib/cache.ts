@@ -1,10 +1,11 @@
-import { type EmbeddingCache } from './types';
+import { type EmbeddingCache, type CalibrationProfile } from './types';
 
 // ============================================================================
 // Cache Configuration
 // ============================================================================
 
 const CACHE_TTL = 86400; // 24 hours in seconds
+const CALIBRATION_TTL = 30 * 86400; // 30 days; profiles only change with the model
 const MAX_MEMORY_CACHE_SIZE = 1000; // Maximum items in memory cache
 
 // In-memory cache as fallback
@@ -15,11 +16,15 @@ const memoryCache = new Map<string, { data: any; expires: number }>();
 // ============================================================================
 
 let redisClient: any = null;
+let redisDisabledLogged = false;
 
 // Initialize Redis client if environment variables are available
 async function initRedisClient(): Promise<any> {
   // Temporarily disable Redis for faster development
-  console.log('Redis disabled for development, using in-memory cache');
+  if (!redisDisabledLogged) {
+    console.log('Redis disabled for development, using in-memory cache');
+    redisDisabledLogged = true;
+  }
   return null;
   
   // TODO: Re-enable Redis for production
@@ -194,13 +199,33 @@ export async function getCachedEmbedding(
   const cacheKey = generateCacheKey(text, `embedding:${model}`);
   const cached = await getCache(cacheKey);
   
-  if (cached && cached.embedding) {
+  // Keys are short hashes, so confirm the entry belongs to this exact text
+  if (cached && cached.embedding && cached.text === text) {
     return cached.embedding;
   }
   
   return null;
 }
 
+/**
+ * Store a similarity calibration profile for an embedding model
+ */
+export async function setCachedCalibration(
+  profileKey: string,
+  profile: CalibrationProfile
+): Promise<void> {
+  await setCache(`calibration:${profileKey}`, profile, CALIBRATION_TTL);
+}
+
+/**
+ * Get a stored similarity calibration profile for an embedding model
+ */
+export async function getCachedCalibration(
+  profileKey: string
+): Promise<CalibrationProfile | null> {
+  return await getCache(`calibration:${profileKey}`);
+}
+
 /**
  * Cache scraped content
  */
@@ -0,0 +1,219 @@
+import {
+  type CalibrationProfile,
+  type EmbeddingProvider,
+  type NormalizationMethod,
+} from './types';
+import { embedTexts, cosineSimilarity } from './embeddings';
+import { getCachedCalibration, setCachedCalibration } from './cache';
+
+// ============================================================================
+// Calibration Corpus
+// ============================================================================
+
+// Bump when the corpus changes so stored profiles are recomputed
+export const CALIBRATION_CORPUS_VERSION = 'v1';
+
+// Each query is paired with a passage that answers it. The topics are chosen to
+// be unrelated to each other, so query i vs passage i gives the "relevant"
+// distribution and query i vs passage j (i != j) gives the unrelated baseline.
+const CALIBRATION_PAIRS: Array<{ query: string; passage: string }> = [
+  {
+    query: 'how to repot a snake plant',
+    passage: 'Snake plants only need repotting every two to three years. Choose a pot one size larger with drainage holes, use a free-draining cactus mix, and water lightly after moving the root ball.',
+  },
+  {
+    query: 'mortgage refinancing closing costs',
+    passage: 'Refinancing a home loan usually costs 2% to 6% of the principal in closing fees, including appraisal, origination and title insurance charges paid when the new mortgage is signed.',
+  },
+  {
+    query: 'symptoms of vitamin d deficiency',
+    passage: 'Low vitamin D levels often cause fatigue, bone pain, muscle weakness and frequent infections. A blood test measuring 25-hydroxyvitamin D confirms the deficiency.',
+  },
+  {
+    query: 'how to change a bike inner tube',
+    passage: 'Release the brake, remove the wheel, and lever one side of the tyre off the rim. Pull out the punctured tube, check the tyre for thorns, then fit a new tube partially inflated before reseating the tyre.',
+  },
+  {
+    query: 'best time to visit kyoto',
+    passage: 'Kyoto is most popular in late March to early April for cherry blossoms and in November for autumn leaves. Summer is hot and humid, while winter is quiet with fewer tourists.',
+  },
+  {
+    query: 'python list comprehension syntax',
+    passage: 'A list comprehension builds a new list in a single expression: [expression for item in iterable if condition]. It is usually faster and more readable than an equivalent for loop with append.',
+  },
+  {
+    query: 'how long to boil an egg',
+    passage: 'Place eggs in boiling water and cook for 6 minutes for a runny yolk, 8 minutes for jammy, and 10 to 12 minutes for fully hard-boiled. Cool them in ice water to stop the cooking.',
+  },
+  {
+    query: 'causes of the french revolution',
+    passage: 'The French Revolution of 1789 grew out of royal debt, food shortages, an unfair tax system that burdened the Third Estate, and Enlightenment ideas challenging absolute monarchy.',
+  },
+  {
+    query: 'how to train a puppy to sit',
+    passage: 'Hold a treat above the puppy\'s nose and move it slowly back over the head. As its bottom touches the floor, say "sit" and reward immediately. Repeat in short daily sessions.',
+  },
+  {
+    query: 'electric car battery lifespan',
+    passage: 'Most electric vehicle batteries keep 70% to 80% of their capacity after 8 to 10 years. Manufacturers typically warranty packs for 8 years or 100,000 miles.',
+  },
+  {
+    query: 'rules of chess castling',
+    passage: 'Castling moves the king two squares toward a rook, and the rook jumps to the other side of the king. Neither piece may have moved before, and the king cannot castle out of, through or into check.',
+  },
+  {
+    query: 'how to remove red wine stains',
+    passage: 'Blot the spill immediately, then cover it with salt or baking soda to draw out the wine. Rinse with cold water and a mix of dish soap and hydrogen peroxide before laundering.',
+  },
+  {
+    query: 'what is a black hole',
+    passage: 'A black hole is a region of spacetime where gravity is so strong that nothing, not even light, can escape. It forms when a massive star collapses at the end of its life.',
+  },
+  {
+    query: 'marathon training plan for beginners',
+    passage: 'A beginner marathon plan usually lasts 16 to 20 weeks, building weekly mileage gradually with one long run each weekend, easy runs during the week, and a two to three week taper before race day.',
+  },
+  {
+    query: 'how to write a cover letter',
+    passage: 'Open a cover letter by naming the role and why you want it. Use the middle paragraphs to connect two or three achievements to the job description, and close by asking for an interview.',
+  },
+  {
+    query: 'difference between baking soda and baking powder',
+    passage: 'Baking soda is pure sodium bicarbonate and needs an acidic ingredient to make baked goods rise. Baking powder already contains an acid, so it works with neutral liquids like milk.',
+  },
+  {
+    query: 'how solar panels generate electricity',
+    passage: 'Solar panels contain photovoltaic cells made of silicon. When sunlight hits a cell it knocks electrons loose, creating a direct current that an inverter converts to alternating current for the home.',
+  },
+  {
+    query: 'treatment for a sprained ankle',
+    passage: 'Treat a mild ankle sprain with rest, ice for 20 minutes at a time, compression with an elastic bandage and elevation above heart level. See a doctor if you cannot bear weight.',
+  },
+  {
+    query: 'how to knit a scarf for beginners',
+    passage: 'Cast on about 30 stitches with chunky yarn and large needles, then knit every row in garter stitch until the scarf reaches the length you want. Bind off loosely and weave in the ends.',
+  },
+  {
+    query: 'what does a product manager do',
+    passage: 'A product manager decides what a team builds and why. They gather customer insights, prioritise the roadmap, write requirements and work with engineering and design to ship features.',
+  },
+];
+
+// ============================================================================
+// Calibration
+// ============================================================================
+
+/**
+ * Get the calibration profile for an embedding provider's model, building and
+ * storing it on first use.
+ */
+export async function getCalibrationProfile(
+  provider: EmbeddingProvider
+): Promise<CalibrationProfile> {
+  const profileKey = `${provider.name}:${provider.model}:${CALIBRATION_CORPUS_VERSION}`;
+  const cached = await getCachedCalibration(profileKey);
+
+  if (cached) {
+    return cached;
+  }
+
+  const profile = await buildCalibrationProfile(provider);
+  await setCachedCalibration(profileKey, profile);
+  return profile;
+}
+
+/**
+ * Measure how similar unrelated and relevant query/passage pairs look to a model
+ */
+export async function buildCalibrationProfile(
+  provider: EmbeddingProvider
+): Promise<CalibrationProfile> {
+  const queries = CALIBRATION_PAIRS.map(pair => pair.query);
+  const passages = CALIBRATION_PAIRS.map(pair => pair.passage);
+
+  const embeddings = await embedTexts(provider, [...queries, ...passages]);
+  const queryEmbeddings = embeddings.slice(0, queries.length);
+  const passageEmbeddings = embeddings.slice(queries.length);
+
+  const baseline: number[] = [];
+  const relevant: number[] = [];
+
+  queryEmbeddings.forEach((queryEmbedding, i) => {
+    passageEmbeddings.forEach((passageEmbedding, j) => {
+      const similarity = cosineSimilarity(queryEmbedding, passageEmbedding);
+      (i === j ? relevant : baseline).push(similarity);
+    });
+  });
+
+  const baselineStats = describe(baseline);
+  const relevantStats = describe(relevant);
+
+  return {
+    provider: provider.name,
+    model: provider.model,
+    corpusVersion: CALIBRATION_CORPUS_VERSION,
+    baseline: {
+      mean: baselineStats.mean,
+      std: baselineStats.std,
+      p95: quantile(baselineStats.sorted, 0.95),
+    },
+    relevant: {
+      mean: relevantStats.mean,
+      std: relevantStats.std,
+      quantiles: relevantStats.sorted,
+    },
+    createdAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Map a raw cosine similarity onto a model-independent 0-1 scale.
+ *
+ * - zscore: distance above the unrelated baseline in standard deviations,
+ *   scaled so a typical relevant pair scores 1
+ * - percentile: share of known-relevant pairs the raw score meets or beats,
+ *   with anything inside the unrelated baseline's 95th percentile scored 0
+ */
+export function calibrateSimilarity(
+  raw: number,
+  profile: CalibrationProfile,
+  method: NormalizationMethod = 'zscore'
+): number {
+  if (method === 'none') {
+    return raw;
+  }
+
+  if (method === 'percentile') {
+    if (raw <= profile.baseline.p95) return 0;
+    const beaten = profile.relevant.quantiles.filter(q => q <= raw).length;
+    return beaten / profile.relevant.quantiles.length;
+  }
+
+  const std = Math.max(profile.baseline.std, 1e-6);
+  const z = (raw - profile.baseline.mean) / std;
+  const relevantZ = Math.max((profile.relevant.mean - profile.baseline.mean) / std, 1e-6);
+  return Math.min(1, Math.max(0, z / relevantZ));
+}
+
+// ============================================================================
+// Statistics Helpers
+// ============================================================================
+
+function describe(values: number[]): { mean: number; std: number; sorted: number[] } {
+  const mean = values.reduce((sum, value) => sum + value, 0) / Math.max(values.length, 1);
+  const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / Math.max(values.length, 1);
+
+  return {
+    mean,
+    std: Math.sqrt(variance),
+    sorted: [...values].sort((a, b) => a - b),
+  };
+}
+
+function quantile(sorted: number[], q: number): number {
+  if (sorted.length === 0) return 0;
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
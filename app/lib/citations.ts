@@ -0,0 +1,209 @@
+import { z } from 'zod';
+import {
+  type AnswerCitation,
+  type AnswerSource,
+  type CitationAnalysis,
+  type LLMProvider,
+  type Passage,
+  type PromptTemplate,
+  type QueryCitationResult,
+  type UrlCitationShare,
+} from './types';
+import { cosineSimilarity } from './embeddings';
+import { generateStructured } from './structured';
+import { getLLMProvider } from './llm';
+import { getLatestPromptTemplate, renderPrompt } from './prompts';
+
+// ============================================================================
+// Citation Simulation Configuration
+// ============================================================================
+
+const DEFAULT_PASSAGES_PER_QUERY = 8; // Sources the answer engine retrieves per query
+const MAX_SOURCES_PER_PAGE = 3; // Keeps one long page from filling every source slot
+const MAX_SOURCE_PASSAGE = 600; // Characters of each passage sent to the model
+const CITATION_PATTERN = /\[(\d+(?:\s*,\s*\d+)*)\]/g; // [2], [1][3] and [1, 3]
+
+export interface CitationPage {
+  url: string;
+  passages: Passage[];
+  passageEmbeddings: number[][];
+}
+
+const AnswerResponseSchema = z.object({
+  answer: z.string().min(1),
+});
+
+// ============================================================================
+// Citation Simulation
+// ============================================================================
+
+/**
+ * Simulate an AI answer engine over the analyzed pages.
+ *
+ * For each query the most similar passages across every page are retrieved
+ * and numbered, the LLM writes a grounded answer citing them inline, and the
+ * citations are tallied per URL. Queries whose answer fails are left out;
+ * returns undefined when every query fails.
+ */
+export async function simulateCitations(
+  queries: string[],
+  queryEmbeddings: number[][],
+  pages: CitationPage[],
+  llm: LLMProvider = getLLMProvider(),
+  template: PromptTemplate = getLatestPromptTemplate('citation-answer'),
+  passagesPerQuery: number = DEFAULT_PASSAGES_PER_QUERY
+): Promise<CitationAnalysis | undefined> {
+  const results = await Promise.all(
+    queries.map(async (query, index): Promise<QueryCitationResult | null> => {
+      const sources = retrieveSources(queryEmbeddings[index], pages, passagesPerQuery);
+      if (sources.length === 0) return null;
+
+      try {
+        return await answerWithCitations(query, sources, llm, template);
+      } catch (error) {
+        console.warn(`Citation simulation for "${query}" failed:`, error);
+        return null;
+      }
+    })
+  );
+
+  const answered = results.filter((result): result is QueryCitationResult => result !== null);
+  if (answered.length === 0) {
+    return undefined;
+  }
+
+  return {
+    queries: answered,
+    urls: calculateCitationShares(pages.map(page => page.url), answered),
+    passagesPerQuery,
+  };
+}
+
+/**
+ * Ask the model for a grounded answer and read the cited URLs from its
+ * inline [n] markers
+ */
+export async function answerWithCitations(
+  query: string,
+  sources: AnswerSource[],
+  llm: LLMProvider = getLLMProvider(),
+  template: PromptTemplate = getLatestPromptTemplate('citation-answer')
+): Promise<QueryCitationResult> {
+  const prompt = renderPrompt(template, {
+    query,
+    sources: sources
+      .map((source, index) => `[${index + 1}] ${source.url}\n${source.passage.slice(0, MAX_SOURCE_PASSAGE)}`)
+      .join('\n\n'),
+  });
+
+  const parsed = await generateStructured({
+    task: 'citation answer',
+    prompt,
+    schema: AnswerResponseSchema,
+    generate: (attemptPrompt) => llm.generate(attemptPrompt, { json: true, temperature: 0.2, maxTokens: 600 }),
+  });
+
+  const answer = parsed.answer.trim();
+  return {
+    query,
+    answer,
+    sources,
+    citations: extractCitations(answer, sources),
+  };
+}
+
+// ============================================================================
+// Retrieval and Tallying
+// ============================================================================
+
+/**
+ * Top passages by similarity to the query across every page, at most
+ * MAX_SOURCES_PER_PAGE from any one page
+ */
+function retrieveSources(
+  queryEmbedding: number[],
+  pages: CitationPage[],
+  limit: number
+): AnswerSource[] {
+  const candidates = pages.flatMap(page =>
+    page.passages.map((passage, index) => ({
+      url: page.url,
+      passage: passage.text,
+      similarity: cosineSimilarity(page.passageEmbeddings[index], queryEmbedding),
+    }))
+  );
+
+  const perPage = new Map<string, number>();
+  const sources: AnswerSource[] = [];
+  for (const candidate of candidates.sort((a, b) => b.similarity - a.similarity)) {
+    const taken = perPage.get(candidate.url) || 0;
+    if (taken >= MAX_SOURCES_PER_PAGE) continue;
+
+    perPage.set(candidate.url, taken + 1);
+    sources.push({ ...candidate, similarity: Math.round(candidate.similarity * 1000) / 1000 });
+    if (sources.length >= limit) break;
+  }
+
+  return sources;
+}
+
+/**
+ * Cited URLs in order of first citation. Markers that point at no source
+ * are ignored.
+ */
+function extractCitations(answer: string, sources: AnswerSource[]): AnswerCitation[] {
+  const citations = new Map<string, AnswerCitation>();
+
+  answer.replace(CITATION_PATTERN, (marker, numbers: string) => {
+    for (const number of numbers.split(',')) {
+      const source = sources[parseInt(number.trim(), 10) - 1];
+      if (!source) continue;
+
+      const citation = citations.get(source.url) || { url: source.url, count: 0, position: citations.size + 1 };
+      citation.count++;
+      citations.set(source.url, citation);
+    }
+    return marker;
+  });
+
+  return Array.from(citations.values());
+}
+
+/**
+ * Per-URL share of every citation, how many answers cite it or retrieved
+ * it, and how early it is cited on average
+ */
+function calculateCitationShares(urls: string[], results: QueryCitationResult[]): UrlCitationShare[] {
+  const totalCitations = results.reduce(
+    (sum, result) => sum + result.citations.reduce((count, citation) => count + citation.count, 0),
+    0
+  );
+
+  return urls.map(url => {
+    let citations = 0;
+    let queriesCited = 0;
+    let queriesRetrieved = 0;
+    let prominence = 0;
+
+    for (const result of results) {
+      const citation = result.citations.find(c => c.url === url);
+      if (citation) {
+        citations += citation.count;
+        queriesCited++;
+        prominence += 1 / citation.position;
+      }
+      if (result.sources.some(source => source.url === url)) {
+        queriesRetrieved++;
+      }
+    }
+
+    return {
+      url,
+      citations,
+      share: totalCitations > 0 ? Math.round((citations / totalCitations) * 100) / 100 : 0,
+      queriesCited,
+      queriesRetrieved,
+      prominence: Math.round((prominence / results.length) * 100) / 100,
+    };
+  });
+}
@@ -0,0 +1,279 @@
+import { z } from 'zod';
+import { type LLMProvider, type PromptTemplate, type Taxonomy, type TopicCluster } from './types';
+import { cosineSimilarity } from './embeddings';
+import { generateStructured } from './structured';
+import { getLLMProvider } from './llm';
+import { getLatestPromptTemplate, renderPrompt } from './prompts';
+
+// ============================================================================
+// Clustering Configuration
+// ============================================================================
+
+const DEFAULT_MIN_CLUSTERS = 2;
+const DEFAULT_MAX_CLUSTERS = 8;
+
+export interface ClusterOptions {
+  minClusters?: number;
+  maxClusters?: number;
+  llm?: LLMProvider;
+  prompt?: PromptTemplate;
+}
+
+const ClusterNamesSchema = z.object({
+  topics: z.array(z.object({
+    cluster: z.number(),
+    name: z.string(),
+    description: z.string().optional(),
+  })),
+});
+
+// ============================================================================
+// Query Clustering
+// ============================================================================
+
+/**
+ * Group queries into emergent topics by clustering their embeddings, name
+ * each topic, and return them as a taxonomy so downstream scoring, gaps and
+ * exports treat topics exactly like taxonomy categories.
+ */
+export async function clusterQueries(
+  queries: string[],
+  queryEmbeddings: number[][],
+  options: ClusterOptions = {}
+): Promise<{ taxonomy: Taxonomy; categories: string[]; clusters: TopicCluster[] }> {
+  const assignments = agglomerativeCluster(queryEmbeddings, options);
+  const clusterCount = Math.max(...assignments) + 1;
+
+  const members: string[][] = Array.from({ length: clusterCount }, () => []);
+  assignments.forEach((cluster, index) => members[cluster].push(queries[index]));
+
+  const names = await nameClusters(
+    members,
+    options.llm || getLLMProvider(),
+    options.prompt || getLatestPromptTemplate('cluster-naming')
+  );
+  const clusters: TopicCluster[] = members.map((clusterQueries, index) => ({
+    name: names[index].name,
+    description: names[index].description,
+    queries: clusterQueries,
+  }));
+
+  return {
+    taxonomy: {
+      id: 'emergent-topics',
+      name: 'Emergent Topics',
+      fallbackCategory: 'General',
+      categories: clusters.map(cluster => ({
+        name: cluster.name,
+        description: cluster.description,
+        examples: cluster.queries.slice(0, 5),
+      })),
+    },
+    categories: assignments.map(cluster => clusters[cluster].name),
+    clusters,
+  };
+}
+
+/**
+ * Average-linkage agglomerative clustering on cosine distance.
+ *
+ * The merge is run once from singletons down to the minimum cluster count and
+ * the cut with the best silhouette score inside [minClusters, maxClusters] is
+ * returned, so the number of topics is chosen automatically.
+ */
+export function agglomerativeCluster(
+  embeddings: number[][],
+  options: ClusterOptions = {}
+): number[] {
+  const n = embeddings.length;
+  const minClusters = Math.max(1, options.minClusters ?? DEFAULT_MIN_CLUSTERS);
+  const maxClusters = Math.min(n - 1, options.maxClusters ?? DEFAULT_MAX_CLUSTERS);
+
+  if (n === 0) return [];
+  if (maxClusters < Math.max(2, minClusters)) {
+    return new Array(n).fill(0);
+  }
+
+  const distances = embeddings.map(a => embeddings.map(b => 1 - cosineSimilarity(a, b)));
+
+  // Cluster-to-cluster average distances, updated with the Lance-Williams formula
+  const linkage = distances.map(row => [...row]);
+  const clusters: number[][] = embeddings.map((_, index) => [index]);
+  let active = clusters.map((_, index) => index);
+
+  let bestAssignment: number[] = new Array(n).fill(0);
+  let bestScore = -Infinity;
+
+  while (active.length > minClusters) {
+    let mergeA = -1;
+    let mergeB = -1;
+    let closest = Infinity;
+
+    for (let i = 0; i < active.length; i++) {
+      for (let j = i + 1; j < active.length; j++) {
+        const distance = linkage[active[i]][active[j]];
+        if (distance < closest) {
+          closest = distance;
+          mergeA = active[i];
+          mergeB = active[j];
+        }
+      }
+    }
+
+    const sizeA = clusters[mergeA].length;
+    const sizeB = clusters[mergeB].length;
+    for (const other of active) {
+      if (other === mergeA || other === mergeB) continue;
+      const distance = (sizeA * linkage[mergeA][other] + sizeB * linkage[mergeB][other]) / (sizeA + sizeB);
+      linkage[mergeA][other] = distance;
+      linkage[other][mergeA] = distance;
+    }
+
+    clusters[mergeA] = [...clusters[mergeA], ...clusters[mergeB]];
+    clusters[mergeB] = [];
+    active = active.filter(index => index !== mergeB);
+
+    if (active.length <= maxClusters) {
+      const assignment = new Array<number>(n);
+      active.forEach((clusterIndex, label) => {
+        for (const member of clusters[clusterIndex]) {
+          assignment[member] = label;
+        }
+      });
+
+      const score = silhouetteScore(distances, assignment, active.length);
+      if (score > bestScore) {
+        bestScore = score;
+        bestAssignment = assignment;
+      }
+    }
+  }
+
+  return bestAssignment;
+}
+
+/**
+ * Mean silhouette coefficient of a clustering given a distance matrix
+ */
+function silhouetteScore(distances: number[][], assignment: number[], clusterCount: number): number {
+  if (clusterCount < 2) return -1;
+
+  const n = assignment.length;
+  let total = 0;
+
+  for (let i = 0; i < n; i++) {
+    const sums = new Array(clusterCount).fill(0);
+    const counts = new Array(clusterCount).fill(0);
+
+    for (let j = 0; j < n; j++) {
+      if (i === j) continue;
+      sums[assignment[j]] += distances[i][j];
+      counts[assignment[j]]++;
+    }
+
+    // Singletons contribute 0 by convention
+    if (counts[assignment[i]] === 0) continue;
+
+    const a = sums[assignment[i]] / counts[assignment[i]];
+    let b = Infinity;
+    for (let c = 0; c < clusterCount; c++) {
+      if (c !== assignment[i] && counts[c] > 0) {
+        b = Math.min(b, sums[c] / counts[c]);
+      }
+    }
+
+    const spread = Math.max(a, b);
+    total += spread === 0 ? 0 : (b - a) / spread;
+  }
+
+  return total / n;
+}
+
+// ============================================================================
+// Cluster Naming
+// ============================================================================
+
+/**
+ * Ask an LLM for a short topic name for each cluster, falling back to the
+ * cluster's most frequent terms when no model is available
+ */
+async function nameClusters(
+  clusters: string[][],
+  llm: LLMProvider,
+  template: PromptTemplate
+): Promise<Array<{ name: string; description: string }>> {
+  const fallback = clusters.map(describeClusterByTerms);
+
+  try {
+    const clusterList = clusters
+      .map((queries, index) => `${index + 1}. ${queries.slice(0, 12).join('; ')}`)
+      .join('\n');
+
+    const prompt = renderPrompt(template, { clusterList });
+
+    const parsed = await generateStructured({
+      task: 'cluster naming',
+      prompt,
+      schema: ClusterNamesSchema,
+      generate: (attemptPrompt) => llm.generate(attemptPrompt, { json: true, temperature: 0.3, maxTokens: 800 }),
+    });
+
+    const named = clusters.map((_, index) => {
+      const topic = parsed.topics.find(t => t.cluster === index + 1);
+      return topic?.name.trim()
+        ? { name: topic.name.trim().slice(0, 50), description: topic.description?.trim() || fallback[index].description }
+        : fallback[index];
+    });
+
+    return ensureUniqueNames(named);
+  } catch (error) {
+    console.warn('Cluster naming failed, using term-based names:', error);
+    return ensureUniqueNames(fallback);
+  }
+}
+
+/**
+ * Name a cluster after its two most frequent meaningful terms
+ */
+function describeClusterByTerms(queries: string[]): { name: string; description: string } {
+  const counts = new Map<string, number>();
+
+  for (const query of queries) {
+    const terms = new Set(
+      query.toLowerCase().replace(/[^\w\s]/g, ' ').split(/\s+/)
+        .filter(term => term.length > 2 && !STOP_WORDS.has(term))
+    );
+    for (const term of Array.from(terms)) {
+      counts.set(term, (counts.get(term) || 0) + 1);
+    }
+  }
+
+  const topTerms = Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, 2)
+    .map(([term]) => term.charAt(0).toUpperCase() + term.slice(1));
+
+  return {
+    name: topTerms.length > 0 ? topTerms.join(' & ') : 'Miscellaneous',
+    description: `Queries such as ${queries.slice(0, 3).map(q => `"${q}"`).join(', ')}`,
+  };
+}
+
+/**
+ * Suffix repeated topic names so every cluster maps to its own category
+ */
+function ensureUniqueNames<T extends { name: string }>(topics: T[]): T[] {
+  const seen = new Map<string, number>();
+
+  return topics.map(topic => {
+    const count = (seen.get(topic.name) || 0) + 1;
+    seen.set(topic.name, count);
+    return count === 1 ? topic : { ...topic, name: `${topic.name} ${count}` };
+  });
+}
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'with', 'how', 'what', 'why', 'when', 'where', 'which', 'who',
+  'are', 'does', 'can', 'best', 'vs', 'from', 'your', 'you', 'that', 'this', 'into',
+  'about', 'should', 'there', 'their', 'than', 'near',
+]);
@@ -0,0 +1,185 @@
+import {
+  type AnalysisQuery,
+  type CompetitorCandidate,
+  type CompetitorDiscovery,
+  type DomainFilters,
+  type QuerySearch,
+  type UsageTracker,
+} from './types';
+import { searchSerpAPI } from './serpapi';
+import { checkDomainFilters, classifySourceType, normalizeDomain } from './sources';
+
+// ============================================================================
+// Competitor Discovery Configuration
+// ============================================================================
+
+const DEFAULT_DISCOVERY_QUERIES = 5; // Searches per analysis, seed included
+const DEFAULT_RESULTS_PER_QUERY = 10;
+const MAX_CANDIDATES = 30; // Candidates returned for review
+
+// ============================================================================
+// Competitor Discovery
+// ============================================================================
+
+/**
+ * Search every query not already in `known`, returning the known searches
+ * followed by the new ones. Queries whose search fails are left out.
+ */
+export async function searchQueries(
+  queries: string[],
+  known: QuerySearch[] = [],
+  resultsPerQuery: number = DEFAULT_RESULTS_PER_QUERY,
+  usage?: UsageTracker
+): Promise<QuerySearch[]> {
+  const searched = new Set(known.map(search => search.query.toLowerCase()));
+  const pending = queries.filter(query => {
+    const key = query.toLowerCase();
+    if (searched.has(key)) return false;
+    searched.add(key);
+    return true;
+  });
+
+  const searches = await Promise.all(
+    pending.map(async (query): Promise<QuerySearch | null> => {
+      try {
+        const { organicResults } = await searchSerpAPI(query, resultsPerQuery, usage);
+        return { query, results: organicResults };
+      } catch (error) {
+        console.warn(`SerpAPI search for "${query}" failed:`, error);
+        return null;
+      }
+    })
+  );
+
+  return [...known, ...searches.filter((search): search is QuerySearch => search !== null)];
+}
+
+/**
+ * The seed (when given) followed by the highest-weight analysis queries.
+ * Unweighted queries count as weight 1; ties keep query order.
+ */
+export function selectSearchQueries(
+  seed: string | undefined,
+  queries: AnalysisQuery[],
+  count: number = DEFAULT_DISCOVERY_QUERIES
+): string[] {
+  const selected = seed ? [seed] : [];
+  const seen = new Set(selected.map(query => query.trim().toLowerCase()));
+
+  const ranked = queries
+    .map((query, index) => ({ query: query.query, weight: query.weight ?? 1, index }))
+    .sort((a, b) => b.weight - a.weight || a.index - b.index);
+
+  for (const { query } of ranked) {
+    if (selected.length >= count) break;
+    const key = query.trim().toLowerCase();
+    if (!key || seen.has(key)) continue;
+    seen.add(key);
+    selected.push(query);
+  }
+
+  return selected;
+}
+
+// ============================================================================
+// Ranking
+// ============================================================================
+
+/**
+ * Aggregate search results by URL and domain and select the best URL of the
+ * top `maxCompetitors` domains that pass the filters.
+ *
+ * A URL scores the reciprocal of its position on every query it ranks for,
+ * averaged over the queries searched, so a page at #1 for one query scores
+ * the same as a page at #2 for two. Domains are scored the same way from their
+ * best position per query. Pages ruled out by the domain filters stay in the
+ * list, marked, but are never selected.
+ */
+export function rankCompetitorCandidates(
+  searches: QuerySearch[],
+  maxCompetitors: number = 5,
+  targetUrl?: string,
+  filters?: DomainFilters
+): CompetitorDiscovery {
+  const excludedDomain = targetUrl ? normalizeDomain(targetUrl) : undefined;
+  const candidates = new Map<string, CompetitorCandidate>();
+  const domainScores = new Map<string, number>();
+
+  for (const search of searches) {
+    const bestByDomain = new Map<string, number>();
+
+    search.results.forEach((result, index) => {
+      const domain = normalizeDomain(result.link);
+      if (!domain || (excludedDomain && isSameSite(domain, excludedDomain))) return;
+
+      const position = result.position || index + 1;
+      const candidate = candidates.get(result.link) || createCandidate(result.link, domain, filters);
+      candidate.score += 1 / position;
+      candidate.appearances.push({ query: search.query, position });
+      candidates.set(result.link, candidate);
+
+      bestByDomain.set(domain, Math.min(bestByDomain.get(domain) ?? Infinity, position));
+    });
+
+    bestByDomain.forEach((position, domain) => {
+      domainScores.set(domain, (domainScores.get(domain) || 0) + 1 / position);
+    });
+  }
+
+  const searched = Math.max(searches.length, 1);
+  const ranked = Array.from(candidates.values())
+    .map(candidate => ({
+      ...candidate,
+      score: round(candidate.score / searched),
+      domainScore: round((domainScores.get(candidate.domain) || 0) / searched),
+    }))
+    .sort((a, b) => b.domainScore - a.domainScore || b.score - a.score || a.url.localeCompare(b.url));
+
+  // The first URL of a domain in ranked order is its best
+  const selectedDomains = new Set<string>();
+  for (const candidate of ranked) {
+    if (selectedDomains.size >= maxCompetitors) break;
+    if (candidate.filtered || selectedDomains.has(candidate.domain)) continue;
+    selectedDomains.add(candidate.domain);
+    candidate.selected = true;
+  }
+
+  return {
+    queries: searches.map(search => search.query),
+    excludedDomain,
+    filters,
+    candidates: ranked.filter((candidate, index) => index < MAX_CANDIDATES || candidate.selected),
+  };
+}
+
+/**
+ * Selected competitor URLs, best first
+ */
+export function getSelectedCompetitors(discovery: CompetitorDiscovery): string[] {
+  return discovery.candidates.filter(candidate => candidate.selected).map(candidate => candidate.url);
+}
+
+function createCandidate(url: string, domain: string, filters?: DomainFilters): CompetitorCandidate {
+  const sourceType = classifySourceType(url);
+  const filtered = checkDomainFilters(url, sourceType, filters);
+
+  return {
+    url,
+    domain,
+    score: 0,
+    domainScore: 0,
+    appearances: [],
+    sourceType,
+    ...(filtered ? { filtered } : {}),
+    selected: false,
+  };
+}
+
+// Subdomains count as the same site: blog.example.com is example.com
+function isSameSite(domain: string, other: string): boolean {
+  return domain === other || domain.endsWith(`.${other}`) || other.endsWith(`.${domain}`);
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
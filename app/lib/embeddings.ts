@@ -0,0 +1,326 @@
+import OpenAI from 'openai';
+import {
+  type EmbeddingProvider,
+  type EmbeddingProviderName,
+  type UsageTracker,
+  AnalysisError,
+  RateLimitError,
+} from './types';
+import { getCachedEmbedding, setCachedEmbedding } from './cache';
+import { estimateTokens } from './usage';
+import { withRateLimit, rateLimitedFetch } from './ratelimit';
+
+// ============================================================================
+// Embedding Provider Configuration
+// ============================================================================
+
+const MAX_EMBEDDING_INPUT = 8000; // Characters sent per embedding request
+const GEMINI_API_URL = 'https://generativelanguage.googleapis.com/v1beta/models';
+const LOCAL_DIMENSIONS = 512;
+const OPENAI_MAX_BATCH = 512; // OpenAI accepts up to 2048 inputs per request
+const GEMINI_MAX_BATCH = 100; // Gemini batchEmbedContents limit
+
+const DEFAULT_MODELS: Record<EmbeddingProviderName, string> = {
+  openai: 'text-embedding-3-small',
+  gemini: 'text-embedding-004',
+  local: `hashed-ngram-${LOCAL_DIMENSIONS}`,
+};
+
+interface GeminiBatchEmbeddingResponse {
+  embeddings?: Array<{
+    values: number[];
+  }>;
+}
+
+// ============================================================================
+// Provider Factories
+// ============================================================================
+
+/**
+ * Create an embedding provider backed by OpenAI's embeddings API
+ */
+export function createOpenAIEmbeddingProvider(
+  model: string = DEFAULT_MODELS.openai
+): EmbeddingProvider {
+  const openai = new OpenAI({
+    apiKey: process.env.OPENAI_API_KEY,
+    maxRetries: 0, // 429s, 5xx and connection errors are retried by the rate limiter
+  });
+
+  return {
+    name: 'openai',
+    model,
+    maxBatchSize: OPENAI_MAX_BATCH,
+    embed: async (texts: string[], usage?: UsageTracker) => {
+      const input = texts.map(text => text.slice(0, MAX_EMBEDDING_INPUT));
+
+      try {
+        const response = await withRateLimit(
+          'openai',
+          () => openai.embeddings.create({ model, input }),
+          { tokens: estimateInputTokens(input) }
+        );
+
+        usage?.record({ provider: 'openai', model, inputTokens: response.usage?.prompt_tokens });
+
+        // Results carry their input index; don't rely on response order
+        const embeddings: number[][] = new Array(texts.length);
+        for (const item of response.data) {
+          embeddings[item.index] = item.embedding;
+        }
+        return embeddings;
+      } catch (error) {
+        if (error instanceof RateLimitError) throw error;
+        console.error('Error generating OpenAI embeddings:', error);
+        throw new AnalysisError('Failed to generate embedding', 'EMBEDDING_ERROR', 500);
+      }
+    },
+  };
+}
+
+/**
+ * Create an embedding provider backed by Google's Gemini embedding API
+ */
+export function createGeminiEmbeddingProvider(
+  model: string = DEFAULT_MODELS.gemini
+): EmbeddingProvider {
+  return {
+    name: 'gemini',
+    model,
+    maxBatchSize: GEMINI_MAX_BATCH,
+    embed: async (texts: string[], usage?: UsageTracker) => {
+      const apiKey = process.env.GEMINI_API_KEY;
+
+      if (!apiKey) {
+        throw new AnalysisError('Gemini API key not configured', 'EMBEDDING_ERROR', 500);
+      }
+
+      const input = texts.map(text => text.slice(0, MAX_EMBEDDING_INPUT));
+
+      try {
+        const response = await rateLimitedFetch(
+          'gemini',
+          `${GEMINI_API_URL}/${model}:batchEmbedContents?key=${apiKey}`,
+          {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({
+              requests: input.map(text => ({
+                model: `models/${model}`,
+                content: {
+                  parts: [{ text }],
+                },
+              })),
+            }),
+          },
+          { tokens: estimateInputTokens(input) }
+        );
+
+        if (!response.ok) {
+          throw new Error(`Gemini API error: ${response.status} ${response.statusText}`);
+        }
+
+        const data: GeminiBatchEmbeddingResponse = await response.json();
+
+        if (!data.embeddings || data.embeddings.length !== texts.length) {
+          throw new Error('Invalid response from Gemini API');
+        }
+
+        // The batch endpoint reports no token counts
+        usage?.record({ provider: 'gemini', model, inputTokens: estimateInputTokens(input) });
+
+        return data.embeddings.map(embedding => embedding.values);
+      } catch (error) {
+        if (error instanceof RateLimitError) throw error;
+        console.error('Error generating Gemini embeddings:', error);
+        throw new AnalysisError('Failed to generate embedding', 'EMBEDDING_ERROR', 500);
+      }
+    },
+  };
+}
+
+/**
+ * Create a deterministic, offline embedding provider.
+ *
+ * Word unigrams, word bigrams and character trigrams are hashed into a fixed
+ * number of signed buckets and the vector is L2-normalized, so identical text
+ * always yields identical vectors without any network access.
+ */
+export function createLocalEmbeddingProvider(
+  dimensions: number = LOCAL_DIMENSIONS
+): EmbeddingProvider {
+  return {
+    name: 'local',
+    model: `hashed-ngram-${dimensions}`,
+    maxBatchSize: Number.MAX_SAFE_INTEGER,
+    embed: async (texts: string[], usage?: UsageTracker) => {
+      usage?.record({ provider: 'local', model: `hashed-ngram-${dimensions}` });
+      return texts.map(text => hashedNgramVector(text, dimensions));
+    },
+  };
+}
+
+/**
+ * Resolve an embedding provider by name, falling back to the
+ * EMBEDDING_PROVIDER environment variable and then to whichever API key is set
+ */
+export function getEmbeddingProvider(
+  name?: EmbeddingProviderName,
+  model?: string
+): EmbeddingProvider {
+  const resolved = name || resolveDefaultProviderName();
+
+  switch (resolved) {
+    case 'openai':
+      return createOpenAIEmbeddingProvider(model);
+    case 'gemini':
+      return createGeminiEmbeddingProvider(model);
+    case 'local':
+      return createLocalEmbeddingProvider();
+    default:
+      throw new AnalysisError(`Unknown embedding provider: ${resolved}`, 'EMBEDDING_ERROR', 400);
+  }
+}
+
+// ============================================================================
+// Vector Math
+// ============================================================================
+
+/**
+ * Calculate cosine similarity between two vectors
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) {
+    throw new Error('Vectors must have the same length');
+  }
+
+  let dotProduct = 0;
+  let normA = 0;
+  let normB = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    dotProduct += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  const magnitude = Math.sqrt(normA) * Math.sqrt(normB);
+  return magnitude === 0 ? 0 : dotProduct / magnitude;
+}
+
+// ============================================================================
+// Batched, Cached Embedding
+// ============================================================================
+
+/**
+ * Embed a list of texts with as few provider calls as possible.
+ *
+ * Duplicate texts are embedded once, cached embeddings are reused, and the
+ * remaining texts are sent in batches of the provider's maximum size. The
+ * returned vectors line up with the input texts.
+ */
+export async function embedTexts(
+  provider: EmbeddingProvider,
+  texts: string[]
+): Promise<number[][]> {
+  const cacheModel = `${provider.name}:${provider.model}`;
+  const uniqueTexts = Array.from(new Set(texts));
+  const embeddings = new Map<string, number[]>();
+
+  const cached = await Promise.all(
+    uniqueTexts.map(text => getCachedEmbedding(text, cacheModel))
+  );
+  const missing = uniqueTexts.filter((text, index) => {
+    const embedding = cached[index];
+    if (embedding) {
+      embeddings.set(text, embedding);
+      return false;
+    }
+    return true;
+  });
+
+  for (let i = 0; i < missing.length; i += provider.maxBatchSize) {
+    const batch = missing.slice(i, i + provider.maxBatchSize);
+    const batchEmbeddings = await provider.embed(batch);
+
+    await Promise.all(batch.map((text, index) => {
+      embeddings.set(text, batchEmbeddings[index]);
+      return setCachedEmbedding(text, batchEmbeddings[index], cacheModel);
+    }));
+  }
+
+  return texts.map(text => embeddings.get(text)!);
+}
+
+function estimateInputTokens(texts: string[]): number {
+  return texts.reduce((sum, text) => sum + estimateTokens(text), 0);
+}
+
+function resolveDefaultProviderName(): EmbeddingProviderName {
+  const configured = process.env.EMBEDDING_PROVIDER;
+  if (configured === 'openai' || configured === 'gemini' || configured === 'local') {
+    return configured;
+  }
+
+  if (process.env.OPENAI_API_KEY) return 'openai';
+  if (process.env.GEMINI_API_KEY) return 'gemini';
+  return 'local';
+}
+
+// ============================================================================
+// Local Hashing Utilities
+// ============================================================================
+
+/**
+ * Build a normalized hashed n-gram vector for the given text
+ */
+function hashedNgramVector(text: string, dimensions: number): number[] {
+  const vector = new Array<number>(dimensions).fill(0);
+  const words = text
+    .toLowerCase()
+    .replace(/[^\w\s]/g, ' ')
+    .split(/\s+/)
+    .filter(word => word.length > 0);
+
+  const features: string[] = [];
+  for (let i = 0; i < words.length; i++) {
+    features.push(`w:${words[i]}`);
+    if (i + 1 < words.length) {
+      features.push(`b:${words[i]} ${words[i + 1]}`);
+    }
+
+    const padded = `#${words[i]}#`;
+    for (let j = 0; j + 3 <= padded.length; j++) {
+      features.push(`c:${padded.slice(j, j + 3)}`);
+    }
+  }
+
+  const counts = new Map<string, number>();
+  for (const feature of features) {
+    counts.set(feature, (counts.get(feature) || 0) + 1);
+  }
+
+  for (const [feature, count] of Array.from(counts.entries())) {
+    const hash = fnv1a(feature);
+    const bucket = hash % dimensions;
+    const sign = (hash >>> 31) === 0 ? 1 : -1;
+    vector[bucket] += sign * (1 + Math.log(count));
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm === 0 ? vector : vector.map(value => value / norm);
+}
+
+/**
+ * 32-bit FNV-1a hash
+ */
+function fnv1a(input: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
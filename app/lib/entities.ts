@@ -0,0 +1,240 @@
+import {
+  type ScrapedContent,
+  type ExtractedEntity,
+  type AnalysisEntity,
+  type EntityAnalysis,
+  type EntityGap,
+  type LLMProvider,
+  type PromptTemplate,
+} from './types';
+import { extractEntities } from './keywords';
+import { getLLMProvider } from './llm';
+import { getLatestPromptTemplate } from './prompts';
+import { tokenize } from './lexical';
+import { getPassageEmbeddingText, splitIntoPassages } from './passages';
+
+// ============================================================================
+// Entity Analysis Configuration
+// ============================================================================
+
+const ENTITY_GAP_MIN_SHARE = 0.5; // Share of competitors that must mention an entity for it to be a gap
+const MAX_ENTITY_GAPS = 25;
+const MAX_ENTITIES = 100; // Merged entities kept on the result
+const ENTITY_CHUNK_SIZE = 3000; // Characters per extraction call, the extractor's input limit
+const MAX_ENTITY_CHUNKS = 8; // Extraction calls per page; text past this budget is not read
+
+interface PageEntities {
+  url: string;
+  entities: ExtractedEntity[];
+  partial: boolean; // Some of the page's text was not read
+}
+
+interface EntityGroup {
+  forms: Map<string, number>;
+  types: Map<string, number>;
+  relevanceByUrl: Map<string, number>;
+}
+
+// ============================================================================
+// Entity Extraction
+// ============================================================================
+
+/**
+ * Extract entities from the target and every competitor, then merge them and
+ * report the entities competitors share that the target never mentions.
+ *
+ * Each page is split into passage-aligned chunks and every chunk is extracted,
+ * so entities far down a long page are found too. Pages longer than the chunk
+ * budget, or with a chunk whose extraction failed, are listed in
+ * `partialUrls`. Pages with no successful chunk are left out of the merge.
+ * Returns undefined when the target or every competitor fails, since gaps
+ * would be meaningless.
+ */
+export async function analyzeEntities(
+  targetContent: ScrapedContent,
+  competitorContents: ScrapedContent[],
+  llm: LLMProvider = getLLMProvider(),
+  template: PromptTemplate = getLatestPromptTemplate('entity-extraction')
+): Promise<EntityAnalysis | undefined> {
+  const pages = await Promise.all(
+    [targetContent, ...competitorContents].map(async (content): Promise<PageEntities | null> => {
+      const chunks = splitIntoEntityChunks(content.content);
+      const read = chunks.slice(0, MAX_ENTITY_CHUNKS);
+
+      const results = await Promise.all(read.map(async chunk => {
+        try {
+          return await extractEntities(chunk, llm, template);
+        } catch (error) {
+          console.warn(`Entity extraction for ${content.url} failed:`, error);
+          return null;
+        }
+      }));
+      const extracted = results.filter((entities): entities is ExtractedEntity[] => entities !== null);
+
+      if (extracted.length === 0) {
+        return null;
+      }
+
+      return {
+        url: content.url,
+        entities: extracted.flat(),
+        partial: chunks.length > read.length || extracted.length < read.length,
+      };
+    })
+  );
+
+  const [targetPage, ...competitorPages] = pages;
+  const analyzedCompetitors = competitorPages.filter((page): page is PageEntities => page !== null);
+
+  if (!targetPage || analyzedCompetitors.length === 0) {
+    return undefined;
+  }
+
+  const groups = mergeEntities([targetPage, ...analyzedCompetitors]);
+
+  return {
+    entities: Array.from(groups.values())
+      .map(toAnalysisEntity)
+      .sort((a, b) => b.urls.length - a.urls.length || b.averageRelevance - a.averageRelevance)
+      .slice(0, MAX_ENTITIES),
+    gaps: findEntityGaps(groups, targetPage, targetContent.content, analyzedCompetitors.length),
+    analyzedUrls: [targetPage, ...analyzedCompetitors].map(page => page.url),
+    partialUrls: [targetPage, ...analyzedCompetitors].filter(page => page.partial).map(page => page.url),
+  };
+}
+
+/**
+ * Group a page's passages, with their heading trails, into chunks of at most
+ * ENTITY_CHUNK_SIZE characters
+ */
+function splitIntoEntityChunks(content: string): string[] {
+  const chunks: string[] = [];
+  let current = '';
+
+  const passages = splitIntoPassages(content, { maxPassages: Number.POSITIVE_INFINITY });
+  for (const text of passages.map(getPassageEmbeddingText)) {
+    if (current && current.length + text.length + 2 > ENTITY_CHUNK_SIZE) {
+      chunks.push(current);
+      current = '';
+    }
+    current = current ? `${current}\n\n${text}` : text;
+  }
+
+  if (current) {
+    chunks.push(current);
+  }
+
+  return chunks;
+}
+
+/**
+ * Normalize an entity name into a merge key: lowercase, no possessives,
+ * punctuation or stop words, and simple plurals folded
+ */
+export function normalizeEntityName(name: string): string {
+  const key = tokenize(name.replace(/['’]s\b/g, '')).join(' ');
+  return key || name.trim().toLowerCase();
+}
+
+// ============================================================================
+// Merging and Gaps
+// ============================================================================
+
+/**
+ * Group entities from every page by normalized name, keeping each page's
+ * highest relevance and counting surface forms and types
+ */
+function mergeEntities(pages: PageEntities[]): Map<string, EntityGroup> {
+  const groups = new Map<string, EntityGroup>();
+
+  for (const page of pages) {
+    for (const entity of page.entities) {
+      const name = entity.entity.trim();
+      const key = normalizeEntityName(name);
+      if (!key) continue;
+
+      const group = groups.get(key) || {
+        forms: new Map<string, number>(),
+        types: new Map<string, number>(),
+        relevanceByUrl: new Map<string, number>(),
+      };
+      const type = entity.type.trim().toLowerCase();
+      const relevance = Math.min(10, Math.max(1, entity.relevance));
+
+      group.forms.set(name, (group.forms.get(name) || 0) + 1);
+      group.types.set(type, (group.types.get(type) || 0) + 1);
+      group.relevanceByUrl.set(page.url, Math.max(group.relevanceByUrl.get(page.url) || 0, relevance));
+      groups.set(key, group);
+    }
+  }
+
+  return groups;
+}
+
+/**
+ * Entities mentioned by at least half of the analyzed competitors that the
+ * target neither lists nor contains in its text, ranked by competitor share
+ * times relevance
+ */
+function findEntityGaps(
+  groups: Map<string, EntityGroup>,
+  targetPage: PageEntities,
+  targetText: string,
+  competitorCount: number
+): EntityGap[] {
+  // The extractor only returns a page's top entities, so check the full text too
+  const normalizedTarget = ` ${tokenize(targetText).join(' ')} `;
+
+  const gaps: EntityGap[] = [];
+  for (const [key, group] of Array.from(groups.entries())) {
+    if (group.relevanceByUrl.has(targetPage.url) || normalizedTarget.includes(` ${key} `)) {
+      continue;
+    }
+
+    const competitorUrls = Array.from(group.relevanceByUrl.keys());
+    const competitorShare = competitorUrls.length / competitorCount;
+    if (competitorShare < ENTITY_GAP_MIN_SHARE) continue;
+
+    const entity = toAnalysisEntity(group);
+    gaps.push({
+      entity: entity.name,
+      type: entity.type,
+      competitorUrls,
+      competitorShare: Math.round(competitorShare * 100) / 100,
+      averageRelevance: entity.averageRelevance,
+      score: Math.round(competitorShare * (entity.averageRelevance / 10) * 100) / 100,
+    });
+  }
+
+  return gaps
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_ENTITY_GAPS);
+}
+
+function toAnalysisEntity(group: EntityGroup): AnalysisEntity {
+  const relevances = Array.from(group.relevanceByUrl.values());
+
+  return {
+    name: mostCommon(group.forms),
+    type: mostCommon(group.types),
+    urls: Array.from(group.relevanceByUrl.keys()),
+    averageRelevance: Math.round(
+      (relevances.reduce((sum, relevance) => sum + relevance, 0) / relevances.length) * 10
+    ) / 10,
+  };
+}
+
+/**
+ * Most frequent key of a count map, the first seen on ties
+ */
+function mostCommon(counts: Map<string, number>): string {
+  let best = '';
+  let bestCount = 0;
+  for (const [value, count] of Array.from(counts.entries())) {
+    if (count > bestCount) {
+      best = value;
+      bestCount = count;
+    }
+  }
+  return best;
+}
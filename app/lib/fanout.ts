@@ -0,0 +1,127 @@
+import { z } from 'zod';
+import {
+  type AnalysisQuery,
+  type FanOutType,
+  type LLMProvider,
+  type PromptTemplate,
+  FanOutTypeSchema,
+  AnalysisError,
+  StructuredOutputError,
+} from './types';
+import { generateStructured } from './structured';
+import { getLLMProvider } from './llm';
+import { getLatestPromptTemplate, renderPrompt } from './prompts';
+
+// ============================================================================
+// Query Fan-Out Configuration
+// ============================================================================
+
+export const FAN_OUT_TYPES: FanOutType[] = FanOutTypeSchema.options;
+
+const FAN_OUT_DESCRIPTIONS: Record<FanOutType, string> = {
+  related: 'adjacent topics a searcher would explore next',
+  implicit: 'unstated needs or follow-up questions hidden behind the seed',
+  comparative: 'comparisons against alternatives, competitors or options ("X vs Y", "best X for Y")',
+  reformulation: 'the same intent phrased differently (synonyms, question form, shorter/longer)',
+  entity_expansion: 'queries that swap in or add specific entities (brands, products, standards, people, places)',
+  personalized: 'variants tailored to a user context (role, industry, budget, location, experience level)',
+};
+
+export interface FanOutOptions {
+  types?: FanOutType[];
+  queriesPerType?: number;
+  llm?: LLMProvider;
+  prompt?: PromptTemplate;
+}
+
+const FanOutResponseSchema = z.object({
+  queries: z.array(z.object({
+    query: z.string(),
+    type: z.string(),
+    parent: z.string().optional(),
+  })).min(1),
+});
+
+// ============================================================================
+// Query Fan-Out
+// ============================================================================
+
+/**
+ * Expand a seed topic into typed sub-queries, the way AI search engines fan a
+ * prompt out into multiple searches. Each sub-query records its fan-out type
+ * and the query it was derived from (the seed or another sub-query).
+ */
+export async function expandQueryFanOut(
+  seed: string,
+  content: string,
+  options: FanOutOptions = {}
+): Promise<AnalysisQuery[]> {
+  const types = options.types && options.types.length > 0 ? options.types : FAN_OUT_TYPES;
+  const queriesPerType = options.queriesPerType ?? 3;
+  const llm = options.llm || getLLMProvider();
+
+  const typeGuide = types
+    .map(type => `- "${type}": ${FAN_OUT_DESCRIPTIONS[type]}`)
+    .join('\n');
+
+  const prompt = renderPrompt(options.prompt || getLatestPromptTemplate('query-fanout'), {
+    queriesPerType,
+    typeGuide,
+    seed,
+    content: content.slice(0, 3000),
+  });
+
+  try {
+    const parsed = await generateStructured({
+      task: 'query fan-out',
+      prompt,
+      schema: FanOutResponseSchema,
+      generate: (attemptPrompt) => llm.generate(attemptPrompt, { json: true, temperature: 0.7, maxTokens: 1500 }),
+    });
+
+    const queries = normalizeFanOut(seed, parsed.queries, types);
+    if (queries.length === 0) {
+      throw new Error('Fan-out returned no usable sub-queries');
+    }
+    return queries;
+  } catch (error) {
+    console.error('Error expanding query fan-out:', error);
+    if (error instanceof StructuredOutputError) {
+      throw error;
+    }
+    throw new AnalysisError(
+      'Failed to generate query fan-out',
+      'FAN_OUT_ERROR',
+      500
+    );
+  }
+}
+
+/**
+ * Drop malformed or duplicate sub-queries and repair unknown parents
+ */
+function normalizeFanOut(
+  seed: string,
+  rawQueries: z.infer<typeof FanOutResponseSchema>['queries'],
+  types: FanOutType[]
+): AnalysisQuery[] {
+  const seen = new Set<string>([seed.toLowerCase()]);
+  const queries: AnalysisQuery[] = [];
+
+  for (const raw of rawQueries) {
+    const query = raw.query.trim();
+    const type = FanOutTypeSchema.safeParse(raw.type);
+    const key = query.toLowerCase();
+
+    if (!query || query.length > 200 || !type.success || !types.includes(type.data) || seen.has(key)) {
+      continue;
+    }
+
+    seen.add(key);
+    queries.push({ query, fanOutType: type.data, parent: raw.parent?.trim() || seed, source: 'fan-out' });
+  }
+
+  // Parents must point at the seed or a sub-query we kept
+  const known = new Set([seed, ...queries.map(q => q.query)]);
+  return queries.map(q => (known.has(q.parent!) ? q : { ...q, parent: seed }));
+}
@@ -0,0 +1,119 @@
+import { z } from 'zod';
+import {
+  type IntentClassifier,
+  type LLMProvider,
+  type PromptTemplate,
+  type SearchIntent,
+  SearchIntentSchema,
+} from './types';
+import { generateStructured } from './structured';
+import { getLLMProvider } from './llm';
+import { getLatestPromptTemplate, renderPrompt } from './prompts';
+
+// ============================================================================
+// Intent Classification Configuration
+// ============================================================================
+
+export const SEARCH_INTENTS: SearchIntent[] = SearchIntentSchema.options;
+
+const MAX_QUERIES_PER_REQUEST = 50;
+
+// Checked in this order; the first intent with a matching pattern wins and
+// anything unmatched is informational
+const INTENT_PATTERNS: Array<[SearchIntent, RegExp]> = [
+  ['navigational', /\b(log ?in|sign ?in|official (site|website)|homepage|home page|my account|dashboard|customer (service|support) (number|phone)|contact us)\b|\.(com|org|net|io)\b/i],
+  ['transactional', /\b(buy|purchase|order|price|prices|pricing|cost|costs|cheap|cheapest|discount|coupon|promo|deal|deals|for sale|shop|subscribe|sign ?up|free trial|download|install|hire|book|booking|quote|near me)\b/i],
+  ['commercial', /\b(best|top \d+|vs|versus|compare|comparison|review|reviews|alternative|alternatives|rated|recommended|pros and cons|worth it)\b/i],
+];
+
+export interface IntentClassification {
+  intents: SearchIntent[]; // In query order
+  classifier: IntentClassifier;
+  fallback?: boolean; // The LLM classifier failed and the heuristic labelled every query
+}
+
+const IntentResponseSchema = z.object({
+  intents: z.array(z.object({
+    id: z.number().int(),
+    intent: SearchIntentSchema,
+  })),
+});
+
+// ============================================================================
+// Intent Classification
+// ============================================================================
+
+/**
+ * Label each query with its search intent.
+ *
+ * The LLM classifies queries in batches. Queries it skips fall back to the
+ * keyword heuristic, and if the LLM fails outright (or `classifier` is
+ * 'heuristic') every query is labelled by the heuristic.
+ */
+export async function classifyQueryIntents(
+  queries: string[],
+  classifier: IntentClassifier = 'llm',
+  llm: LLMProvider = getLLMProvider(),
+  template: PromptTemplate = getLatestPromptTemplate('intent-classification')
+): Promise<IntentClassification> {
+  const heuristic = queries.map(classifyIntentHeuristically);
+
+  if (classifier === 'heuristic' || queries.length === 0) {
+    return { intents: heuristic, classifier: 'heuristic' };
+  }
+
+  try {
+    const intents = [...heuristic];
+    for (let start = 0; start < queries.length; start += MAX_QUERIES_PER_REQUEST) {
+      const batch = queries.slice(start, start + MAX_QUERIES_PER_REQUEST);
+      const labels = await classifyBatch(batch, llm, template);
+      labels.forEach((intent, index) => {
+        if (intent) intents[start + index] = intent;
+      });
+    }
+    return { intents, classifier: 'llm' };
+  } catch (error) {
+    // Expected without an LLM key, so one line rather than a stack trace
+    const reason = error instanceof Error ? error.message : String(error);
+    console.warn(`LLM intent classification failed (${reason}), using the heuristic classifier`);
+    return { intents: heuristic, classifier: 'heuristic', fallback: true };
+  }
+}
+
+/**
+ * Offline intent label from query wording
+ */
+export function classifyIntentHeuristically(query: string): SearchIntent {
+  for (const [intent, pattern] of INTENT_PATTERNS) {
+    if (pattern.test(query)) return intent;
+  }
+  return 'informational';
+}
+
+/**
+ * Labels for one batch, in batch order; undefined where the model gave none
+ */
+async function classifyBatch(
+  queries: string[],
+  llm: LLMProvider,
+  template: PromptTemplate
+): Promise<Array<SearchIntent | undefined>> {
+  const prompt = renderPrompt(template, {
+    queries: queries.map((query, index) => `${index + 1}. ${query}`).join('\n'),
+  });
+
+  const parsed = await generateStructured({
+    task: 'intent classification',
+    prompt,
+    schema: IntentResponseSchema,
+    generate: (attemptPrompt) => llm.generate(attemptPrompt, { json: true, temperature: 0, maxTokens: 20 * queries.length + 100 }),
+  });
+
+  const labels: Array<SearchIntent | undefined> = new Array(queries.length).fill(undefined);
+  for (const item of parsed.intents) {
+    if (item.id >= 1 && item.id <= queries.length) {
+      labels[item.id - 1] = item.intent;
+    }
+  }
+  return labels;
+}
@@ -0,0 +1,77 @@
+import { z } from 'zod';
+import {
+  type ExtractedEntity,
+  type LLMProvider,
+  type PromptTemplate,
+  StructuredOutputError,
+} from './types';
+import { generateStructured } from './structured';
+import { getLLMProvider } from './llm';
+import { getLatestPromptTemplate, renderPrompt } from './prompts';
+
+// ============================================================================
+// Keyword and Entity Extraction
+// ============================================================================
+
+const KeywordsSchema = z.array(z.string().trim().min(1));
+
+const EntitiesSchema = z.array(z.object({
+  entity: z.string().trim().min(1),
+  type: z.string().trim().min(1),
+  relevance: z.number().min(0).max(10),
+}));
+
+/**
+ * Generate keywords and search terms from content
+ */
+export async function generateKeywords(
+  content: string,
+  maxKeywords: number = 20,
+  llm: LLMProvider = getLLMProvider(),
+  template: PromptTemplate = getLatestPromptTemplate('keyword-extraction')
+): Promise<string[]> {
+  try {
+    const prompt = renderPrompt(template, { maxKeywords, content: content.slice(0, 4000) });
+
+    const keywords = await generateStructured({
+      task: 'keyword extraction',
+      prompt,
+      schema: KeywordsSchema,
+      generate: (attemptPrompt) => llm.generate(attemptPrompt, { temperature: 0.3, maxTokens: 800 }),
+    });
+
+    return keywords.slice(0, maxKeywords);
+  } catch (error) {
+    console.error('Keyword generation error:', error);
+    if (error instanceof StructuredOutputError) {
+      throw error;
+    }
+    throw new Error(`Failed to generate keywords: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Extract named entities with a type and a 1-10 relevance score
+ */
+export async function extractEntities(
+  content: string,
+  llm: LLMProvider = getLLMProvider(),
+  template: PromptTemplate = getLatestPromptTemplate('entity-extraction')
+): Promise<ExtractedEntity[]> {
+  try {
+    const prompt = renderPrompt(template, { content: content.slice(0, 3000) });
+
+    return await generateStructured({
+      task: 'entity extraction',
+      prompt,
+      schema: EntitiesSchema,
+      generate: (attemptPrompt) => llm.generate(attemptPrompt, { temperature: 0.2, maxTokens: 600 }),
+    });
+  } catch (error) {
+    console.error('Entity extraction error:', error);
+    if (error instanceof StructuredOutputError) {
+      throw error;
+    }
+    throw new Error(`Failed to extract entities: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
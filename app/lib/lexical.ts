@@ -0,0 +1,123 @@
+// ============================================================================
+// BM25 Configuration
+// ============================================================================
+
+const BM25_K1 = 1.2; // Term frequency saturation
+const BM25_B = 0.75; // Document length normalization
+
+// Normalized score at which a page counts as mentioning a query: roughly three
+// quarters of the query's IDF-weighted terms appear in its best passages
+export const LEXICAL_MENTION_THRESHOLD = 0.75;
+
+export interface LexicalIndex {
+  score: (query: string, document: string) => number;
+}
+
+interface TermStats {
+  frequencies: Map<string, number>;
+  length: number;
+}
+
+// ============================================================================
+// Lexical Index
+// ============================================================================
+
+/**
+ * Build a BM25 index over a corpus of passages.
+ *
+ * Document frequencies and the average length come from the corpus, so scores
+ * for passages from different pages are comparable when they share an index.
+ * Scores are divided by the best score the query could reach, which puts them
+ * on a 0-1 scale: 1 means every query term appears in the passage.
+ */
+export function createLexicalIndex(documents: string[]): LexicalIndex {
+  const stats = new Map<string, TermStats>();
+  const documentFrequency = new Map<string, number>();
+
+  for (const document of documents) {
+    if (stats.has(document)) continue;
+
+    const termStats = getTermStats(document);
+    stats.set(document, termStats);
+
+    for (const term of Array.from(termStats.frequencies.keys())) {
+      documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+    }
+  }
+
+  const corpusSize = stats.size;
+  const averageLength = Math.max(
+    Array.from(stats.values()).reduce((sum, s) => sum + s.length, 0) / Math.max(corpusSize, 1),
+    1
+  );
+
+  const idf = (term: string) => {
+    const df = documentFrequency.get(term) || 0;
+    return Math.log(1 + (corpusSize - df + 0.5) / (df + 0.5));
+  };
+
+  return {
+    score: (query: string, document: string) => {
+      const queryTerms = Array.from(new Set(tokenize(query)));
+      if (queryTerms.length === 0) return 0;
+
+      const documentStats = stats.get(document) || getTermStats(document);
+      const lengthNorm = 1 - BM25_B + BM25_B * (documentStats.length / averageLength);
+
+      let score = 0;
+      let maxScore = 0;
+      for (const term of queryTerms) {
+        const weight = idf(term);
+        const tf = documentStats.frequencies.get(term) || 0;
+
+        score += weight * (tf * (BM25_K1 + 1)) / (tf + BM25_K1 * lengthNorm);
+        maxScore += weight * (BM25_K1 + 1) / (1 + BM25_K1 * lengthNorm);
+      }
+
+      return maxScore === 0 ? 0 : Math.min(1, score / maxScore);
+    },
+  };
+}
+
+// ============================================================================
+// Tokenization
+// ============================================================================
+
+/**
+ * Lowercase, strip punctuation, drop stop words and fold simple plurals
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[^\w\s]/g, ' ')
+    .split(/\s+/)
+    .filter(word => word.length > 1 && !STOP_WORDS.has(word))
+    .map(stem);
+}
+
+function stem(word: string): string {
+  if (word.length > 4 && word.endsWith('ies')) return `${word.slice(0, -3)}y`;
+  if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss') && !word.endsWith('us')) {
+    return word.slice(0, -1);
+  }
+  return word;
+}
+
+function getTermStats(document: string): TermStats {
+  const terms = tokenize(document);
+  const frequencies = new Map<string, number>();
+
+  for (const term of terms) {
+    frequencies.set(term, (frequencies.get(term) || 0) + 1);
+  }
+
+  return { frequencies, length: terms.length };
+}
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'can', 'do', 'does', 'for',
+  'from', 'how', 'i', 'if', 'in', 'into', 'is', 'it', 'its', 'my', 'of', 'on', 'or',
+  'our', 'should', 'so', 'than', 'that', 'the', 'their', 'then', 'there', 'these',
+  'this', 'to', 'was', 'we', 'what', 'when', 'where', 'which', 'who', 'why', 'will',
+  'with', 'you', 'your',
+]);
@@ -0,0 +1,236 @@
+import OpenAI from 'openai';
+import {
+  type LLMProvider,
+  type LLMProviderName,
+  type LLMSettings,
+  type LLMGenerateOptions,
+  AnalysisError,
+  RateLimitError,
+} from './types';
+import { estimateTokens } from './usage';
+import { withRateLimit, rateLimitedFetch } from './ratelimit';
+
+// ============================================================================
+// LLM Provider Configuration
+// ============================================================================
+
+const GEMINI_API_URL = 'https://generativelanguage.googleapis.com/v1beta/models';
+const DEFAULT_LOCAL_BASE_URL = 'http://localhost:11434/v1'; // Ollama's OpenAI-compatible endpoint
+const DEFAULT_TEMPERATURE = 0.3;
+const DEFAULT_MAX_TOKENS = 1000;
+
+const DEFAULT_MODELS: Record<LLMProviderName, string> = {
+  openai: 'gpt-3.5-turbo',
+  gemini: 'gemini-pro',
+  'openai-compatible': 'llama3.1',
+};
+
+interface GeminiResponse {
+  candidates?: Array<{
+    content?: {
+      parts?: Array<{
+        text: string;
+      }>;
+    };
+  }>;
+  usageMetadata?: {
+    promptTokenCount?: number;
+    candidatesTokenCount?: number;
+  };
+}
+
+// ============================================================================
+// Provider Factories
+// ============================================================================
+
+/**
+ * Create an LLM provider backed by OpenAI's chat completions API.
+ *
+ * Temperature and max tokens in `settings` override each call's own defaults,
+ * so one analysis can run every prompt with the same sampling settings.
+ */
+export function createOpenAILLMProvider(settings: LLMSettings = {}): LLMProvider {
+  return createChatCompletionsProvider(
+    'openai',
+    () => new OpenAI({
+      apiKey: process.env.OPENAI_API_KEY,
+      maxRetries: 0, // 429s, 5xx and connection errors are retried by the rate limiter
+    }),
+    settings.model || DEFAULT_MODELS.openai,
+    settings
+  );
+}
+
+/**
+ * Create an LLM provider for any server that speaks the OpenAI chat
+ * completions protocol, such as Ollama or the llama.cpp server.
+ *
+ * The endpoint comes from LLM_BASE_URL (default: a local Ollama) and the key,
+ * if the server needs one, from LLM_API_KEY.
+ */
+export function createOpenAICompatibleLLMProvider(settings: LLMSettings = {}): LLMProvider {
+  return createChatCompletionsProvider(
+    'openai-compatible',
+    () => new OpenAI({
+      apiKey: process.env.LLM_API_KEY || 'not-needed',
+      baseURL: process.env.LLM_BASE_URL || DEFAULT_LOCAL_BASE_URL,
+      maxRetries: 0,
+    }),
+    settings.model || process.env.LLM_MODEL || DEFAULT_MODELS['openai-compatible'],
+    settings
+  );
+}
+
+/**
+ * Create an LLM provider backed by Google's Gemini generateContent API
+ */
+export function createGeminiLLMProvider(settings: LLMSettings = {}): LLMProvider {
+  const model = settings.model || DEFAULT_MODELS.gemini;
+
+  return {
+    name: 'gemini',
+    model,
+    generate: async (prompt: string, options: LLMGenerateOptions = {}) => {
+      const apiKey = process.env.GEMINI_API_KEY;
+
+      if (!apiKey) {
+        throw new AnalysisError('Gemini API key not configured', 'LLM_ERROR', 500);
+      }
+
+      const maxTokens = settings.maxTokens ?? options.maxTokens ?? DEFAULT_MAX_TOKENS;
+
+      try {
+        const response = await rateLimitedFetch(
+          'gemini',
+          `${GEMINI_API_URL}/${model}:generateContent?key=${apiKey}`,
+          {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({
+              contents: [
+                {
+                  parts: [{ text: prompt }],
+                },
+              ],
+              generationConfig: {
+                temperature: settings.temperature ?? options.temperature ?? DEFAULT_TEMPERATURE,
+                maxOutputTokens: maxTokens,
+              },
+            }),
+          },
+          { tokens: estimateTokens(prompt) + maxTokens }
+        );
+
+        if (!response.ok) {
+          throw new Error(`Gemini API error: ${response.status} ${response.statusText}`);
+        }
+
+        const data: GeminiResponse = await response.json();
+        const text = data.candidates?.[0]?.content?.parts?.[0]?.text;
+
+        if (text === undefined) {
+          throw new Error('Invalid response from Gemini API');
+        }
+
+        options.usage?.record({
+          provider: 'gemini',
+          model,
+          inputTokens: data.usageMetadata?.promptTokenCount ?? estimateTokens(prompt),
+          outputTokens: data.usageMetadata?.candidatesTokenCount ?? estimateTokens(text),
+        });
+
+        return text.trim();
+      } catch (error) {
+        if (error instanceof RateLimitError) throw error;
+        console.error('Error generating with Gemini:', error);
+        throw new AnalysisError('Failed to generate text', 'LLM_ERROR', 500);
+      }
+    },
+  };
+}
+
+/**
+ * Resolve an LLM provider from per-analysis settings, falling back to the
+ * LLM_PROVIDER environment variable and then to whichever API key is set
+ */
+export function getLLMProvider(settings: LLMSettings = {}): LLMProvider {
+  const resolved = settings.provider || resolveDefaultProviderName();
+
+  switch (resolved) {
+    case 'openai':
+      return createOpenAILLMProvider(settings);
+    case 'gemini':
+      return createGeminiLLMProvider(settings);
+    case 'openai-compatible':
+      return createOpenAICompatibleLLMProvider(settings);
+    default:
+      throw new AnalysisError(`Unknown LLM provider: ${resolved}`, 'LLM_ERROR', 400);
+  }
+}
+
+// ============================================================================
+// Utilities
+// ============================================================================
+
+/**
+ * Shared chat completions provider. The client is created on first use so a
+ * provider can be resolved without an API key.
+ */
+function createChatCompletionsProvider(
+  name: LLMProviderName,
+  createClient: () => OpenAI,
+  model: string,
+  settings: LLMSettings
+): LLMProvider {
+  let client: OpenAI | null = null;
+
+  return {
+    name,
+    model,
+    generate: async (prompt: string, options: LLMGenerateOptions = {}) => {
+      const maxTokens = settings.maxTokens ?? options.maxTokens ?? DEFAULT_MAX_TOKENS;
+
+      try {
+        const openai = client || createClient();
+        client = openai;
+        const response = await withRateLimit(name, () => openai.chat.completions.create({
+          model,
+          messages: [{ role: 'user', content: prompt }],
+          response_format: options.json ? { type: 'json_object' } : undefined,
+          temperature: settings.temperature ?? options.temperature ?? DEFAULT_TEMPERATURE,
+          max_tokens: maxTokens,
+        }), { tokens: estimateTokens(prompt) + maxTokens });
+
+        const text = response.choices[0]?.message.content?.trim() || '';
+
+        // Local servers do not always report usage
+        options.usage?.record({
+          provider: name,
+          model,
+          inputTokens: response.usage?.prompt_tokens ?? estimateTokens(prompt),
+          outputTokens: response.usage?.completion_tokens ?? estimateTokens(text),
+        });
+
+        return text;
+      } catch (error) {
+        if (error instanceof RateLimitError) throw error;
+        console.error(`Error generating with ${name} (${model}):`, error);
+        throw new AnalysisError('Failed to generate text', 'LLM_ERROR', 500);
+      }
+    },
+  };
+}
+
+function resolveDefaultProviderName(): LLMProviderName {
+  const configured = process.env.LLM_PROVIDER;
+  if (configured === 'openai' || configured === 'gemini' || configured === 'openai-compatible') {
+    return configured;
+  }
+
+  if (process.env.OPENAI_API_KEY) return 'openai';
+  if (process.env.GEMINI_API_KEY) return 'gemini';
+  if (process.env.LLM_BASE_URL) return 'openai-compatible';
+  return 'openai';
+}
@@ -0,0 +1,161 @@
+import { type Passage, type PoolingStrategy } from './types';
+
+// ============================================================================
+// Passage Configuration
+// ============================================================================
+
+const DEFAULT_PASSAGE_SIZE = 1200; // Target characters per passage
+const MIN_PASSAGE_SIZE = 200; // Smaller trailing chunks are merged into the previous passage
+const MAX_PASSAGES = 50; // Upper bound on passages embedded per page
+const HEADING_PATTERN = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+
+export interface PassageOptions {
+  passageSize?: number;
+  maxPassages?: number;
+}
+
+// ============================================================================
+// Passage Splitting
+// ============================================================================
+
+/**
+ * Split page content into heading-aware passages.
+ *
+ * Markdown headings open a new section; each section is chunked on paragraph
+ * and sentence boundaries so no passage exceeds the configured size. Every
+ * passage keeps the heading trail it was found under.
+ */
+export function splitIntoPassages(
+  content: string,
+  options: PassageOptions = {}
+): Passage[] {
+  const passageSize = options.passageSize ?? DEFAULT_PASSAGE_SIZE;
+  const maxPassages = options.maxPassages ?? MAX_PASSAGES;
+
+  const passages: Passage[] = [];
+  const headingStack: Array<{ level: number; text: string }> = [];
+  let sectionLines: string[] = [];
+
+  const flushSection = () => {
+    const heading = headingStack.map(h => h.text).join(' > ');
+    const sectionText = sectionLines.join('\n').trim();
+    sectionLines = [];
+
+    if (!sectionText) return;
+
+    for (const chunk of chunkSection(sectionText, passageSize)) {
+      passages.push({
+        index: passages.length,
+        heading,
+        text: chunk,
+      });
+    }
+  };
+
+  for (const line of content.split('\n')) {
+    const headingMatch = line.trim().match(HEADING_PATTERN);
+
+    if (headingMatch) {
+      flushSection();
+
+      const level = headingMatch[1].length;
+      while (headingStack.length > 0 && headingStack[headingStack.length - 1].level >= level) {
+        headingStack.pop();
+      }
+      headingStack.push({ level, text: headingMatch[2] });
+    } else {
+      sectionLines.push(line);
+    }
+  }
+
+  flushSection();
+
+  return passages.slice(0, maxPassages);
+}
+
+/**
+ * Get the text that should be embedded for a passage (heading trail + body)
+ */
+export function getPassageEmbeddingText(passage: Passage): string {
+  return passage.heading ? `${passage.heading}\n\n${passage.text}` : passage.text;
+}
+
+/**
+ * Chunk a section into passages on paragraph, then sentence, boundaries
+ */
+function chunkSection(text: string, passageSize: number): string[] {
+  const units = text
+    .split(/\n\s*\n/)
+    .map(paragraph => paragraph.replace(/\s+/g, ' ').trim())
+    .filter(paragraph => paragraph.length > 0)
+    .flatMap(paragraph =>
+      paragraph.length > passageSize ? splitSentences(paragraph, passageSize) : [paragraph]
+    );
+
+  const chunks: string[] = [];
+  let current = '';
+
+  for (const unit of units) {
+    if (current && current.length + unit.length + 1 > passageSize) {
+      chunks.push(current);
+      current = unit;
+    } else {
+      current = current ? `${current} ${unit}` : unit;
+    }
+  }
+
+  if (current) {
+    // Avoid a tiny dangling passage at the end of a section
+    if (chunks.length > 0 && current.length < MIN_PASSAGE_SIZE) {
+      chunks[chunks.length - 1] = `${chunks[chunks.length - 1]} ${current}`;
+    } else {
+      chunks.push(current);
+    }
+  }
+
+  return chunks;
+}
+
+/**
+ * Split an oversized paragraph into sentence groups no longer than passageSize
+ */
+function splitSentences(paragraph: string, passageSize: number): string[] {
+  const sentences = paragraph.match(/[^.!?]+[.!?]*\s*/g) || [paragraph];
+  const pieces: string[] = [];
+
+  for (const sentence of sentences.map(s => s.trim()).filter(s => s.length > 0)) {
+    // Hard-wrap sentences that are themselves longer than a passage
+    for (let i = 0; i < sentence.length; i += passageSize) {
+      pieces.push(sentence.slice(i, i + passageSize));
+    }
+  }
+
+  return pieces;
+}
+
+// ============================================================================
+// Score Pooling
+// ============================================================================
+
+/**
+ * Pool per-passage similarity scores into a single page-level score
+ */
+export function poolPassageScores(
+  scores: number[],
+  strategy: PoolingStrategy = 'max',
+  topK: number = 3
+): number {
+  if (scores.length === 0) return 0;
+
+  switch (strategy) {
+    case 'mean':
+      return scores.reduce((sum, score) => sum + score, 0) / scores.length;
+    case 'topk': {
+      const top = [...scores].sort((a, b) => b - a).slice(0, Math.max(1, topK));
+      return top.reduce((sum, score) => sum + score, 0) / top.length;
+    }
+    case 'max':
+    default:
+      return Math.max(...scores);
+  }
+}
@@ -0,0 +1,259 @@
+import {
+  type PromptName,
+  type PromptOverride,
+  type PromptSet,
+  type PromptTemplate,
+  PromptNameSchema,
+  AnalysisError,
+} from './types';
+
+// ============================================================================
+// Prompt Registry
+// ============================================================================
+
+const PLACEHOLDER_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+/**
+ * Every registered prompt version. Published versions are never edited: a
+ * prompt change ships as a new version so earlier reports stay reproducible.
+ */
+export const PROMPT_TEMPLATES: PromptTemplate[] = [
+  {
+    name: 'query-fanout',
+    version: 'v1',
+    description: 'Expand a seed topic into typed sub-queries',
+    variables: ['seed', 'content', 'queriesPerType', 'typeGuide'],
+    template: `You are simulating the query fan-out of an AI search engine. Expand the seed topic into {{queriesPerType}} sub-queries for each of these fan-out types:
+{{typeGuide}}
+
+Every sub-query has a "parent": use the seed topic itself, or the exact text of another sub-query it was derived from.
+Use the page content only to understand the topic; write queries the way real users search.
+
+Seed topic: {{seed}}
+
+Page content: {{content}}
+
+Return ONLY a JSON object of the form {"queries": [{"query": "...", "type": "<fan-out type>", "parent": "..."}]}`,
+  },
+  {
+    name: 'keyword-extraction',
+    version: 'v1',
+    description: 'Extract keywords and search terms from page content',
+    variables: ['content', 'maxKeywords'],
+    template: `Extract {{maxKeywords}} relevant keywords and search terms from the following content. 
+    Focus on:
+    - Main topics and themes
+    - Technical terms and concepts
+    - Problem statements
+    - Related search queries users might use
+    
+    Return ONLY a JSON array of strings, no additional text or formatting.
+    
+    Content: {{content}}`,
+  },
+  {
+    name: 'entity-extraction',
+    version: 'v1',
+    description: 'Extract named entities with a type and relevance',
+    variables: ['content'],
+    template: `Extract key entities from the following content. 
+    For each entity, identify:
+    - The entity name
+    - Entity type (person, organization, product, concept, etc.)
+    - Relevance score (1-10)
+    
+    Return as JSON array: [{"entity": "name", "type": "type", "relevance": score}]
+    
+    Content: {{content}}`,
+  },
+  {
+    name: 'cluster-naming',
+    version: 'v1',
+    description: 'Name clusters of related queries',
+    variables: ['clusterList'],
+    template: `Each numbered line below is a cluster of related search queries. Give each cluster a short, distinct topic name (1-3 words, Title Case) and a one-sentence description of what the topic covers.
+
+{{clusterList}}
+
+Return ONLY a JSON object of the form {"topics": [{"cluster": 1, "name": "...", "description": "..."}]}`,
+  },
+  {
+    name: 'content-brief',
+    version: 'v1',
+    description: 'Write a content brief for a coverage gap',
+    variables: ['category', 'missingQueries', 'references'],
+    template: `You are an SEO content strategist. Write a content brief for a new page or section that closes this coverage gap.
+
+Topic area: {{category}}
+Queries the page must answer:
+{{missingQueries}}
+
+Competitor passages that currently rank for these queries:
+{{references}}
+
+Produce:
+- "title": a working title
+- "outline": H2 and H3 headings in reading order; each item is {"level": 2 or 3, "heading": "..."}
+- "questions": the specific questions the content must answer
+- "entities": products, brands, standards, people, places or concepts the content should mention
+
+Return ONLY a JSON object of the form {"title": "...", "outline": [...], "questions": [...], "entities": [...]}`,
+  },
+  {
+    name: 'citation-answer',
+    version: 'v1',
+    description: 'Answer a query from numbered sources with inline citations',
+    variables: ['query', 'sources'],
+    template: `You are an AI search engine. Answer the user's query in 3-6 sentences using ONLY the numbered sources below.
+
+Cite the source of every claim inline with its number in square brackets, e.g. [2] or [1][3], directly after the claim. Cite the most useful source first. Do not cite a source that does not support the claim, and do not use outside knowledge.
+
+Query: {{query}}
+
+Sources:
+{{sources}}
+
+Return ONLY a JSON object of the form {"answer": "..."}`,
+  },
+  {
+    name: 'intent-classification',
+    version: 'v1',
+    description: 'Label search queries with their search intent',
+    variables: ['queries'],
+    template: `Classify the search intent of each numbered query as exactly one of:
+- "informational": the searcher wants to learn or understand something (how, what, why, guides, definitions)
+- "commercial": the searcher is researching options before a purchase (best, top, reviews, comparisons, alternatives)
+- "transactional": the searcher wants to act now (buy, pricing, order, sign up, download, book, hire)
+- "navigational": the searcher wants a specific site, brand page or account (login, official site, a named product's homepage)
+
+Queries:
+{{queries}}
+
+Return ONLY a JSON object of the form {"intents": [{"id": 1, "intent": "informational"}]} with one item per query.`,
+  },
+];
+
+export const PROMPT_NAMES: PromptName[] = PromptNameSchema.options;
+
+// ============================================================================
+// Template Resolution
+// ============================================================================
+
+/**
+ * Latest registered version of a prompt
+ */
+export function getLatestPromptTemplate(name: PromptName): PromptTemplate {
+  const versions = getPromptVersions(name);
+  return versions[versions.length - 1];
+}
+
+/**
+ * Registered versions of a prompt, oldest first
+ */
+export function getPromptVersions(name: PromptName): PromptTemplate[] {
+  return PROMPT_TEMPLATES.filter(template => template.name === name);
+}
+
+/**
+ * Resolve a prompt, applying a project override when given.
+ *
+ * An override with only a version pins a registered version (to reproduce an
+ * older report). An override with a template replaces the prompt; its
+ * version must be a new label so results never confuse it with a registered
+ * one, and it may only use the registered prompt's variables.
+ */
+export function resolvePromptTemplate(
+  name: PromptName,
+  override?: PromptOverride
+): PromptTemplate {
+  if (!override) {
+    return getLatestPromptTemplate(name);
+  }
+
+  const versions = getPromptVersions(name);
+  const registered = versions.find(template => template.version === override.version);
+
+  if (!override.template) {
+    if (!registered) {
+      throw new AnalysisError(`Unknown version "${override.version}" of prompt ${name}`, 'PROMPT_ERROR', 400);
+    }
+    return registered;
+  }
+
+  if (registered) {
+    throw new AnalysisError(
+      `Custom template for prompt ${name} reuses registered version "${override.version}"`,
+      'PROMPT_ERROR',
+      400
+    );
+  }
+
+  const latest = versions[versions.length - 1];
+  const unknown = getTemplateVariables(override.template).filter(v => !latest.variables.includes(v));
+  if (unknown.length > 0) {
+    throw new AnalysisError(
+      `Custom template for prompt ${name} uses unknown variables: ${unknown.join(', ')}`,
+      'PROMPT_ERROR',
+      400
+    );
+  }
+
+  return { ...latest, version: override.version, template: override.template, custom: true };
+}
+
+/**
+ * Resolve every prompt for an analysis
+ */
+export function resolvePromptSet(
+  overrides: Partial<Record<PromptName, PromptOverride>> = {}
+): PromptSet {
+  const prompts = {} as PromptSet;
+  for (const name of PROMPT_NAMES) {
+    prompts[name] = resolvePromptTemplate(name, overrides[name]);
+  }
+  return prompts;
+}
+
+/**
+ * Prompt name to version, as recorded on analysis results
+ */
+export function getPromptVersionMap(prompts: PromptSet): Record<PromptName, string> {
+  const versions = {} as Record<PromptName, string>;
+  for (const name of PROMPT_NAMES) {
+    versions[name] = prompts[name].version;
+  }
+  return versions;
+}
+
+// ============================================================================
+// Rendering
+// ============================================================================
+
+/**
+ * Fill a template's {{placeholders}}. Every placeholder the template uses must
+ * have a value.
+ */
+export function renderPrompt(
+  template: PromptTemplate,
+  variables: Record<string, string | number>
+): string {
+  return template.template.replace(PLACEHOLDER_PATTERN, (_, variable: string) => {
+    if (!(variable in variables)) {
+      throw new AnalysisError(
+        `Prompt ${template.name}@${template.version} is missing variable "${variable}"`,
+        'PROMPT_ERROR',
+        500
+      );
+    }
+    return String(variables[variable]);
+  });
+}
+
+function getTemplateVariables(template: string): string[] {
+  const variables = new Set<string>();
+  template.replace(PLACEHOLDER_PATTERN, (placeholder, variable: string) => {
+    variables.add(variable);
+    return placeholder;
+  });
+  return Array.from(variables);
+}
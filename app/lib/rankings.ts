@@ -0,0 +1,221 @@
+import {
+  type AnalysisResult,
+  type QueryMatch,
+  type QueryRankHistory,
+  type QuerySearch,
+  type RankCorrelation,
+  type RankGroupStats,
+  type RankLedgerEntry,
+  type SerpRank,
+} from './types';
+import { normalizeDomain } from './sources';
+
+// ============================================================================
+// Rank Tracking Configuration
+// ============================================================================
+
+const MIN_CORRELATION_PAIRS = 5; // Fewer page x query pairs say nothing about correlation
+const MAX_LEDGER_ENTRIES = 1000; // Rank entries kept per target URL
+
+// ============================================================================
+// SERP Ranks
+// ============================================================================
+
+/**
+ * Record each page's Google rank on its matches for the queries that were
+ * searched. Matches for queries without a search are left as they are.
+ */
+export function annotateSerpRanks(
+  pageMatches: QueryMatch[][],
+  pageUrls: string[],
+  searches: QuerySearch[]
+): QueryMatch[][] {
+  const ranksByQuery = new Map<string, SerpRank[]>();
+  for (const search of searches) {
+    ranksByQuery.set(search.query.trim().toLowerCase(), rankPages(search, pageUrls));
+  }
+
+  return pageMatches.map((matches, pageIndex) =>
+    matches.map(match => {
+      const ranks = ranksByQuery.get(match.query.trim().toLowerCase());
+      return ranks ? { ...match, serpRank: ranks[pageIndex] } : match;
+    })
+  );
+}
+
+/**
+ * Each page's position for one search, and the other pages ranking above it
+ */
+function rankPages(search: QuerySearch, pageUrls: string[]): SerpRank[] {
+  const results = search.results.map((result, index) => ({
+    page: normalizePageUrl(result.link),
+    domain: normalizeDomain(result.link),
+    position: result.position || index + 1,
+  }));
+
+  const positions = pageUrls.map(url => {
+    const page = normalizePageUrl(url);
+    return results.find(result => result.page === page)?.position ?? null;
+  });
+
+  return pageUrls.map((url, index) => {
+    const domain = normalizeDomain(url);
+    const domainPositions = results.filter(result => result.domain === domain).map(result => result.position);
+    const position = positions[index];
+
+    return {
+      position,
+      domainPosition: domainPositions.length > 0 ? Math.min(...domainPositions) : null,
+      outrankedBy: pageUrls.filter((_, other) => {
+        const otherPosition = positions[other];
+        return other !== index && otherPosition !== null && (position === null || otherPosition < position);
+      }),
+      depth: results.length,
+    };
+  });
+}
+
+// Host without "www." plus path without a trailing slash; query strings and fragments are ignored
+function normalizePageUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    return `${parsed.hostname.toLowerCase().replace(/^www\./, '')}${parsed.pathname.replace(/\/+$/, '')}`;
+  } catch {
+    return url;
+  }
+}
+
+// ============================================================================
+// Coverage and Rank Correlation
+// ============================================================================
+
+/**
+ * Whether coverage goes with ranking, over every page and searched query.
+ *
+ * Pages missing from the results count as ranking just below the last result
+ * searched. The correlation is Spearman's between similarity and rank, signed
+ * so that a positive value means better-covered pages rank higher.
+ */
+export function calculateRankCorrelation(pageMatches: QueryMatch[][]): RankCorrelation | undefined {
+  const pairs = pageMatches.flat().filter(match => match.serpRank);
+  if (pairs.length < MIN_CORRELATION_PAIRS) {
+    return undefined;
+  }
+
+  const positions = pairs.map(match => match.serpRank!.position ?? match.serpRank!.depth + 1);
+
+  return {
+    pairs: pairs.length,
+    correlation: spearman(pairs.map(match => match.similarity), positions.map(position => -position)),
+    covered: summarizeRanks(pairs.filter(match => match.matched)),
+    uncovered: summarizeRanks(pairs.filter(match => !match.matched)),
+  };
+}
+
+function summarizeRanks(matches: QueryMatch[]): RankGroupStats {
+  const ranked = matches
+    .map(match => match.serpRank!.position)
+    .filter((position): position is number => position !== null);
+
+  return {
+    pairs: matches.length,
+    rankingRate: matches.length > 0 ? Math.round((ranked.length / matches.length) * 100) / 100 : 0,
+    averagePosition: ranked.length > 0
+      ? Math.round((ranked.reduce((sum, position) => sum + position, 0) / ranked.length) * 10) / 10
+      : null,
+  };
+}
+
+function spearman(a: number[], b: number[]): number | null {
+  const rankA = averageRanks(a);
+  const rankB = averageRanks(b);
+  const meanA = rankA.reduce((sum, r) => sum + r, 0) / rankA.length;
+  const meanB = rankB.reduce((sum, r) => sum + r, 0) / rankB.length;
+
+  let covariance = 0;
+  let varianceA = 0;
+  let varianceB = 0;
+  for (let i = 0; i < rankA.length; i++) {
+    covariance += (rankA[i] - meanA) * (rankB[i] - meanB);
+    varianceA += (rankA[i] - meanA) ** 2;
+    varianceB += (rankB[i] - meanB) ** 2;
+  }
+
+  if (varianceA === 0 || varianceB === 0) return null;
+  return Math.round((covariance / Math.sqrt(varianceA * varianceB)) * 100) / 100;
+}
+
+// Ranks from 1, tied values sharing their average rank
+function averageRanks(values: number[]): number[] {
+  const order = values.map((value, index) => ({ value, index })).sort((x, y) => x.value - y.value);
+  const ranks = new Array<number>(values.length);
+
+  for (let start = 0; start < order.length;) {
+    let end = start;
+    while (end + 1 < order.length && order[end + 1].value === order[start].value) end++;
+    const rank = (start + end) / 2 + 1;
+    for (let i = start; i <= end; i++) ranks[order[i].index] = rank;
+    start = end + 1;
+  }
+
+  return ranks;
+}
+
+// ============================================================================
+// Rank History
+// ============================================================================
+
+/**
+ * Ledger entries for the target's rank on every query the analysis searched
+ */
+export function extractRankEntries(result: AnalysisResult): RankLedgerEntry[] {
+  if (!result.coverageMatrix) return [];
+
+  return result.coverageMatrix.rows.flatMap(row => {
+    const rank = row.cells[0]?.serpRank; // The target is always the first column
+    return rank ? [{ timestamp: result.timestamp, query: row.query, rank: rank.position }] : [];
+  });
+}
+
+/**
+ * Append entries to a URL's ledger, replacing any recorded earlier for the
+ * same analysis and query, and keep the newest `maxEntries`
+ */
+export function appendRankEntries(
+  ledger: RankLedgerEntry[],
+  entries: RankLedgerEntry[],
+  maxEntries: number = MAX_LEDGER_ENTRIES
+): RankLedgerEntry[] {
+  const keys = new Set(entries.map(entry => ledgerKey(entry)));
+  return [...ledger.filter(entry => !keys.has(ledgerKey(entry))), ...entries]
+    .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
+    .slice(-maxEntries);
+}
+
+/**
+ * The target's rank per query from its ledger, oldest first, with the change
+ * between the last two analyses that searched the query
+ */
+export function buildRankHistory(ledger: RankLedgerEntry[]): QueryRankHistory[] {
+  const histories = new Map<string, QueryRankHistory>();
+
+  const entries = [...ledger].sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+  for (const entry of entries) {
+    const key = entry.query.trim().toLowerCase();
+    const history = histories.get(key) || { query: entry.query, points: [], change: null };
+    history.points.push({ timestamp: entry.timestamp, position: entry.rank });
+    histories.set(key, history);
+  }
+
+  return Array.from(histories.values()).map(history => {
+    const [previous, latest] = history.points.slice(-2);
+    const change = latest && previous.position !== null && latest.position !== null
+      ? previous.position - latest.position
+      : null;
+    return { ...history, change };
+  });
+}
+
+function ledgerKey(entry: RankLedgerEntry): string {
+  return `${entry.timestamp}|${entry.query.trim().toLowerCase()}`;
+}
@@ -0,0 +1,332 @@
+import { APIConnectionError, APIUserAbortError } from 'openai';
+import { type RateLimitConfig, RateLimitError } from './types';
+
+// ============================================================================
+// Rate Limit Configuration
+// ============================================================================
+
+const MAX_QUEUE_WAIT = 60000; // Longest a call waits for capacity before failing
+const MAX_RATE_LIMIT_RETRIES = 2; // Retries after a provider answers 429
+const DEFAULT_RETRY_AFTER = 5; // Seconds to back off when a 429 has no Retry-After
+const MAX_TRANSIENT_RETRIES = 2; // Retries after a 5xx, timeout or dropped connection
+const TRANSIENT_BACKOFF = 1000; // Milliseconds before the first transient retry, doubled each time
+
+// Network failures worth retrying; DNS misses and certificate errors are not
+const TRANSIENT_NETWORK_CODES = [
+  'ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'EPIPE', 'EAI_AGAIN',
+  'UND_ERR_SOCKET', 'UND_ERR_CONNECT_TIMEOUT', 'UND_ERR_HEADERS_TIMEOUT',
+];
+
+// Conservative defaults for entry-level plans. Override any of them with
+// RATE_LIMIT_<PROVIDER>_RPM, _TPM and _CONCURRENCY, e.g. RATE_LIMIT_OPENAI_RPM.
+const DEFAULT_LIMITS: Record<string, RateLimitConfig> = {
+  openai: { rpm: 500, tpm: 200000, concurrency: 8 },
+  gemini: { rpm: 60, tpm: 1000000, concurrency: 4 },
+  'openai-compatible': { concurrency: 2 }, // Local servers run one or two requests at a time
+  cohere: { rpm: 100, concurrency: 4 },
+  firecrawl: { rpm: 20, concurrency: 3 },
+  serpapi: { rpm: 60, concurrency: 2 },
+  fetch: { rpm: 120, concurrency: 5 },
+};
+
+const FALLBACK_LIMIT: RateLimitConfig = { rpm: 60, concurrency: 2 };
+
+interface TokenBucket {
+  capacity: number;
+  available: number;
+  refillPerMs: number;
+  updatedAt: number;
+}
+
+interface ProviderLimiter {
+  config: RateLimitConfig;
+  requests: TokenBucket | null;
+  tokens: TokenBucket | null;
+  active: number;
+  waiting: Array<() => void>;
+  pausedUntil: number; // Set from Retry-After; every call to the provider waits
+}
+
+export interface RateLimitOptions {
+  tokens?: number; // Estimated tokens the call consumes, for the TPM bucket
+}
+
+// One limiter per provider for the whole server process, so concurrent
+// analyses share the same budget
+const limiters = new Map<string, ProviderLimiter>();
+
+// ============================================================================
+// Rate-Limited Calls
+// ============================================================================
+
+/**
+ * Run a provider call once the provider's request, token and concurrency
+ * budgets allow it.
+ *
+ * If the provider answers 429 every call to it pauses for the Retry-After
+ * period and the call is retried. 5xx responses, timeouts and dropped
+ * connections are retried with exponential backoff. A RateLimitError is thrown
+ * when the 429 retries run out or the call waits more than a minute for
+ * capacity.
+ */
+export async function withRateLimit<T>(
+  provider: string,
+  call: () => Promise<T>,
+  options: RateLimitOptions = {}
+): Promise<T> {
+  const limiter = getLimiter(provider);
+  let rateLimitRetries = 0;
+  let transientRetries = 0;
+
+  for (;;) {
+    await acquire(limiter, provider, options.tokens || 0);
+    let backoff = 0;
+
+    try {
+      return await call();
+    } catch (error) {
+      const retryAfter = getRetryAfter(error);
+
+      if (retryAfter !== undefined) {
+        limiter.pausedUntil = Math.max(limiter.pausedUntil, Date.now() + retryAfter * 1000);
+
+        if (rateLimitRetries++ >= MAX_RATE_LIMIT_RETRIES) {
+          throw new RateLimitError(`${provider} rate limit exceeded`, retryAfter);
+        }
+        console.warn(`${provider} rate limited, retrying in ${retryAfter}s`);
+      } else if (isTransientError(error) && transientRetries < MAX_TRANSIENT_RETRIES) {
+        backoff = TRANSIENT_BACKOFF * 2 ** transientRetries++;
+        console.warn(`${provider} request failed (${(error as Error).message}), retrying in ${backoff / 1000}s`);
+      } else {
+        throw error;
+      }
+    } finally {
+      release(limiter);
+    }
+
+    // Back off without holding a concurrency slot
+    if (backoff > 0) {
+      await new Promise(resolve => setTimeout(resolve, backoff));
+    }
+  }
+}
+
+/**
+ * fetch() through the provider's limiter. A 429 response honours its
+ * Retry-After header; every other response is returned to the caller.
+ */
+export async function rateLimitedFetch(
+  provider: string,
+  url: string,
+  init?: RequestInit,
+  options: RateLimitOptions = {}
+): Promise<Response> {
+  return withRateLimit(provider, async () => {
+    const response = await fetch(url, init);
+
+    if (response.status === 429) {
+      throw new RateLimitError(
+        `${provider} rate limit exceeded`,
+        parseRetryAfter(response.headers.get('retry-after'))
+      );
+    }
+
+    return response;
+  }, options);
+}
+
+/**
+ * Override a provider's limits, e.g. for a paid plan
+ */
+export function configureRateLimit(provider: string, config: Partial<RateLimitConfig>): void {
+  limiters.set(provider, createLimiter({ ...getRateLimitConfig(provider), ...config }));
+}
+
+/**
+ * Effective limits for a provider: environment overrides over the defaults
+ */
+export function getRateLimitConfig(provider: string): RateLimitConfig {
+  const existing = limiters.get(provider);
+  if (existing) return existing.config;
+
+  const defaults = DEFAULT_LIMITS[provider] || FALLBACK_LIMIT;
+  const prefix = `RATE_LIMIT_${provider.toUpperCase().replace(/[^A-Z0-9]+/g, '_')}`;
+
+  return {
+    rpm: readLimit(`${prefix}_RPM`) ?? defaults.rpm,
+    tpm: readLimit(`${prefix}_TPM`) ?? defaults.tpm,
+    concurrency: readLimit(`${prefix}_CONCURRENCY`) ?? defaults.concurrency,
+  };
+}
+
+// ============================================================================
+// Limiter Internals
+// ============================================================================
+
+function getLimiter(provider: string): ProviderLimiter {
+  let limiter = limiters.get(provider);
+  if (!limiter) {
+    limiter = createLimiter(getRateLimitConfig(provider));
+    limiters.set(provider, limiter);
+  }
+  return limiter;
+}
+
+function createLimiter(config: RateLimitConfig): ProviderLimiter {
+  return {
+    config,
+    requests: config.rpm ? createBucket(config.rpm) : null,
+    tokens: config.tpm ? createBucket(config.tpm) : null,
+    active: 0,
+    waiting: [],
+    pausedUntil: 0,
+  };
+}
+
+function createBucket(perMinute: number): TokenBucket {
+  return {
+    capacity: perMinute,
+    available: perMinute,
+    refillPerMs: perMinute / 60000,
+    updatedAt: Date.now(),
+  };
+}
+
+/**
+ * Take a concurrency slot, then wait until the request and token buckets can
+ * cover the call. Both waits share one deadline; the slot is given back if the
+ * bucket wait would pass it.
+ */
+async function acquire(limiter: ProviderLimiter, provider: string, tokens: number): Promise<void> {
+  const deadline = Date.now() + MAX_QUEUE_WAIT;
+
+  while (limiter.active >= Math.max(1, limiter.config.concurrency)) {
+    const freed = await waitForSlot(limiter, deadline - Date.now());
+    if (!freed) {
+      throw new RateLimitError(`${provider} concurrency limit reached`, DEFAULT_RETRY_AFTER);
+    }
+  }
+  limiter.active++;
+
+  // A call larger than the whole TPM budget waits for a full bucket
+  const cost = limiter.tokens ? Math.min(tokens, limiter.tokens.capacity) : 0;
+
+  for (;;) {
+    const now = Date.now();
+    const wait = Math.max(
+      limiter.pausedUntil - now,
+      timeUntilAvailable(limiter.requests, 1, now),
+      timeUntilAvailable(limiter.tokens, cost, now)
+    );
+
+    if (wait <= 0) {
+      take(limiter.requests, 1);
+      take(limiter.tokens, cost);
+      return;
+    }
+
+    if (now + wait > deadline) {
+      release(limiter);
+      throw new RateLimitError(`${provider} rate limit budget exhausted`, Math.ceil(wait / 1000));
+    }
+
+    await new Promise(resolve => setTimeout(resolve, wait));
+  }
+}
+
+/**
+ * Wait up to `timeout` ms for a call to give back its slot. On timeout the
+ * waiter leaves the queue and false is returned.
+ */
+function waitForSlot(limiter: ProviderLimiter, timeout: number): Promise<boolean> {
+  if (timeout <= 0) return Promise.resolve(false);
+
+  return new Promise(resolve => {
+    const waiter = () => {
+      clearTimeout(timer);
+      resolve(true);
+    };
+    const timer = setTimeout(() => {
+      const index = limiter.waiting.indexOf(waiter);
+      if (index !== -1) limiter.waiting.splice(index, 1);
+      resolve(false);
+    }, timeout);
+
+    limiter.waiting.push(waiter);
+  });
+}
+
+function release(limiter: ProviderLimiter): void {
+  limiter.active--;
+  limiter.waiting.shift()?.();
+}
+
+/**
+ * Milliseconds until the bucket holds `amount`, after refilling it to `now`
+ */
+function timeUntilAvailable(bucket: TokenBucket | null, amount: number, now: number): number {
+  if (!bucket || amount === 0) return 0;
+
+  bucket.available = Math.min(bucket.capacity, bucket.available + (now - bucket.updatedAt) * bucket.refillPerMs);
+  bucket.updatedAt = now;
+
+  return bucket.available >= amount ? 0 : Math.ceil((amount - bucket.available) / bucket.refillPerMs);
+}
+
+function take(bucket: TokenBucket | null, amount: number): void {
+  if (bucket) bucket.available -= amount;
+}
+
+// ============================================================================
+// Utilities
+// ============================================================================
+
+/**
+ * Seconds to back off when an error is a rate limit response: our own
+ * RateLimitError, or an SDK error carrying status 429
+ */
+function getRetryAfter(error: unknown): number | undefined {
+  if (error instanceof RateLimitError) {
+    return error.retryAfter;
+  }
+
+  const status = (error as { status?: number } | null)?.status;
+  if (status !== 429) return undefined;
+
+  const headers = (error as { headers?: Record<string, string | null | undefined> }).headers;
+  return parseRetryAfter(headers?.['retry-after']);
+}
+
+/**
+ * Whether a failed call is worth retrying: a 5xx or 408 response, an SDK
+ * connection error or timeout, or a dropped socket under fetch()
+ */
+function isTransientError(error: unknown): boolean {
+  if (error instanceof RateLimitError || error instanceof APIUserAbortError) return false;
+  if (error instanceof APIConnectionError) return true;
+
+  const status = (error as { status?: number } | null)?.status;
+  if (typeof status === 'number') return status >= 500 || status === 408;
+
+  const { code, cause } = (error || {}) as { code?: string; cause?: { code?: string } };
+  const networkCode = code || cause?.code;
+  return !!networkCode && TRANSIENT_NETWORK_CODES.includes(networkCode);
+}
+
+/**
+ * Retry-After is either a number of seconds or an HTTP date
+ */
+function parseRetryAfter(value: string | null | undefined): number {
+  if (!value) return DEFAULT_RETRY_AFTER;
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) return Math.max(0, seconds);
+
+  const date = Date.parse(value);
+  return isNaN(date) ? DEFAULT_RETRY_AFTER : Math.max(0, Math.ceil((date - Date.now()) / 1000));
+}
+
+function readLimit(name: string): number | undefined {
+  const value = Number(process.env[name]);
+  return process.env[name] && value > 0 ? value : undefined;
+}
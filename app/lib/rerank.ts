@@ -0,0 +1,236 @@
+import {
+  type RerankerProvider,
+  type RerankerProviderName,
+  type Passage,
+  type QueryMatch,
+  type UsageTracker,
+  AnalysisError,
+  RateLimitError,
+} from './types';
+import { cosineSimilarity } from './embeddings';
+import { getPassageEmbeddingText } from './passages';
+import { tokenize } from './lexical';
+import { rateLimitedFetch } from './ratelimit';
+
+// ============================================================================
+// Reranker Configuration
+// ============================================================================
+
+const COHERE_RERANK_URL = 'https://api.cohere.com/v1/rerank';
+const MAX_RERANK_INPUT = 4000; // Characters sent per document
+const DEFAULT_RERANK_CANDIDATES = 3; // Top passages per page passed to the reranker
+const RERANK_MATCH_THRESHOLD = 0.5; // Reranked relevance needed for a match
+
+const DEFAULT_MODELS: Record<RerankerProviderName, string> = {
+  cohere: 'rerank-english-v3.0',
+  local: 'term-overlap-v1',
+};
+
+interface CohereRerankResponse {
+  results?: Array<{
+    index: number;
+    relevance_score: number;
+  }>;
+}
+
+// ============================================================================
+// Provider Factories
+// ============================================================================
+
+/**
+ * Create a reranker backed by Cohere's rerank API
+ */
+export function createCohereRerankerProvider(
+  model: string = DEFAULT_MODELS.cohere
+): RerankerProvider {
+  return {
+    name: 'cohere',
+    model,
+    rerank: async (query: string, documents: string[], usage?: UsageTracker) => {
+      const apiKey = process.env.COHERE_API_KEY;
+
+      if (!apiKey) {
+        throw new AnalysisError('Cohere API key not configured', 'RERANK_ERROR', 500);
+      }
+
+      try {
+        const response = await rateLimitedFetch('cohere', COHERE_RERANK_URL, {
+          method: 'POST',
+          headers: {
+            'Authorization': `Bearer ${apiKey}`,
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            model,
+            query,
+            documents: documents.map(document => document.slice(0, MAX_RERANK_INPUT)),
+          }),
+        });
+
+        if (!response.ok) {
+          throw new Error(`Cohere API error: ${response.status} ${response.statusText}`);
+        }
+
+        const data: CohereRerankResponse = await response.json();
+
+        if (!data.results) {
+          throw new Error('Invalid response from Cohere API');
+        }
+
+        usage?.record({ provider: 'cohere', model });
+
+        // Results come back sorted by relevance; put them back in input order
+        const scores = new Array<number>(documents.length).fill(0);
+        for (const result of data.results) {
+          scores[result.index] = result.relevance_score;
+        }
+        return scores;
+      } catch (error) {
+        if (error instanceof RateLimitError) throw error;
+        console.error('Error reranking with Cohere:', error);
+        throw new AnalysisError('Failed to rerank passages', 'RERANK_ERROR', 500);
+      }
+    },
+  };
+}
+
+/**
+ * Create an offline stand-in for a cross-encoder.
+ *
+ * It reads the query and passage together, scoring the share of query terms
+ * the passage contains and the share of query bigrams it contains in order,
+ * so passages that state the query outright outrank ones that merely share
+ * its theme.
+ */
+export function createLocalRerankerProvider(): RerankerProvider {
+  return {
+    name: 'local',
+    model: DEFAULT_MODELS.local,
+    rerank: async (query: string, documents: string[], usage?: UsageTracker) => {
+      usage?.record({ provider: 'local', model: DEFAULT_MODELS.local });
+      return documents.map(document => scoreTermOverlap(query, document));
+    },
+  };
+}
+
+/**
+ * Resolve a reranker by name, falling back to Cohere when a key is set
+ */
+export function getRerankerProvider(
+  name?: RerankerProviderName,
+  model?: string
+): RerankerProvider {
+  const resolved = name || (process.env.COHERE_API_KEY ? 'cohere' : 'local');
+
+  switch (resolved) {
+    case 'cohere':
+      return createCohereRerankerProvider(model);
+    case 'local':
+      return createLocalRerankerProvider();
+    default:
+      throw new AnalysisError(`Unknown reranker: ${resolved}`, 'RERANK_ERROR', 400);
+  }
+}
+
+// ============================================================================
+// Rerank Stage
+// ============================================================================
+
+/**
+ * Rerank each query's best passages across every page.
+ *
+ * The top passages by embedding similarity are taken from each page and sent
+ * to the reranker together, one request per query; the requests run
+ * concurrently and the reranker's rate limiter paces them. A page's reranked
+ * score for a query is its best candidate's relevance. That score replaces
+ * `similarity`, so it decides `matched` and feeds the category and overall
+ * scores; the embedding-stage similarity is kept as `retrievalSimilarity` and
+ * the winning passage becomes the match context. Match sets follow the order
+ * of `pagePassages`.
+ */
+export async function rerankPageMatches(
+  queries: string[],
+  queryEmbeddings: number[][],
+  pagePassages: Passage[][],
+  pagePassageEmbeddings: number[][][],
+  pageMatches: QueryMatch[][],
+  reranker: RerankerProvider,
+  candidatesPerPage: number = DEFAULT_RERANK_CANDIDATES
+): Promise<QueryMatch[][]> {
+  const results = await Promise.all(queries.map(async (query, queryIndex) => {
+    const queryEmbedding = queryEmbeddings[queryIndex];
+    const candidates = pagePassages.flatMap((passages, pageIndex) =>
+      pagePassageEmbeddings[pageIndex]
+        .map((embedding, passageIndex) => ({
+          pageIndex,
+          passage: passages[passageIndex],
+          similarity: cosineSimilarity(embedding, queryEmbedding),
+        }))
+        .sort((a, b) => b.similarity - a.similarity)
+        .slice(0, candidatesPerPage)
+    );
+
+    const scores = candidates.length > 0
+      ? await reranker.rerank(query, candidates.map(c => getPassageEmbeddingText(c.passage)))
+      : [];
+
+    const best: Array<{ score: number; passage?: string }> = pagePassages.map(() => ({ score: 0 }));
+    candidates.forEach((candidate, index) => {
+      if (scores[index] > best[candidate.pageIndex].score) {
+        best[candidate.pageIndex] = { score: scores[index], passage: candidate.passage.text };
+      }
+    });
+
+    return [query, best] as const;
+  }));
+  const reranked = new Map(results);
+
+  return pageMatches.map((matches, pageIndex) =>
+    matches
+      .map(match => {
+        const result = reranked.get(match.query)?.[pageIndex];
+        if (!result) return match;
+
+        return {
+          ...match,
+          similarity: result.score,
+          retrievalSimilarity: match.similarity,
+          rerankScore: result.score,
+          matched: result.score >= RERANK_MATCH_THRESHOLD,
+          context: result.passage ?? match.context,
+        };
+      })
+      .sort((a, b) => b.similarity - a.similarity)
+  );
+}
+
+// ============================================================================
+// Local Scoring Utilities
+// ============================================================================
+
+/**
+ * Blend query term coverage with in-order query bigram coverage
+ */
+function scoreTermOverlap(query: string, document: string): number {
+  const queryTerms = tokenize(query);
+  const documentTerms = tokenize(document);
+  if (queryTerms.length === 0 || documentTerms.length === 0) return 0;
+
+  const documentTermSet = new Set(documentTerms);
+  const uniqueQueryTerms = Array.from(new Set(queryTerms));
+  const termCoverage = uniqueQueryTerms.filter(term => documentTermSet.has(term)).length /
+    uniqueQueryTerms.length;
+
+  if (queryTerms.length < 2) {
+    return termCoverage;
+  }
+
+  const documentBigrams = new Set(
+    documentTerms.slice(1).map((term, index) => `${documentTerms[index]} ${term}`)
+  );
+  const queryBigrams = queryTerms.slice(1).map((term, index) => `${queryTerms[index]} ${term}`);
+  const bigramCoverage = queryBigrams.filter(bigram => documentBigrams.has(bigram)).length /
+    queryBigrams.length;
+
+  return 0.6 * termCoverage + 0.4 * bigramCoverage;
+}
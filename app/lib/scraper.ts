@@ -1,4 +1,5 @@
-import { type ScrapedContent, ScrapingError } from './types';
+import { type ScrapedContent, type UsageTracker, ScrapingError } from './types';
+import { rateLimitedFetch } from './ratelimit';
 
 // ============================================================================
 // Scraping Configuration
@@ -33,7 +34,7 @@ interface FirecrawlResponse {
 /**
  * Extract content from a URL using Firecrawl API (primary method)
  */
-async function scrapeWithFirecrawl(url: string): Promise<ScrapedContent> {
+async function scrapeWithFirecrawl(url: string, usage?: UsageTracker): Promise<ScrapedContent> {
   const apiKey = process.env.FIRECRAWL_API_KEY;
   
   if (!apiKey) {
@@ -41,7 +42,7 @@ async function scrapeWithFirecrawl(url: string): Promise<ScrapedContent> {
   }
 
   try {
-    const response = await fetch(FIRECRAWL_API_URL, {
+    const response = await rateLimitedFetch('firecrawl', FIRECRAWL_API_URL, {
       method: 'POST',
       headers: {
         'Authorization': `Bearer ${apiKey}`,
@@ -61,6 +62,7 @@ async function scrapeWithFirecrawl(url: string): Promise<ScrapedContent> {
       throw new Error(`HTTP ${response.status}: ${response.statusText}`);
     }
 
+    usage?.record({ provider: 'firecrawl' });
     const data: FirecrawlResponse = await response.json();
 
     if (!data.success || !data.data) {
@@ -95,12 +97,12 @@ async function scrapeWithFirecrawl(url: string): Promise<ScrapedContent> {
 /**
  * Fallback content extraction using simple fetch and parsing
  */
-async function scrapeWithFallback(url: string): Promise<ScrapedContent> {
+async function scrapeWithFallback(url: string, usage?: UsageTracker): Promise<ScrapedContent> {
   try {
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), TIMEOUT);
 
-    const response = await fetch(url, {
+    const response = await rateLimitedFetch('fetch', url, {
       headers: {
         'User-Agent': USER_AGENT,
         'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
@@ -117,6 +119,7 @@ async function scrapeWithFallback(url: string): Promise<ScrapedContent> {
       throw new Error(`HTTP ${response.status}: ${response.statusText}`);
     }
 
+    usage?.record({ provider: 'fetch' });
     const html = await response.text();
     const content = extractTextFromHTML(html);
     const title = extractTitleFromHTML(html);
@@ -143,9 +146,10 @@ async function scrapeWithFallback(url: string): Promise<ScrapedContent> {
 }
 
 /**
- * Main scraping function with retry logic
+ * Main scraping function with retry logic. Requests are reported to `usage`
+ * when given.
  */
-export async function scrapeContent(url: string): Promise<ScrapedContent> {
+export async function scrapeContent(url: string, usage?: UsageTracker): Promise<ScrapedContent> {
   if (!isValidUrl(url)) {
     throw new ScrapingError('Invalid URL format', url);
   }
@@ -157,7 +161,7 @@ export async function scrapeContent(url: string): Promise<ScrapedContent> {
       // Try Firecrawl first (only on first attempt)
       if (process.env.FIRECRAWL_API_KEY && attempt === 1) {
         try {
-          return await scrapeWithFirecrawl(url);
+          return await scrapeWithFirecrawl(url, usage);
         } catch (firecrawlError) {
           console.warn(`Firecrawl failed:`, firecrawlError);
           lastError = firecrawlError as Error;
@@ -167,7 +171,7 @@ export async function scrapeContent(url: string): Promise<ScrapedContent> {
       
       // Use fallback scraping
       try {
-        return await scrapeWithFallback(url);
+        return await scrapeWithFallback(url, usage);
       } catch (fallbackError) {
         console.warn(`Fallback attempt ${attempt} failed:`, fallbackError);
         lastError = fallbackError as Error;
@@ -190,21 +194,22 @@ export async function scrapeContent(url: string): Promise<ScrapedContent> {
 }
 
 /**
- * Scrape multiple URLs concurrently with rate limiting
+ * Scrape multiple URLs concurrently; the shared rate limiter paces requests
  */
 export async function scrapeMultipleUrls(
   urls: string[],
-  concurrency: number = 3
+  concurrency: number = 3,
+  usage?: UsageTracker
 ): Promise<(ScrapedContent | null)[]> {
   const results: (ScrapedContent | null)[] = new Array(urls.length).fill(null);
   const errors: string[] = [];
 
-  // Process URLs in batches to respect rate limits
+  // Process URLs in batches to bound memory and open connections
   for (let i = 0; i < urls.length; i += concurrency) {
     const batch = urls.slice(i, i + concurrency);
     const batchPromises = batch.map(async (url, batchIndex) => {
       try {
-        const result = await scrapeContent(url);
+        const result = await scrapeContent(url, usage);
         results[i + batchIndex] = result;
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -214,11 +219,6 @@ export async function scrapeMultipleUrls(
     });
 
     await Promise.all(batchPromises);
-
-    // Add delay between batches
-    if (i + concurrency < urls.length) {
-      await new Promise(resolve => setTimeout(resolve, 1000));
-    }
   }
 
   if (errors.length > 0) {
@@ -252,6 +252,12 @@ function extractTextFromHTML(html: string): string {
   let text = html.replace(/<script\b[^<]*(?:(?!<\/script>)<[^<]*)*<\/script>/gi, '');
   text = text.replace(/<style\b[^<]*(?:(?!<\/style>)<[^<]*)*<\/style>/gi, '');
   
+  // Keep document structure: headings become markdown, blocks become paragraphs
+  text = text.replace(/<h([1-6])[^>]*>([\s\S]*?)<\/h\1>/gi, (_, level, inner) =>
+    `\n\n${'#'.repeat(Number(level))} ${inner.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim()}\n\n`
+  );
+  text = text.replace(/<\/(p|div|section|article|li|tr|blockquote)>|<br\s*\/?>/gi, '\n\n');
+  
   // Remove HTML tags
   text = text.replace(/<[^>]*>/g, ' ');
   
@@ -264,11 +270,22 @@ function extractTextFromHTML(html: string): string {
              .replace(/&#39;/g, "'");
   
   // Clean up whitespace
-  text = text.replace(/\s+/g, ' ').trim();
+  text = normalizeWhitespace(text);
   
   return text;
 }
 
+/**
+ * Collapse runs of spaces within lines while keeping paragraph breaks
+ */
+function normalizeWhitespace(text: string): string {
+  return text
+    .replace(/[^\S\n]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
 /**
  * Extract title from HTML
  */
@@ -323,8 +340,8 @@ function extractTitleFromContent(content: string): string {
  * Clean and normalize content
  */
 function cleanContent(content: string): string {
-  // Remove excessive whitespace
-  content = content.replace(/\s+/g, ' ');
+  // Remove excessive whitespace (paragraph breaks are kept for passage splitting)
+  content = normalizeWhitespace(content);
   
   // Remove common navigation and footer text
   const removePatterns = [
@@ -1,160 +1,293 @@
+import {
+  type AnalysisQuery,
+  type SerpFeatures,
+  type UsageTracker,
+  RateLimitError,
+} from './types';
+import { rateLimitedFetch } from './ratelimit';
+
 // ============================================================================
-// SerpAPI Integration for Competitor Discovery
+// SerpAPI Integration for Competitor Discovery and SERP Features
 // ============================================================================
 
+const SERPAPI_ENDPOINT = 'https://serpapi.com/search.json';
+const MAX_SERP_QUERIES = 20; // Harvested queries added to one analysis
+
+interface SerpAPIOrganicResult {
+  title: string;
+  link: string;
+  snippet: string;
+  position: number;
+}
+
+interface SerpAPITextBlock {
+  type: string; // 'paragraph', 'heading', 'list', ...
+  snippet?: string;
+  list?: Array<{
+    title?: string;
+    snippet?: string;
+  }>;
+}
+
+interface SerpAPIAIOverview {
+  text_blocks?: SerpAPITextBlock[];
+  references?: Array<{
+    title?: string;
+    link?: string;
+    source?: string;
+  }>;
+  page_token?: string; // Set when the overview must be fetched separately
+  error?: string;
+}
+
 interface SerpAPIResponse {
-  organic_results?: Array<{
-    title: string;
-    link: string;
-    snippet: string;
-    position: number;
+  organic_results?: SerpAPIOrganicResult[];
+  related_questions?: Array<{
+    question: string;
+    snippet?: string;
+    title?: string;
+    link?: string;
   }>;
+  related_searches?: Array<{
+    query?: string;
+    link?: string;
+  }>;
+  answer_box?: {
+    type?: string;
+    title?: string;
+    answer?: string;
+    snippet?: string;
+    link?: string;
+  };
+  ai_overview?: SerpAPIAIOverview;
   error?: string;
 }
 
+export interface SerpSearchResult {
+  organicResults: SerpAPIOrganicResult[];
+  features: SerpFeatures;
+}
+
+export interface SerpSearchOptions {
+  loadAIOverview?: boolean; // Fetch a lazily loaded AI overview with a second search
+  aiOverviewUsage?: UsageTracker; // Where that second search is recorded; defaults to the search's tracker
+}
+
+/**
+ * Run one Google search through SerpAPI, returning the organic results and
+ * the SERP features around them (People Also Ask, related searches, answer
+ * box and AI overview). An AI overview Google loads lazily is only fetched
+ * when asked for, since it costs a second search.
+ */
+export async function searchSerpAPI(
+  query: string,
+  resultCount: number = 10,
+  usage?: UsageTracker,
+  options: SerpSearchOptions = {}
+): Promise<SerpSearchResult> {
+  const data = await fetchSerpAPI({ engine: 'google', q: query, num: String(resultCount) }, usage);
+
+  let aiOverview = data.ai_overview;
+  if (aiOverview?.page_token && options.loadAIOverview) {
+    // Google loads some AI overviews lazily; SerpAPI serves those from a second engine
+    try {
+      const overview = await fetchSerpAPI(
+        { engine: 'google_ai_overview', page_token: aiOverview.page_token },
+        options.aiOverviewUsage || usage
+      );
+      aiOverview = overview.ai_overview;
+    } catch (error) {
+      if (error instanceof RateLimitError) throw error;
+      console.warn(`Failed to load the AI overview for "${query}":`, error);
+      aiOverview = undefined;
+    }
+  }
+
+  return {
+    organicResults: (data.organic_results || [])
+      .filter(result => result.link && isValidUrl(result.link))
+      .slice(0, resultCount),
+    features: parseSerpFeatures(query, data, aiOverview),
+  };
+}
+
 /**
  * Discover competitor URLs using SerpAPI
  */
 export async function discoverCompetitorsWithSerpAPI(
   query: string,
-  resultCount: number = 5
+  resultCount: number = 5,
+  usage?: UsageTracker
 ): Promise<string[]> {
-  const apiKey = process.env.SERPAPI_KEY;
-  
-  if (!apiKey) {
-    throw new Error('SerpAPI key not configured');
-  }
-
   try {
-    const searchQuery = encodeURIComponent(query);
-    const url = `https://serpapi.com/search.json?engine=google&q=${searchQuery}&api_key=${apiKey}&num=${resultCount}`;
-
-    const response = await fetch(url, {
-      method: 'GET',
-      headers: {
-        'Accept': 'application/json',
-      },
-    });
-
-    if (!response.ok) {
-      throw new Error(`SerpAPI error: ${response.status} ${response.statusText}`);
-    }
-
-    const data: SerpAPIResponse = await response.json();
-    
-    if (data.error) {
-      throw new Error(`SerpAPI error: ${data.error}`);
-    }
+    const { organicResults } = await searchSerpAPI(query, resultCount, usage);
 
-    if (!data.organic_results || data.organic_results.length === 0) {
+    if (organicResults.length === 0) {
       console.warn('No organic results found in SerpAPI response');
-      return [];
     }
 
-    // Extract URLs from organic results
-    const urls = data.organic_results
-      .map(result => result.link)
-      .filter(url => url && isValidUrl(url))
-      .slice(0, resultCount);
-
-    return urls;
+    return organicResults.map(result => result.link);
   } catch (error) {
+    if (error instanceof RateLimitError) throw error;
     console.error('SerpAPI error:', error);
     throw new Error(`Failed to discover competitors: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 }
 
 /**
- * Discover competitors for multiple keywords
+ * Get search suggestions for a topic: its People Also Ask questions followed
+ * by its related searches
  */
-export async function discoverCompetitorsForKeywords(
-  keywords: string[],
-  resultsPerKeyword: number = 3
+export async function getSearchSuggestions(
+  topic: string,
+  maxSuggestions: number = 10,
+  usage?: UsageTracker
 ): Promise<string[]> {
-  const allUrls: string[] = [];
-  const seenUrls = new Set<string>();
+  try {
+    const { features } = await searchSerpAPI(topic, 10, usage);
+    return extractSerpQueries(features, maxSuggestions)
+      .filter(query => query.source === 'people-also-ask' || query.source === 'related-search')
+      .map(query => query.query);
+  } catch (error) {
+    if (error instanceof RateLimitError) throw error;
+    console.error('SerpAPI suggestions error:', error);
+    throw new Error(`Failed to get search suggestions: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
 
-  for (const keyword of keywords.slice(0, 5)) { // Limit to 5 keywords to avoid rate limits
-    try {
-      const urls = await discoverCompetitorsWithSerpAPI(keyword, resultsPerKeyword);
-      
-      for (const url of urls) {
-        if (!seenUrls.has(url)) {
-          allUrls.push(url);
-          seenUrls.add(url);
-        }
-      }
+// ============================================================================
+// SERP Feature Parsing
+// ============================================================================
 
-      // Add delay between requests to respect rate limits
-      await new Promise(resolve => setTimeout(resolve, 1000));
-    } catch (error) {
-      console.warn(`Failed to discover competitors for keyword "${keyword}":`, error);
-      // Continue with other keywords
+/**
+ * Turn SERP features into analysis queries, tagged with the feature they came
+ * from. AI overview headings are the sub-topics its answer covers. The answer
+ * box answers the searched query itself, which is the seed or page title, so
+ * it adds no query.
+ */
+export function extractSerpQueries(
+  features: SerpFeatures,
+  maxQueries: number = MAX_SERP_QUERIES
+): AnalysisQuery[] {
+  const queries: AnalysisQuery[] = [
+    ...features.peopleAlsoAsk.map(item => ({ query: item.question, source: 'people-also-ask' as const })),
+    ...features.relatedSearches.map(query => ({ query, source: 'related-search' as const })),
+    ...(features.aiOverview?.headings || []).map(heading => ({ query: heading, source: 'ai-overview' as const })),
+  ];
+
+  const seen = new Set<string>();
+  return queries
+    .map(item => ({ ...item, query: item.query.replace(/\s+/g, ' ').replace(/:$/, '').trim() }))
+    .filter(item => {
+      const key = item.query.toLowerCase();
+      if (!item.query || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .slice(0, maxQueries);
+}
+
+function parseSerpFeatures(
+  query: string,
+  data: SerpAPIResponse,
+  aiOverview?: SerpAPIAIOverview
+): SerpFeatures {
+  const features: SerpFeatures = {
+    query,
+    peopleAlsoAsk: (data.related_questions || [])
+      .filter(item => item.question)
+      .map(item => ({
+        question: item.question,
+        snippet: item.snippet,
+        title: item.title,
+        link: item.link,
+      })),
+    relatedSearches: (data.related_searches || [])
+      .map(item => item.query)
+      .filter((item): item is string => !!item),
+  };
+
+  const answerBox = data.answer_box;
+  if (answerBox && (answerBox.answer || answerBox.snippet)) {
+    features.answerBox = {
+      type: answerBox.type,
+      title: answerBox.title,
+      answer: answerBox.answer,
+      snippet: answerBox.snippet,
+      link: answerBox.link,
+    };
+  }
+
+  if (aiOverview?.text_blocks && aiOverview.text_blocks.length > 0) {
+    const text: string[] = [];
+    const headings: string[] = [];
+
+    for (const block of aiOverview.text_blocks) {
+      if (block.type === 'heading' && block.snippet) {
+        headings.push(block.snippet);
+      } else if (block.snippet) {
+        text.push(block.snippet);
+      }
+      for (const item of block.list || []) {
+        const itemText = [item.title, item.snippet].filter(Boolean).join(' ');
+        if (itemText) text.push(itemText);
+      }
     }
+
+    features.aiOverview = {
+      text,
+      headings,
+      references: (aiOverview.references || [])
+        .filter(reference => reference.link && isValidUrl(reference.link))
+        .map(reference => ({
+          title: reference.title,
+          link: reference.link as string,
+          source: reference.source,
+        })),
+    };
   }
 
-  return allUrls;
+  return features;
 }
 
-/**
- * Get search suggestions for a topic
- */
-export async function getSearchSuggestions(
-  topic: string,
-  maxSuggestions: number = 10
-): Promise<string[]> {
+// ============================================================================
+// Request Helpers
+// ============================================================================
+
+async function fetchSerpAPI(
+  params: Record<string, string>,
+  usage?: UsageTracker
+): Promise<SerpAPIResponse> {
   const apiKey = process.env.SERPAPI_KEY;
-  
+
   if (!apiKey) {
     throw new Error('SerpAPI key not configured');
   }
 
-  try {
-    const searchQuery = encodeURIComponent(topic);
-    const url = `https://serpapi.com/search.json?engine=google&q=${searchQuery}&api_key=${apiKey}&num=1`;
-
-    const response = await fetch(url, {
-      method: 'GET',
-      headers: {
-        'Accept': 'application/json',
-      },
-    });
-
-    if (!response.ok) {
-      throw new Error(`SerpAPI error: ${response.status} ${response.statusText}`);
-    }
+  const query = Object.keys(params)
+    .map(key => `${key}=${encodeURIComponent(params[key])}`)
+    .join('&');
 
-    const data: SerpAPIResponse = await response.json();
-    
-    if (data.error) {
-      throw new Error(`SerpAPI error: ${data.error}`);
-    }
+  const response = await rateLimitedFetch('serpapi', `${SERPAPI_ENDPOINT}?${query}&api_key=${apiKey}`, {
+    method: 'GET',
+    headers: {
+      'Accept': 'application/json',
+    },
+  });
 
-    // Extract suggestions from snippets and titles
-    const suggestions: string[] = [];
-    
-    if (data.organic_results) {
-      for (const result of data.organic_results) {
-        if (result.snippet) {
-          const words = result.snippet
-            .toLowerCase()
-            .replace(/[^\w\s]/g, '')
-            .split(/\s+/)
-            .filter(word => word.length > 3 && !commonWords.has(word));
-          
-          suggestions.push(...words.slice(0, 3));
-        }
-      }
-    }
+  if (!response.ok) {
+    throw new Error(`SerpAPI error: ${response.status} ${response.statusText}`);
+  }
 
-    // Remove duplicates and limit results
-    const uniqueSuggestions = [...new Set(suggestions)].slice(0, maxSuggestions);
-    
-    return uniqueSuggestions;
-  } catch (error) {
-    console.error('SerpAPI suggestions error:', error);
-    throw new Error(`Failed to get search suggestions: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  usage?.record({ provider: 'serpapi' });
+
+  const data: SerpAPIResponse = await response.json();
+
+  if (data.error) {
+    throw new Error(`SerpAPI error: ${data.error}`);
   }
+
+  return data;
 }
 
 // Helper function to validate URLs
@@ -166,14 +299,3 @@ function isValidUrl(url: string): boolean {
     return false;
   }
 }
-
-// Common words to filter out from suggestions
-const commonWords = new Set([
-  'the', 'and', 'or', 'but', 'in', 'on', 'at', 'to', 'for', 'of', 'with', 'by',
-  'is', 'are', 'was', 'were', 'be', 'been', 'being', 'have', 'has', 'had',
-  'do', 'does', 'did', 'will', 'would', 'could', 'should', 'may', 'might',
-  'this', 'that', 'these', 'those', 'a', 'an', 'as', 'if', 'then', 'else',
-  'when', 'where', 'why', 'how', 'all', 'any', 'both', 'each', 'few', 'more',
-  'most', 'other', 'some', 'such', 'no', 'nor', 'not', 'only', 'own', 'same',
-  'so', 'than', 'too', 'very', 'can', 'just', 'should', 'now'
-]); 
\ No newline at end of file
@@ -0,0 +1,165 @@
+import { type DomainFilters, type Project, type SourceType, DomainPatternSchema, SourceTypeSchema } from './types';
+
+// ============================================================================
+// Source Type Configuration
+// ============================================================================
+
+export const SOURCE_TYPES: SourceType[] = SourceTypeSchema.options;
+
+// Well-known sites per source type; subdomains match too
+const SOURCE_TYPE_DOMAINS: Record<Exclude<SourceType, 'vendor'>, string[]> = {
+  encyclopedia: [
+    'wikipedia.org', 'wikimedia.org', 'wiktionary.org', 'britannica.com', 'fandom.com',
+    'merriam-webster.com', 'dictionary.com', 'cambridge.org', 'collinsdictionary.com',
+    'scholarpedia.org', 'encyclopedia.com', 'newworldencyclopedia.org',
+  ],
+  video: [
+    'youtube.com', 'youtu.be', 'vimeo.com', 'tiktok.com', 'dailymotion.com', 'twitch.tv',
+    'wistia.com', 'loom.com', 'rumble.com',
+  ],
+  forum: [
+    'reddit.com', 'quora.com', 'stackexchange.com', 'stackoverflow.com', 'superuser.com',
+    'serverfault.com', 'askubuntu.com', 'news.ycombinator.com', 'discourse.org', 'answers.com',
+    'city-data.com', 'tripadvisor.com',
+  ],
+  social: [
+    'facebook.com', 'instagram.com', 'linkedin.com', 'twitter.com', 'x.com', 'pinterest.com',
+    'threads.net', 'tumblr.com', 'snapchat.com',
+  ],
+  marketplace: [
+    'amazon.com', 'amazon.co.uk', 'amazon.de', 'amazon.ca', 'ebay.com', 'ebay.co.uk', 'etsy.com',
+    'walmart.com', 'target.com', 'bestbuy.com', 'aliexpress.com', 'alibaba.com', 'temu.com',
+    'wayfair.com', 'homedepot.com', 'lowes.com', 'costco.com', 'newegg.com', 'mercadolibre.com',
+    'rakuten.com', 'g2.com', 'capterra.com', 'trustpilot.com', 'yelp.com', 'apps.apple.com',
+    'play.google.com', 'chromewebstore.google.com',
+  ],
+  publisher: [
+    'nytimes.com', 'washingtonpost.com', 'wsj.com', 'theguardian.com', 'bbc.com', 'bbc.co.uk',
+    'cnn.com', 'reuters.com', 'apnews.com', 'bloomberg.com', 'forbes.com', 'businessinsider.com',
+    'cnbc.com', 'usatoday.com', 'npr.org', 'theatlantic.com', 'wired.com', 'theverge.com',
+    'techcrunch.com', 'cnet.com', 'zdnet.com', 'engadget.com', 'pcmag.com', 'tomsguide.com',
+    'techradar.com', 'arstechnica.com', 'mashable.com', 'vox.com', 'buzzfeed.com', 'huffpost.com',
+    'investopedia.com', 'nerdwallet.com', 'healthline.com', 'webmd.com', 'verywellhealth.com',
+    'medicalnewstoday.com', 'mayoclinic.org', 'wikihow.com', 'medium.com', 'substack.com',
+    'hbr.org', 'inc.com', 'entrepreneur.com', 'fastcompany.com', 'thespruce.com', 'bonappetit.com',
+    'seriouseats.com', 'allrecipes.com', 'consumerreports.org', 'wirecutter.com',
+  ],
+};
+
+// Checked on the URL when the domain is not a known site
+const FORUM_PATTERN = /^(forum|forums|community|discuss|discussion|answers)\.|\/(forum|forums|community|threads?|discussions?|topic)\//i;
+const PUBLISHER_PATTERN = /(news|times|post|journal|tribune|herald|gazette|magazine|daily|weekly|chronicle)\b/i;
+
+// ============================================================================
+// Source Classification
+// ============================================================================
+
+/**
+ * Classify a URL by the kind of site it is on. Known sites are looked up by
+ * domain, forum and publisher wording in the host or path is checked next,
+ * and anything else is taken to be a vendor's own site.
+ */
+export function classifySourceType(url: string): SourceType {
+  const domain = normalizeDomain(url);
+  if (!domain) return 'vendor';
+
+  for (const type of SOURCE_TYPES) {
+    if (type === 'vendor') continue;
+    if (SOURCE_TYPE_DOMAINS[type].some(known => matchesDomain(domain, known))) {
+      return type;
+    }
+  }
+
+  if (FORUM_PATTERN.test(`${domain}${safePath(url)}`)) return 'forum';
+  if (PUBLISHER_PATTERN.test(domain.split('.').slice(0, -1).join('.'))) return 'publisher';
+  return 'vendor';
+}
+
+// ============================================================================
+// Domain Filters
+// ============================================================================
+
+/**
+ * Combine project and request domain filters. Deny lists add up; a request
+ * allow list or source type selection replaces the project's.
+ */
+export function resolveDomainFilters(
+  project?: Pick<Project, 'domainFilters'>,
+  request?: DomainFilters
+): DomainFilters | undefined {
+  const projectFilters = project?.domainFilters;
+  if (!projectFilters && !request) return undefined;
+
+  const denyDomains = [...(projectFilters?.denyDomains || []), ...(request?.denyDomains || [])];
+  const allowDomains = request?.allowDomains?.length ? request.allowDomains : projectFilters?.allowDomains;
+  const sourceTypes = request?.sourceTypes || projectFilters?.sourceTypes;
+
+  return {
+    allowDomains: allowDomains?.length ? allowDomains : undefined,
+    denyDomains: denyDomains.length ? Array.from(new Set(denyDomains)) : undefined,
+    sourceTypes,
+  };
+}
+
+/**
+ * Why a domain filter rules the URL out, or undefined when it passes. Deny
+ * wins over allow.
+ */
+export function checkDomainFilters(
+  url: string,
+  sourceType: SourceType,
+  filters?: DomainFilters
+): 'denied' | 'not-allowed' | 'source-type' | undefined {
+  if (!filters) return undefined;
+
+  const domain = normalizeDomain(url);
+  if (filters.denyDomains?.some(denied => matchesDomain(domain, denied))) {
+    return 'denied';
+  }
+  if (filters.allowDomains?.length && !filters.allowDomains.some(allowed => matchesDomain(domain, allowed))) {
+    return 'not-allowed';
+  }
+  if (filters.sourceTypes?.length && !filters.sourceTypes.includes(sourceType)) {
+    return 'source-type';
+  }
+  return undefined;
+}
+
+/**
+ * Parse a comma or whitespace separated domain list, dropping entries that
+ * are not domains
+ */
+export function parseDomainList(text: string): string[] {
+  const domains: string[] = [];
+  for (const entry of text.split(/[\s,]+/)) {
+    const parsed = DomainPatternSchema.safeParse(entry);
+    if (parsed.success && !domains.includes(parsed.data)) {
+      domains.push(parsed.data);
+    }
+  }
+  return domains;
+}
+
+/**
+ * Lowercase hostname without "www."; empty for an invalid URL
+ */
+export function normalizeDomain(url: string): string {
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return '';
+  }
+}
+
+// The domain itself or one of its subdomains
+function matchesDomain(domain: string, pattern: string): boolean {
+  return domain === pattern || domain.endsWith(`.${pattern}`);
+}
+
+function safePath(url: string): string {
+  try {
+    return new URL(url).pathname;
+  } catch {
+    return '';
+  }
+}
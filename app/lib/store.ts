@@ -1,6 +1,17 @@
+import { useMemo } from 'react';
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
-import { type AnalysisStore, type UIStore, type AnalysisResult } from './types';
+import {
+  type AnalysisStore,
+  type ProjectStore,
+  type RankStore,
+  type UIStore,
+  type AnalysisResult,
+  type QueryRankHistory,
+} from './types';
+import { getTaxonomyCategoryNames } from './taxonomies';
+import { appendRankEntries, buildRankHistory, extractRankEntries } from './rankings';
+import { sumUsage, summarizeUsage } from './usage';
 
 // ============================================================================
 // Analysis Store
@@ -64,6 +75,79 @@ export const useAnalysisStore = create<AnalysisStore>()(
   )
 );
 
+// ============================================================================
+// Project Store
+// ============================================================================
+
+export const useProjectStore = create<ProjectStore>()(
+  persist(
+    (set) => ({
+      // State
+      projects: [],
+      activeProjectId: null,
+
+      // Actions
+      saveProject: (project) =>
+        set((state) => ({
+          projects: state.projects.some(p => p.id === project.id)
+            ? state.projects.map(p => (p.id === project.id ? project : p))
+            : [...state.projects, project],
+        })),
+
+      removeProject: (projectId: string) =>
+        set((state) => ({
+          projects: state.projects.filter(p => p.id !== projectId),
+          activeProjectId: state.activeProjectId === projectId ? null : state.activeProjectId,
+        })),
+
+      setActiveProject: (projectId: string | null) =>
+        set({ activeProjectId: projectId }),
+    }),
+    {
+      name: 'ai-coverage-projects',
+    }
+  )
+);
+
+// ============================================================================
+// Rank Store
+// ============================================================================
+
+// Kept apart from the analysis history so rank history outlives the 20 most
+// recent analyses
+export const useRankStore = create<RankStore>()(
+  persist(
+    (set) => ({
+      // State
+      rankLedger: {},
+
+      // Actions
+      recordRanks: (result: AnalysisResult) =>
+        set((state) => {
+          const entries = extractRankEntries(result);
+          if (entries.length === 0) return state;
+
+          return {
+            rankLedger: {
+              ...state.rankLedger,
+              [result.targetUrl]: appendRankEntries(state.rankLedger[result.targetUrl] || [], entries),
+            },
+          };
+        }),
+
+      clearRanks: (targetUrl?: string) =>
+        set((state) => {
+          if (!targetUrl) return { rankLedger: {} };
+          const { [targetUrl]: _removed, ...rankLedger } = state.rankLedger;
+          return { rankLedger };
+        }),
+    }),
+    {
+      name: 'ai-coverage-ranks',
+    }
+  )
+);
+
 // ============================================================================
 // UI Store
 // ============================================================================
@@ -136,6 +220,15 @@ export function getAnalysisById(analysisId: string): AnalysisResult | null {
   return analysisHistory.find(a => a.analysisId === analysisId) || null;
 }
 
+/**
+ * Rank history of a target URL, oldest point first. Subscribes to the rank
+ * store, so components re-render when new ranks are recorded.
+ */
+export function useRankHistory(targetUrl?: string): QueryRankHistory[] {
+  const ledger = useRankStore((state) => (targetUrl ? state.rankLedger[targetUrl] : undefined));
+  return useMemo(() => buildRankHistory(ledger || []), [ledger]);
+}
+
 /**
  * Export analysis data for download
  */
@@ -161,17 +254,16 @@ export function exportAnalysisData(format: 'json' | 'csv' = 'json'): string {
  * Convert analysis result to CSV format
  */
 function convertToCSV(analysis: AnalysisResult): string {
+  // Category columns follow the taxonomy the analysis was run with
+  const categories = analysis.taxonomy
+    ? getTaxonomyCategoryNames(analysis.taxonomy)
+    : analysis.radarData.map(r => r.category);
+
   const headers = [
     'URL',
     'Title',
     'Overall Score',
-    'Technical Score',
-    'Marketing Score',
-    'SEO Score',
-    'Content Score',
-    'Business Score',
-    'Design Score',
-    'Analytics Score',
+    ...categories.map(category => `${category} Score`),
   ];
 
   const rows: string[][] = [headers];
@@ -184,7 +276,6 @@ function convertToCSV(analysis: AnalysisResult): string {
   ];
 
   // Add category scores for target
-  const categories = ['Technical', 'Marketing', 'SEO', 'Content', 'Business', 'Design', 'Analytics'];
   for (const category of categories) {
     const radarItem = analysis.radarData.find(r => r.category === category);
     targetRow.push(radarItem?.targetScore.toString() || '0');
@@ -228,6 +319,12 @@ export function getAnalysisStats() {
       averageCompetitorScore: 0,
       mostAnalyzedCategories: [],
       analysisFrequency: 0,
+      usage: {
+        totals: sumUsage([]),
+        averageCostPerAnalysis: 0,
+        byProvider: [],
+        byStage: [],
+      },
     };
   }
 
@@ -262,11 +359,24 @@ export function getAnalysisStats() {
   const daysDiff = Math.max(1, (lastAnalysis.getTime() - firstAnalysis.getTime()) / (1000 * 60 * 60 * 24));
   const analysisFrequency = Math.round((totalAnalyses / daysDiff) * 100) / 100;
 
+  // Aggregate usage over the analyses that recorded it
+  const usageReports = analysisHistory.flatMap(a => (a.usage ? [a.usage] : []));
+  const usageEntries = usageReports.flatMap(report => report.entries);
+  const usageTotals = sumUsage(usageEntries);
+
   return {
     totalAnalyses,
     averageTargetScore,
     averageCompetitorScore,
     mostAnalyzedCategories,
     analysisFrequency,
+    usage: {
+      totals: usageTotals,
+      averageCostPerAnalysis: usageReports.length > 0
+        ? Math.round((usageTotals.estimatedCost / usageReports.length) * 10000) / 10000
+        : 0,
+      byProvider: summarizeUsage(usageEntries, 'provider'),
+      byStage: summarizeUsage(usageEntries, 'stage'),
+    },
   };
 } 
\ No newline at end of file
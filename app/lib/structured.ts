@@ -0,0 +1,129 @@
+import { z } from 'zod';
+import { StructuredOutputError } from './types';
+
+// ============================================================================
+// Structured Generation Configuration
+// ============================================================================
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+const MAX_ECHOED_OUTPUT = 2000; // Characters of a rejected response quoted in the repair prompt
+const MAX_REPORTED_ISSUES = 10;
+
+export interface StructuredGenerationOptions<T> {
+  task: string; // Short name used in logs and errors, e.g. "query fan-out"
+  prompt: string;
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>;
+  generate: (prompt: string) => Promise<string | null | undefined>;
+  maxAttempts?: number;
+}
+
+// ============================================================================
+// Structured Generation
+// ============================================================================
+
+/**
+ * Ask a model for JSON and validate it against a zod schema.
+ *
+ * A response that is not JSON or does not match the schema is sent back with
+ * the validation issues in a repair prompt, up to `maxAttempts` calls in all.
+ * If no attempt validates, a StructuredOutputError is thrown; callers decide
+ * how to degrade, and nothing is ever filled in with placeholder data.
+ * Errors from `generate` itself (network, auth) are not retried here.
+ */
+export async function generateStructured<T>(
+  options: StructuredGenerationOptions<T>
+): Promise<T> {
+  const { task, prompt, schema, generate } = options;
+  const maxAttempts = Math.max(1, options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS);
+
+  let currentPrompt = prompt;
+  let issues: string[] = [];
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const output = await generate(currentPrompt);
+    const result = parseStructuredOutput(output, schema);
+
+    if (result.success) {
+      return result.data;
+    }
+
+    issues = result.issues;
+    console.warn(`Invalid ${task} output (attempt ${attempt}/${maxAttempts}):`, issues.join('; '));
+    currentPrompt = buildRepairPrompt(prompt, output, issues);
+  }
+
+  throw new StructuredOutputError(
+    `Model returned invalid ${task} output after ${maxAttempts} attempts`,
+    task,
+    maxAttempts,
+    issues
+  );
+}
+
+/**
+ * Extract and validate the JSON value in a model response
+ */
+export function parseStructuredOutput<T>(
+  output: string | null | undefined,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>
+): { success: true; data: T } | { success: false; issues: string[] } {
+  if (!output || !output.trim()) {
+    return { success: false, issues: ['The response was empty'] };
+  }
+
+  let value: unknown;
+  try {
+    value = JSON.parse(extractJson(output));
+  } catch (error) {
+    return {
+      success: false,
+      issues: [`The response is not valid JSON (${error instanceof Error ? error.message : 'parse error'})`],
+    };
+  }
+
+  const parsed = schema.safeParse(value);
+  if (parsed.success) {
+    return { success: true, data: parsed.data };
+  }
+
+  return {
+    success: false,
+    issues: parsed.error.issues
+      .slice(0, MAX_REPORTED_ISSUES)
+      .map(issue => `${issue.path.length > 0 ? issue.path.join('.') : 'value'}: ${issue.message}`),
+  };
+}
+
+// ============================================================================
+// Utilities
+// ============================================================================
+
+/**
+ * Strip Markdown code fences and any prose around the outermost JSON value
+ */
+function extractJson(output: string): string {
+  const text = output.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+
+  const start = text.search(/[[{]/);
+  if (start === -1) return text;
+
+  const closing = text[start] === '{' ? '}' : ']';
+  const end = text.lastIndexOf(closing);
+  return end > start ? text.slice(start, end + 1) : text;
+}
+
+function buildRepairPrompt(
+  originalPrompt: string,
+  output: string | null | undefined,
+  issues: string[]
+): string {
+  return `${originalPrompt}
+
+Your previous response could not be used:
+${issues.map(issue => `- ${issue}`).join('\n')}
+
+Previous response:
+${(output || '(empty)').slice(0, MAX_ECHOED_OUTPUT)}
+
+Reply again with ONLY the corrected JSON, matching the requested format exactly.`;
+}
@@ -0,0 +1,239 @@
+import { type Taxonomy, type TaxonomyCategory, AnalysisError } from './types';
+
+// ============================================================================
+// Built-in Taxonomies
+// ============================================================================
+
+export const DEFAULT_TAXONOMY_ID = 'digital-marketing';
+
+export const BUILT_IN_TAXONOMIES: Taxonomy[] = [
+  {
+    id: 'digital-marketing',
+    name: 'Digital Marketing',
+    fallbackCategory: 'General',
+    categories: [
+      {
+        name: 'Technical',
+        description: 'Software development, APIs, code and technical implementation details',
+        examples: ['api integration guide', 'how to implement tracking code'],
+        keywords: ['api', 'code', 'programming', 'development', 'technical', 'software'],
+        recommendation: 'Consider adding technical documentation, code examples, and implementation guides',
+      },
+      {
+        name: 'Marketing',
+        description: 'Marketing strategy, advertising, promotion, campaigns and branding',
+        examples: ['marketing campaign ideas', 'brand awareness strategy'],
+        keywords: ['marketing', 'advertising', 'promotion', 'campaign', 'brand'],
+        recommendation: 'Develop marketing-focused content like case studies, campaign analyses, and strategy guides',
+      },
+      {
+        name: 'SEO',
+        description: 'Search engine optimization, rankings, keyword research and organic visibility',
+        examples: ['how to rank higher on google', 'keyword research tools'],
+        keywords: ['seo', 'search', 'ranking', 'optimization', 'keywords'],
+        recommendation: 'Create SEO-focused content including keyword research, optimization guides, and ranking strategies',
+      },
+      {
+        name: 'Content',
+        description: 'Content creation, blogging, writing, articles and copywriting',
+        examples: ['blog post ideas', 'copywriting tips for landing pages'],
+        keywords: ['content', 'blog', 'writing', 'article', 'copywriting'],
+        recommendation: 'Expand content variety with different formats, topics, and audience segments',
+      },
+      {
+        name: 'Business',
+        description: 'Business strategy, growth, revenue, profitability and operations',
+        examples: ['how to grow a small business', 'revenue growth strategies'],
+        keywords: ['business', 'strategy', 'growth', 'revenue', 'profit'],
+        recommendation: 'Add business strategy content, growth tactics, and industry insights',
+      },
+      {
+        name: 'Design',
+        description: 'Visual design, user interface and user experience',
+        examples: ['landing page design best practices', 'ux design principles'],
+        keywords: ['design', 'ui', 'ux', 'interface', 'visual'],
+        recommendation: 'Include design resources, UI/UX guides, and visual examples',
+      },
+      {
+        name: 'Analytics',
+        description: 'Data analysis, metrics, tracking, reporting and measurement',
+        examples: ['marketing kpis to track', 'google analytics setup'],
+        keywords: ['analytics', 'data', 'metrics', 'tracking', 'measurement'],
+        recommendation: 'Provide data analysis content, metrics guides, and tracking tutorials',
+      },
+    ],
+  },
+  {
+    id: 'saas',
+    name: 'SaaS Product',
+    fallbackCategory: 'General',
+    categories: [
+      {
+        name: 'Features',
+        description: 'What the product does, capabilities, functionality and use cases',
+        examples: ['does it support single sign-on', 'project management software features'],
+        keywords: ['feature', 'features', 'capability', 'functionality'],
+      },
+      {
+        name: 'Pricing',
+        description: 'Plans, pricing tiers, costs, free trials and licensing',
+        examples: ['how much does it cost per user', 'free plan limits'],
+        keywords: ['price', 'pricing', 'cost', 'plan', 'trial', 'free'],
+      },
+      {
+        name: 'Integrations',
+        description: 'Connections with other tools, APIs, webhooks and data import/export',
+        examples: ['integrates with slack', 'zapier integration'],
+        keywords: ['integration', 'integrate', 'api', 'connect', 'webhook'],
+      },
+      {
+        name: 'Comparisons',
+        description: 'Comparisons with competitors and alternative products',
+        examples: ['asana vs trello', 'best alternatives to jira'],
+        keywords: ['vs', 'versus', 'alternative', 'alternatives', 'compare', 'comparison'],
+      },
+      {
+        name: 'Onboarding',
+        description: 'Getting started, setup, migration, tutorials and how-to guides',
+        examples: ['how to set up a workspace', 'migrate data from spreadsheets'],
+        keywords: ['setup', 'getting started', 'tutorial', 'how to', 'migrate'],
+      },
+      {
+        name: 'Security',
+        description: 'Security, compliance, privacy, data protection and reliability',
+        examples: ['is it soc 2 compliant', 'gdpr data processing'],
+        keywords: ['security', 'compliance', 'gdpr', 'soc', 'privacy', 'uptime'],
+      },
+    ],
+  },
+  {
+    id: 'ecommerce',
+    name: 'E-commerce',
+    fallbackCategory: 'General',
+    categories: [
+      {
+        name: 'Product Details',
+        description: 'Product specifications, materials, sizing, features and variants',
+        examples: ['what size should i buy', 'is this jacket waterproof'],
+        keywords: ['size', 'sizing', 'material', 'specs', 'dimensions', 'color'],
+      },
+      {
+        name: 'Buying Guides',
+        description: 'Choosing the right product, best-of lists and recommendations',
+        examples: ['best running shoes for beginners', 'how to choose a mattress'],
+        keywords: ['best', 'how to choose', 'guide', 'top', 'recommended'],
+      },
+      {
+        name: 'Price & Deals',
+        description: 'Price, discounts, coupons, sales and value for money',
+        examples: ['discount code', 'is it worth the price'],
+        keywords: ['price', 'cheap', 'deal', 'discount', 'coupon', 'sale'],
+      },
+      {
+        name: 'Shipping & Returns',
+        description: 'Delivery options, shipping times, returns, exchanges and warranties',
+        examples: ['free shipping threshold', 'return policy for sale items'],
+        keywords: ['shipping', 'delivery', 'return', 'refund', 'warranty', 'exchange'],
+      },
+      {
+        name: 'Reviews',
+        description: 'Customer reviews, ratings, reliability and real-world experiences',
+        examples: ['reviews of this blender', 'is this brand reliable'],
+        keywords: ['review', 'reviews', 'rating', 'reliable', 'worth it'],
+      },
+      {
+        name: 'Care & Usage',
+        description: 'How to use, maintain, clean or troubleshoot the product',
+        examples: ['how to clean leather boots', 'how to assemble'],
+        keywords: ['how to use', 'clean', 'care', 'maintain', 'assemble', 'troubleshoot'],
+      },
+    ],
+  },
+  {
+    id: 'local-services',
+    name: 'Local Services',
+    fallbackCategory: 'General',
+    categories: [
+      {
+        name: 'Services',
+        description: 'Services offered, what is included and specialties',
+        examples: ['emergency plumbing services', 'do you offer same day repair'],
+        keywords: ['service', 'services', 'repair', 'install', 'installation'],
+      },
+      {
+        name: 'Cost',
+        description: 'Prices, quotes, estimates and payment options',
+        examples: ['how much does a roof replacement cost', 'free estimate'],
+        keywords: ['cost', 'price', 'quote', 'estimate', 'financing'],
+      },
+      {
+        name: 'Location & Availability',
+        description: 'Service area, opening hours, booking and availability near the user',
+        examples: ['electrician near me', 'open on weekends'],
+        keywords: ['near me', 'hours', 'open', 'book', 'appointment', 'area'],
+      },
+      {
+        name: 'Trust',
+        description: 'Licensing, insurance, reviews, experience and guarantees',
+        examples: ['licensed and insured contractor', 'best rated dentist reviews'],
+        keywords: ['licensed', 'insured', 'reviews', 'certified', 'guarantee'],
+      },
+      {
+        name: 'Advice',
+        description: 'Problem diagnosis, DIY advice and when to call a professional',
+        examples: ['why is my furnace making noise', 'signs you need a new roof'],
+        keywords: ['why', 'signs', 'diy', 'should i', 'how to fix'],
+      },
+    ],
+  },
+];
+
+// ============================================================================
+// Taxonomy Helpers
+// ============================================================================
+
+/**
+ * Resolve a taxonomy from a built-in ID or a custom definition
+ */
+export function resolveTaxonomy(taxonomy?: string | Taxonomy): Taxonomy {
+  if (taxonomy && typeof taxonomy === 'object') {
+    return taxonomy;
+  }
+
+  const id = taxonomy || DEFAULT_TAXONOMY_ID;
+  const builtIn = BUILT_IN_TAXONOMIES.find(t => t.id === id);
+
+  if (!builtIn) {
+    throw new AnalysisError(`Unknown taxonomy: ${id}`, 'INVALID_TAXONOMY', 400);
+  }
+
+  return builtIn;
+}
+
+/**
+ * Get the texts embedded to represent a category: its description and examples
+ */
+export function getCategoryProfileTexts(category: TaxonomyCategory): string[] {
+  return [`${category.name}: ${category.description}`, ...(category.examples || [])];
+}
+
+/**
+ * Get the recommendation for a category, derived from its description if not set
+ */
+export function getCategoryRecommendation(taxonomy: Taxonomy, categoryName: string): string {
+  const category = taxonomy.categories.find(c => c.name === categoryName);
+
+  if (!category) {
+    return 'Create more comprehensive content in this area';
+  }
+
+  return category.recommendation ||
+    `Create content covering ${category.description.charAt(0).toLowerCase()}${category.description.slice(1)}`;
+}
+
+/**
+ * Get every column a taxonomy can produce, including its fallback category
+ */
+export function getTaxonomyCategoryNames(taxonomy: Taxonomy): string[] {
+  return [...taxonomy.categories.map(c => c.name), taxonomy.fallbackCategory || 'General'];
+}
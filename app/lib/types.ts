@@ -4,14 +4,202 @@ import { z } from 'zod';
 // API Request/Response Types
 // ============================================================================
 
+export const FanOutTypeSchema = z.enum([
+  'related',
+  'implicit',
+  'comparative',
+  'reformulation',
+  'entity_expansion',
+  'personalized',
+]);
+
+export type FanOutType = z.infer<typeof FanOutTypeSchema>;
+
+export const QuerySourceSchema = z.enum([
+  'provided',
+  'fan-out',
+  'keywords',
+  'people-also-ask',
+  'related-search',
+  'ai-overview',
+]);
+
+export type QuerySource = z.infer<typeof QuerySourceSchema>;
+
+export const SearchIntentSchema = z.enum(['informational', 'commercial', 'transactional', 'navigational']);
+
+export type SearchIntent = z.infer<typeof SearchIntentSchema>;
+
+export const IntentClassifierSchema = z.enum(['llm', 'heuristic']);
+
+export type IntentClassifier = z.infer<typeof IntentClassifierSchema>;
+
+export const EmbeddingProviderSchema = z.enum(['openai', 'gemini', 'local']);
+
+export type EmbeddingProviderName = z.infer<typeof EmbeddingProviderSchema>;
+
+export const LLMProviderSchema = z.enum(['openai', 'gemini', 'openai-compatible']);
+
+export type LLMProviderName = z.infer<typeof LLMProviderSchema>;
+
+export const LLMSettingsSchema = z.object({
+  provider: LLMProviderSchema.optional(),
+  model: z.string().min(1).max(100).optional(),
+  temperature: z.number().min(0).max(2).optional(),
+  maxTokens: z.number().int().min(1).max(16000).optional(),
+});
+
+export type LLMSettings = z.infer<typeof LLMSettingsSchema>;
+
+export const PromptNameSchema = z.enum([
+  'query-fanout',
+  'keyword-extraction',
+  'entity-extraction',
+  'cluster-naming',
+  'content-brief',
+  'citation-answer',
+  'intent-classification',
+]);
+
+export type PromptName = z.infer<typeof PromptNameSchema>;
+
+export const PromptOverrideSchema = z.object({
+  version: z.string().min(1).max(50), // A registered version, or a new label when `template` is set
+  template: z.string().min(1).max(20000).optional(),
+});
+
+export type PromptOverride = z.infer<typeof PromptOverrideSchema>;
+
+export const SourceTypeSchema = z.enum([
+  'vendor',
+  'publisher',
+  'forum',
+  'video',
+  'encyclopedia',
+  'marketplace',
+  'social',
+]);
+
+export type SourceType = z.infer<typeof SourceTypeSchema>;
+
+// A bare domain; subdomains match too ("reddit.com" covers "old.reddit.com")
+export const DomainPatternSchema = z.string()
+  .trim()
+  .toLowerCase()
+  .regex(/^(\*\.)?([a-z0-9-]+\.)+[a-z]{2,}$/, 'Expected a domain such as example.com')
+  .transform(domain => domain.replace(/^\*\./, '').replace(/^www\./, ''));
+
+export const DomainFiltersSchema = z.object({
+  allowDomains: z.array(DomainPatternSchema).max(100).optional(), // Only these may be discovered
+  denyDomains: z.array(DomainPatternSchema).max(100).optional(),
+  sourceTypes: z.array(SourceTypeSchema).min(1).optional(), // Only these source types may be discovered
+});
+
+export type DomainFilters = z.infer<typeof DomainFiltersSchema>;
+
+export const ProjectSchema = z.object({
+  id: z.string().min(1).max(50),
+  name: z.string().min(1).max(100),
+  prompts: z.record(PromptNameSchema, PromptOverrideSchema).optional(),
+  domainFilters: DomainFiltersSchema.optional(),
+});
+
+export type Project = z.infer<typeof ProjectSchema>;
+
+export const RerankerProviderSchema = z.enum(['cohere', 'local']);
+
+export type RerankerProviderName = z.infer<typeof RerankerProviderSchema>;
+
+export const TaxonomyCategorySchema = z.object({
+  name: z.string().min(1).max(50),
+  description: z.string().min(1).max(500),
+  examples: z.array(z.string().min(1).max(200)).max(20).optional().default([]),
+  keywords: z.array(z.string().min(1).max(50)).max(50).optional(),
+  recommendation: z.string().max(500).optional(),
+});
+
+export type TaxonomyCategory = z.infer<typeof TaxonomyCategorySchema>;
+
+export const TaxonomySchema = z.object({
+  id: z.string().min(1).max(50),
+  name: z.string().min(1).max(100),
+  fallbackCategory: z.string().min(1).max(50).optional().default('General'),
+  categories: z.array(TaxonomyCategorySchema).min(1).max(20),
+});
+
+export type Taxonomy = z.infer<typeof TaxonomySchema>;
+
+export const CategoryModeSchema = z.enum(['taxonomy', 'clusters']);
+
+export type CategoryMode = z.infer<typeof CategoryModeSchema>;
+
+export const NormalizationMethodSchema = z.enum(['none', 'zscore', 'percentile']);
+
+export type NormalizationMethod = z.infer<typeof NormalizationMethodSchema>;
+
+export const ScoringModeSchema = z.enum(['semantic', 'hybrid']);
+
+export type ScoringMode = z.infer<typeof ScoringModeSchema>;
+
+export const HybridWeightsSchema = z.object({
+  semantic: z.number().min(0).max(1),
+  lexical: z.number().min(0).max(1),
+}).refine(weights => weights.semantic + weights.lexical > 0, 'Hybrid weights cannot both be zero');
+
+export type HybridWeights = z.infer<typeof HybridWeightsSchema>;
+
+export const QueryPrioritySchema = z.enum(['high', 'medium', 'low']);
+
+export type QueryPriority = z.infer<typeof QueryPrioritySchema>;
+
+export const QueryInputSchema = z.union([
+  z.string().min(1).max(200),
+  z.object({
+    query: z.string().min(1).max(200),
+    weight: z.number().min(0).max(100).optional(), // Explicit importance; overrides volume and priority
+    volume: z.number().int().min(0).optional(), // Monthly search volume
+    priority: QueryPrioritySchema.optional(),
+  }),
+]);
+
+export type QueryInput = z.infer<typeof QueryInputSchema>;
+
 export const AnalyzeRequestSchema = z.object({
   targetUrl: z.string().url('Invalid URL format'),
+  seedQuery: z.string().min(1).max(200).optional(),
+  taxonomy: z.union([z.string().min(1).max(50), TaxonomySchema]).optional(),
   competitorUrls: z.array(z.string().url()).optional().default([]),
-  queries: z.array(z.string().min(1).max(200)).optional().default([]),
+  queries: z.array(QueryInputSchema).optional().default([]),
+  project: ProjectSchema.optional(),
   options: z.object({
     includeTopResults: z.boolean().optional().default(true),
     resultCount: z.number().min(1).max(10).optional().default(5),
+    discoveryQueries: z.number().int().min(1).max(10).optional(),
+    domainFilters: DomainFiltersSchema.optional(),
+    trackRankings: z.boolean().optional(),
+    rankQueries: z.number().int().min(1).max(50).optional(),
     generateQueries: z.boolean().optional().default(true),
+    pooling: z.enum(['max', 'mean', 'topk']).optional().default('max'),
+    topK: z.number().min(1).max(10).optional().default(3),
+    fanOutTypes: z.array(FanOutTypeSchema).optional(),
+    queriesPerFanOutType: z.number().min(1).max(10).optional(),
+    embeddingProvider: EmbeddingProviderSchema.optional(),
+    embeddingModel: z.string().min(1).max(100).optional(),
+    categoryMode: CategoryModeSchema.optional(),
+    normalization: NormalizationMethodSchema.optional(),
+    threshold: z.number().min(0).max(1).optional(),
+    scoring: ScoringModeSchema.optional(),
+    hybridWeights: HybridWeightsSchema.optional(),
+    rerank: z.boolean().optional(),
+    rerankProvider: RerankerProviderSchema.optional(),
+    rerankModel: z.string().min(1).max(100).optional(),
+    generateBriefs: z.boolean().optional(),
+    analyzeEntities: z.boolean().optional(),
+    simulateCitations: z.boolean().optional(),
+    citationQueries: z.number().min(1).max(30).optional(),
+    intentClassifier: IntentClassifierSchema.optional(),
+    harvestSerpQueries: z.boolean().optional(),
+    llm: LLMSettingsSchema.optional(),
   }).optional().default({}),
 });
 
@@ -49,14 +237,35 @@ export interface CompetitorResult {
   url: string;
   title: string;
   overallScore: number;
+  unweightedScore?: number; // Missing on analyses saved before query weights
   categoryScores: CategoryScore[];
   topQueries: QueryMatch[];
+  headToHead: HeadToHead;
   recommendations: string[];
+  citationShare?: number; // Share of simulated answer citations (0-1)
+}
+
+export interface HeadToHead {
+  categoriesWon: Array<{
+    category: string;
+    competitorScore: number;
+    targetScore: number;
+    difference: number;
+  }>;
+  queriesWon: Array<{
+    query: string;
+    category: string;
+    competitorSimilarity: number;
+    targetSimilarity: number;
+    passage?: string; // The competitor's winning passage
+  }>;
 }
 
 export interface CategoryScore {
   category: string;
   score: number;
+  unweightedScore: number;
+  weight: number; // Average query weight in the category
   maxScore: number;
   matchedQueries: number;
   totalQueries: number;
@@ -65,25 +274,221 @@ export interface CategoryScore {
 export interface QueryMatch {
   query: string;
   similarity: number;
+  rawSimilarity?: number;
+  semanticScore?: number; // Hybrid scoring: embedding component
+  lexicalScore?: number; // Hybrid scoring: BM25 component (1 = every query term appears)
+  rerankScore?: number; // Reranked relevance; becomes `similarity` when reranking is on
+  retrievalSimilarity?: number; // Reranking: `similarity` before the rerank stage
   category: string;
   matched: boolean;
   context?: string;
+  fanOutType?: FanOutType;
+  parent?: string;
+  weight?: number;
+  intent?: SearchIntent;
+  source?: QuerySource;
+  serpRank?: SerpRank; // Only for queries searched on Google
+}
+
+export interface SerpRank {
+  position: number | null; // This page's organic position; null when not in the results searched
+  domainPosition: number | null; // Best position of any page on its domain
+  outrankedBy: string[]; // Analyzed pages ranking above it
+  depth: number; // Organic results searched
+}
+
+export interface QuerySearch {
+  query: string;
+  results: Array<{
+    link: string;
+    position: number;
+  }>;
+}
+
+export interface AnalysisQuery {
+  query: string;
+  fanOutType?: FanOutType;
+  parent?: string;
+  weight?: number;
+  intent?: SearchIntent;
+  source?: QuerySource; // Where the query came from
+}
+
+export interface SerpFeatures {
+  query: string; // The search the features came from
+  peopleAlsoAsk: Array<{
+    question: string;
+    snippet?: string;
+    title?: string;
+    link?: string;
+  }>;
+  relatedSearches: string[];
+  answerBox?: {
+    type?: string;
+    title?: string;
+    answer?: string;
+    snippet?: string;
+    link?: string;
+  };
+  aiOverview?: {
+    text: string[]; // Paragraphs and list items, in order
+    headings: string[];
+    references: Array<{
+      title?: string;
+      link: string;
+      source?: string;
+    }>;
+  };
+}
+
+export interface FanOutCoverage {
+  type: FanOutType;
+  targetScore: number;
+  competitorAvg: number;
+  matchedQueries: number;
+  totalQueries: number;
+  queries: string[];
+}
+
+export interface IntentCoverage {
+  intent: SearchIntent;
+  targetScore: number;
+  competitorAvg: number;
+  matchedQueries: number;
+  totalQueries: number;
+  competitorMatchedAvg: number; // Average queries matched per competitor
+  queries: string[];
+}
+
+export interface CompetitorCandidate {
+  url: string;
+  domain: string;
+  score: number; // Summed reciprocal rank of this URL, averaged over the searched queries
+  domainScore: number; // The same over the domain's best position per query
+  appearances: Array<{
+    query: string;
+    position: number;
+  }>;
+  sourceType: SourceType;
+  filtered?: 'denied' | 'not-allowed' | 'source-type'; // Why a domain filter ruled it out
+  selected: boolean; // Scraped and analyzed as a competitor
+}
+
+export interface RankGroupStats {
+  pairs: number;
+  rankingRate: number; // Share of pairs ranking within the results searched (0-1)
+  averagePosition: number | null; // Over the pairs that rank
+}
+
+export interface RankCorrelation {
+  pairs: number; // Page x query pairs with a searched SERP
+  correlation: number | null; // Spearman, -1 to 1; positive when better-covered pages rank higher
+  covered: RankGroupStats;
+  uncovered: RankGroupStats;
+}
+
+export interface RankTracking {
+  queries: string[]; // Analysis queries with a searched SERP
+  correlation?: RankCorrelation; // Undefined with too few pairs
+}
+
+export interface RankLedgerEntry {
+  timestamp: string; // When the analysis ran
+  query: string;
+  rank: number | null; // Null when the target was not in the results searched
+}
+
+export interface QueryRankHistory {
+  query: string;
+  points: Array<{
+    timestamp: string;
+    position: number | null;
+  }>; // Oldest first
+  change: number | null; // Positions gained since the previous ranked analysis
+}
+
+export interface CompetitorDiscovery {
+  queries: string[]; // Queries searched, seed first
+  excludedDomain?: string; // The target's domain
+  filters?: DomainFilters; // Project and request filters combined
+  candidates: CompetitorCandidate[]; // Best first
 }
 
 export interface AnalysisResult {
   analysisId: string;
   targetUrl: string;
   targetScore: number;
+  targetUnweightedScore?: number; // Missing on analyses saved before query weights
   targetTitle: string;
+  targetCitationShare?: number; // Share of simulated answer citations (0-1)
   competitorResults: CompetitorResult[];
   radarData: RadarChartData[];
   coverageGaps: CoverageGap[];
   recommendations: string[];
   queries: string[];
+  // Optional fields are missing on analyses saved before the feature that adds them
+  querySet?: AnalysisQuery[];
+  fanOutCoverage?: FanOutCoverage[];
+  intentCoverage?: IntentCoverage[];
+  intentClassifier?: IntentClassifier; // Heuristic when the LLM classifier failed or was not used
+  intentFallback?: boolean; // The LLM classifier was asked for but failed
+  serpFeatures?: SerpFeatures;
+  competitorDiscovery?: CompetitorDiscovery;
+  rankTracking?: RankTracking;
+  coverageMatrix?: CoverageMatrix;
+  uncoveredQueries?: string[]; // Queries every competitor covers but the target does not
+  taxonomy?: Taxonomy;
+  categoryMode?: CategoryMode;
+  topicClusters?: TopicCluster[];
+  normalization?: NormalizationMethod;
+  calibration?: CalibrationProfile;
+  scoring?: ScoringMode;
+  reranker?: {
+    provider: RerankerProviderName;
+    model: string;
+  };
+  entityAnalysis?: EntityAnalysis;
+  citationAnalysis?: CitationAnalysis;
+  llm?: {
+    provider: LLMProviderName;
+    model: string;
+  };
+  projectId?: string;
+  promptVersions?: Partial<Record<PromptName, string>>;
+  usage?: UsageReport;
   timestamp: string;
   processingTime: number;
 }
 
+export interface CoverageCell {
+  url: string;
+  similarity: number;
+  matched: boolean;
+  passage?: string;
+  serpRank?: SerpRank;
+}
+
+export interface CoverageMatrixRow {
+  query: string;
+  category: string;
+  fanOutType?: FanOutType;
+  weight?: number;
+  intent?: SearchIntent;
+  source?: QuerySource;
+  cells: CoverageCell[];
+}
+
+export interface CoverageMatrix {
+  urls: string[]; // Target first, then competitors; every row's cells follow this order
+  rows: CoverageMatrixRow[];
+}
+
+export interface TopicCluster {
+  name: string;
+  description: string;
+  queries: string[];
+}
+
 export interface RadarChartData {
   category: string;
   targetScore: number;
@@ -97,12 +502,183 @@ export interface CoverageGap {
   competitorUrls: string[];
   priority: 'high' | 'medium' | 'low';
   recommendation: string;
+  brief?: ContentBrief;
+}
+
+export interface ContentBrief {
+  category: string;
+  title: string;
+  outline: Array<{
+    level: 2 | 3;
+    heading: string;
+  }>;
+  questions: string[];
+  entities: string[];
+  targetWordCount: number;
+  referenceUrls: string[];
+  generatedAt: string;
+}
+
+export interface ExtractedEntity {
+  entity: string;
+  type: string;
+  relevance: number; // 1-10 as scored by the extractor
+}
+
+export interface AnalysisEntity {
+  name: string; // Most common surface form across pages
+  type: string;
+  urls: string[]; // Pages that mention it, target included
+  averageRelevance: number;
+}
+
+export interface EntityGap {
+  entity: string;
+  type: string;
+  competitorUrls: string[];
+  competitorShare: number; // Share of analyzed competitors that mention it (0-1)
+  averageRelevance: number;
+  score: number; // competitorShare x averageRelevance / 10
+}
+
+export interface EntityAnalysis {
+  entities: AnalysisEntity[];
+  gaps: EntityGap[];
+  analyzedUrls: string[]; // Pages whose entity extraction succeeded
+  partialUrls?: string[]; // Analyzed pages with text left unread (too long, or a chunk failed)
+}
+
+export interface AnswerSource {
+  url: string;
+  passage: string;
+  similarity: number;
+}
+
+export interface AnswerCitation {
+  url: string;
+  count: number; // Inline citations of the URL in the answer
+  position: number; // Order of first citation among cited URLs (1 = cited first)
+}
+
+export interface QueryCitationResult {
+  query: string;
+  answer: string;
+  sources: AnswerSource[]; // Passages given to the model, numbered from 1 in this order
+  citations: AnswerCitation[]; // Cited URLs in order of first citation
+}
+
+export interface UrlCitationShare {
+  url: string;
+  citations: number;
+  share: number; // Share of all citations across simulated answers (0-1)
+  queriesCited: number;
+  queriesRetrieved: number; // Queries where one of its passages was among the sources
+  prominence: number; // Mean of 1 / position over simulated queries, 0 when not cited
+}
+
+export interface CitationAnalysis {
+  queries: QueryCitationResult[];
+  urls: UrlCitationShare[]; // Target first, then competitors
+  passagesPerQuery: number;
 }
 
 // ============================================================================
 // AI Processing Types
 // ============================================================================
 
+export interface EmbeddingProvider {
+  name: EmbeddingProviderName;
+  model: string;
+  maxBatchSize: number;
+  embed: (texts: string[], usage?: UsageTracker) => Promise<number[][]>;
+}
+
+export interface LLMGenerateOptions {
+  temperature?: number;
+  maxTokens?: number;
+  json?: boolean; // Ask for a JSON response where the provider supports it
+  usage?: UsageTracker;
+}
+
+export interface LLMProvider {
+  name: LLMProviderName;
+  model: string;
+  generate: (prompt: string, options?: LLMGenerateOptions) => Promise<string>;
+}
+
+export interface PromptTemplate {
+  name: PromptName;
+  version: string;
+  description: string;
+  variables: string[]; // Placeholders the template may use, written {{name}}
+  template: string;
+  custom?: boolean; // Supplied by a project override rather than the registry
+}
+
+export type PromptSet = Record<PromptName, PromptTemplate>;
+
+export interface RerankerProvider {
+  name: RerankerProviderName;
+  model: string;
+  rerank: (query: string, documents: string[], usage?: UsageTracker) => Promise<number[]>; // Relevance 0-1, in input order
+}
+
+// ============================================================================
+// Usage Accounting Types
+// ============================================================================
+
+export type UsageStage =
+  | 'scraping'
+  | 'discovery'
+  | 'keywords'
+  | 'fan-out'
+  | 'embedding'
+  | 'calibration'
+  | 'clustering'
+  | 'rerank'
+  | 'briefs'
+  | 'entities'
+  | 'citations'
+  | 'intent'
+  | 'rankings'
+  | 'serp-features';
+
+export interface UsageEvent {
+  provider: string; // e.g. openai, gemini, firecrawl, serpapi
+  model?: string;
+  calls?: number; // Defaults to 1
+  inputTokens?: number;
+  outputTokens?: number;
+}
+
+export interface UsageTracker {
+  stage: UsageStage;
+  record: (event: UsageEvent) => void;
+}
+
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  estimatedCost: number; // USD
+}
+
+export interface UsageEntry extends UsageTotals {
+  stage: UsageStage;
+  provider: string;
+  model?: string;
+}
+
+export interface UsageReport {
+  entries: UsageEntry[]; // One per stage, provider and model
+  totals: UsageTotals;
+}
+
+export interface UsageLedger {
+  track: (stage: UsageStage) => UsageTracker;
+  report: () => UsageReport;
+}
+
 export interface EmbeddingCache {
   text: string;
   embedding: number[];
@@ -110,6 +686,61 @@ export interface EmbeddingCache {
   createdAt: string;
 }
 
+export interface CalibrationProfile {
+  provider: EmbeddingProviderName;
+  model: string;
+  corpusVersion: string;
+  baseline: {
+    mean: number;
+    std: number;
+    p95: number;
+  };
+  relevant: {
+    mean: number;
+    std: number;
+    quantiles: number[];
+  };
+  createdAt: string;
+}
+
+export type PoolingStrategy = 'max' | 'mean' | 'topk';
+
+export interface Passage {
+  index: number;
+  heading: string;
+  text: string;
+}
+
+export interface SimilarityOptions {
+  threshold?: number;
+  pooling?: PoolingStrategy;
+  topK?: number;
+  passageSize?: number;
+  taxonomy?: Taxonomy;
+  normalization?: NormalizationMethod;
+  calibration?: CalibrationProfile;
+  scoring?: ScoringMode;
+  hybridWeights?: HybridWeights;
+}
+
+export interface AnalysisOptions extends SimilarityOptions {
+  generateQueries?: boolean;
+  seedQuery?: string;
+  fanOutTypes?: FanOutType[];
+  queriesPerFanOutType?: number;
+  categoryMode?: CategoryMode;
+  reranker?: RerankerProvider;
+  generateBriefs?: boolean;
+  analyzeEntities?: boolean;
+  simulateCitations?: boolean;
+  citationQueries?: number;
+  intentClassifier?: IntentClassifier;
+  serpSearches?: QuerySearch[]; // Google results used to record each page's rank
+  llm?: LLMProvider;
+  prompts?: PromptSet;
+  usage?: UsageLedger;
+}
+
 export interface SimilarityResult {
   text1: string;
   text2: string;
@@ -134,14 +765,17 @@ export interface AnalysisFormProps {
   disabled?: boolean;
 }
 
+export type ExportFormat = 'csv' | 'json' | 'matrix' | 'briefs';
+
 export interface ResultsDisplayProps {
   result: AnalysisResult;
-  onExport?: (format: 'csv' | 'json') => void;
+  onExport?: (format: ExportFormat) => void;
   onNewAnalysis?: () => void;
 }
 
 export interface RadarChartProps {
   data: RadarChartData[];
+  categoryMode?: CategoryMode;
   width?: number;
   height?: number;
   showLegend?: boolean;
@@ -151,6 +785,7 @@ export interface CompetitorCardProps {
   competitor: CompetitorResult;
   targetScore: number;
   onViewDetails?: (url: string) => void;
+  showDetails?: boolean;
 }
 
 // ============================================================================
@@ -173,6 +808,26 @@ export interface AnalysisStore {
   removeFromHistory: (analysisId: string) => void;
 }
 
+export interface ProjectStore {
+  // State
+  projects: Project[];
+  activeProjectId: string | null;
+
+  // Actions
+  saveProject: (project: Project) => void;
+  removeProject: (projectId: string) => void;
+  setActiveProject: (projectId: string | null) => void;
+}
+
+export interface RankStore {
+  // State
+  rankLedger: Record<string, RankLedgerEntry[]>; // Per target URL, oldest first
+
+  // Actions
+  recordRanks: (result: AnalysisResult) => void;
+  clearRanks: (targetUrl?: string) => void;
+}
+
 export interface UIStore {
   // State
   darkMode: boolean;
@@ -204,6 +859,12 @@ export interface RateLimitInfo {
   limit: number;
 }
 
+export interface RateLimitConfig {
+  rpm?: number; // Requests per minute; unset means unlimited
+  tpm?: number; // Tokens per minute; unset means unlimited
+  concurrency: number; // Requests in flight at once
+}
+
 export interface ProcessingStats {
   totalUrls: number;
   processedUrls: number;
@@ -300,4 +961,16 @@ export class RateLimitError extends Error {
     super(message);
     this.name = 'RateLimitError';
   }
-} 
\ No newline at end of file
+} 
+
+export class StructuredOutputError extends Error {
+  constructor(
+    message: string,
+    public task: string,
+    public attempts: number,
+    public issues: string[]
+  ) {
+    super(message);
+    this.name = 'StructuredOutputError';
+  }
+}
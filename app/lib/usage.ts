@@ -0,0 +1,206 @@
+import {
+  type EmbeddingProvider,
+  type LLMProvider,
+  type RerankerProvider,
+  type UsageEntry,
+  type UsageEvent,
+  type UsageLedger,
+  type UsageReport,
+  type UsageStage,
+  type UsageTotals,
+  type UsageTracker,
+} from './types';
+
+// ============================================================================
+// Pricing Configuration
+// ============================================================================
+
+// Estimates in USD. Token prices are per million tokens; call prices are per
+// request. Models without an entry fall back to the provider's default, and
+// local models and plain fetches are free.
+interface TokenPrice {
+  input: number;
+  output: number;
+}
+
+const TOKEN_PRICES: Record<string, TokenPrice> = {
+  'openai:gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+  'openai:gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'openai:gpt-4o': { input: 2.5, output: 10 },
+  'openai:gpt-4-turbo': { input: 10, output: 30 },
+  'openai:text-embedding-3-small': { input: 0.02, output: 0 },
+  'openai:text-embedding-3-large': { input: 0.13, output: 0 },
+  'openai:text-embedding-ada-002': { input: 0.1, output: 0 },
+  'gemini:gemini-pro': { input: 0.5, output: 1.5 },
+  'gemini:gemini-1.5-flash': { input: 0.075, output: 0.3 },
+  'gemini:gemini-1.5-pro': { input: 1.25, output: 5 },
+  'gemini:text-embedding-004': { input: 0, output: 0 },
+  openai: { input: 0.5, output: 1.5 },
+  gemini: { input: 0.5, output: 1.5 },
+};
+
+const CALL_PRICES: Record<string, number> = {
+  serpapi: 0.015, // Developer plan: $75 for 5,000 searches
+  firecrawl: 0.00083, // Hobby plan: $16 for 3,000 credits, one credit per scrape
+  cohere: 0.002, // $2 per 1,000 rerank searches
+};
+
+const CHARS_PER_TOKEN = 4; // Rough estimate when a provider reports no token counts
+
+// ============================================================================
+// Usage Ledger
+// ============================================================================
+
+/**
+ * Create a ledger for one analysis. Each stage gets a tracker that provider
+ * calls report to; the report totals calls, tokens and estimated cost per
+ * stage, provider and model.
+ */
+export function createUsageLedger(): UsageLedger {
+  const entries = new Map<string, UsageEntry>();
+
+  const record = (stage: UsageStage, event: UsageEvent) => {
+    const key = `${stage}|${event.provider}|${event.model || ''}`;
+    const entry = entries.get(key) || {
+      stage,
+      provider: event.provider,
+      model: event.model,
+      ...emptyTotals(),
+    };
+
+    entry.calls += event.calls ?? 1;
+    entry.inputTokens += event.inputTokens || 0;
+    entry.outputTokens += event.outputTokens || 0;
+    entry.estimatedCost += estimateCost(event);
+    entries.set(key, entry);
+  };
+
+  return {
+    track: (stage: UsageStage): UsageTracker => ({
+      stage,
+      record: (event: UsageEvent) => record(stage, event),
+    }),
+    report: (): UsageReport => {
+      const reported = Array.from(entries.values()).map(entry => ({
+        ...entry,
+        estimatedCost: roundCost(entry.estimatedCost),
+      }));
+
+      return {
+        entries: reported,
+        totals: sumUsage(reported),
+      };
+    },
+  };
+}
+
+/**
+ * Estimated cost in USD of one usage event
+ */
+export function estimateCost(event: UsageEvent): number {
+  const calls = event.calls ?? 1;
+  const price = TOKEN_PRICES[`${event.provider}:${event.model}`] || TOKEN_PRICES[event.provider];
+
+  const tokenCost = price
+    ? ((event.inputTokens || 0) * price.input + (event.outputTokens || 0) * price.output) / 1000000
+    : 0;
+
+  return tokenCost + calls * (CALL_PRICES[event.provider] || 0);
+}
+
+/**
+ * Rough token count for providers that do not report usage
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Group usage entries by provider or stage, most expensive first
+ */
+export function summarizeUsage(
+  entries: UsageEntry[],
+  by: 'provider' | 'stage'
+): Array<UsageTotals & { key: string }> {
+  const groups = new Map<string, UsageEntry[]>();
+  for (const entry of entries) {
+    const key = entry[by];
+    groups.set(key, [...(groups.get(key) || []), entry]);
+  }
+
+  return Array.from(groups.entries())
+    .map(([key, group]) => ({ key, ...sumUsage(group) }))
+    .sort((a, b) => b.estimatedCost - a.estimatedCost || b.calls - a.calls);
+}
+
+/**
+ * Add up calls, tokens and cost
+ */
+export function sumUsage(items: UsageTotals[]): UsageTotals {
+  const totals = items.reduce((sum, item) => ({
+    calls: sum.calls + item.calls,
+    inputTokens: sum.inputTokens + item.inputTokens,
+    outputTokens: sum.outputTokens + item.outputTokens,
+    estimatedCost: sum.estimatedCost + item.estimatedCost,
+  }), emptyTotals());
+
+  return { ...totals, estimatedCost: roundCost(totals.estimatedCost) };
+}
+
+// ============================================================================
+// Metered Providers
+// ============================================================================
+
+/**
+ * Report every generate call of an LLM provider to a stage tracker
+ */
+export function meterLLMProvider(llm: LLMProvider, usage?: UsageTracker): LLMProvider {
+  if (!usage) return llm;
+
+  return {
+    ...llm,
+    generate: (prompt, options = {}) => llm.generate(prompt, { ...options, usage }),
+  };
+}
+
+/**
+ * Report every embedding request of a provider to a stage tracker
+ */
+export function meterEmbeddingProvider(
+  provider: EmbeddingProvider,
+  usage?: UsageTracker
+): EmbeddingProvider {
+  if (!usage) return provider;
+
+  return {
+    ...provider,
+    embed: texts => provider.embed(texts, usage),
+  };
+}
+
+/**
+ * Report every rerank request of a provider to a stage tracker
+ */
+export function meterRerankerProvider(
+  reranker: RerankerProvider,
+  usage?: UsageTracker
+): RerankerProvider {
+  if (!usage) return reranker;
+
+  return {
+    ...reranker,
+    rerank: (query, documents) => reranker.rerank(query, documents, usage),
+  };
+}
+
+// ============================================================================
+// Utilities
+// ============================================================================
+
+function emptyTotals(): UsageTotals {
+  return { calls: 0, inputTokens: 0, outputTokens: 0, estimatedCost: 0 };
+}
+
+function roundCost(cost: number): number {
+  return Math.round(cost * 1000000) / 1000000;
+}
@@ -4,8 +4,8 @@ import React, { useState } from 'react';
 import { AnalysisForm } from './components/AnalysisForm';
 import { ResultsDisplay } from './components/ResultsDisplay';
 import { LoadingState } from './components/LoadingState';
-import { useAnalysisStore } from './lib/store';
-import { type AnalyzeRequest, type AnalysisResult } from './lib/types';
+import { useAnalysisStore, useRankStore } from './lib/store';
+import { type AnalyzeRequest, type AnalysisResult, type ExportFormat } from './lib/types';
 import { ErrorBoundary } from './components/ErrorBoundary';
 
 export default function HomePage() {
@@ -18,6 +18,7 @@ export default function HomePage() {
     addToHistory,
     setError,
   } = useAnalysisStore();
+  const recordRanks = useRankStore(state => state.recordRanks);
 
   const [showResults, setShowResults] = useState(false);
 
@@ -49,6 +50,7 @@ export default function HomePage() {
       const analysisResult: AnalysisResult = result.data;
       setCurrentAnalysis(analysisResult);
       addToHistory(analysisResult);
+      recordRanks(analysisResult);
       setShowResults(true);
 
     } catch (error) {
@@ -65,7 +67,7 @@ export default function HomePage() {
     setError(null);
   };
 
-  const handleExport = async (format: 'csv' | 'json') => {
+  const handleExport = async (format: ExportFormat) => {
     if (!currentAnalysis) return;
 
     try {
@@ -93,7 +95,7 @@ export default function HomePage() {
       const url = window.URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = url;
-      a.download = `analysis-${Date.now()}.${format}`;
+      a.download = `analysis-${Date.now()}.${format === 'json' ? 'json' : format === 'briefs' ? 'md' : 'csv'}`;
       document.body.appendChild(a);
       a.click();
       window.URL.revokeObjectURL(url);